@@ -0,0 +1,297 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Slider } from '@/components/ui/slider';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  TONE_DIMENSIONS,
+  createBrandVoiceProfile,
+  type BrandVoiceProfile,
+  type ToneDimension
+} from '@/lib/brand-voice';
+import { COPY_METRICS, DEFAULT_METRIC_THRESHOLDS, type CopyMetricId, type MetricThreshold } from '@/lib/copy-metrics';
+import { Check, Plus, RotateCcw, Trash2, X } from 'lucide-react';
+
+interface BrandVoiceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  profiles: BrandVoiceProfile[];
+  activeProfileId?: string | null;
+  onSave: (profile: BrandVoiceProfile) => BrandVoiceProfile;
+  onDelete: (id: string) => void;
+  onUse: (id: string) => void;
+}
+
+// Examples are edited as one text area, one paragraph per blank-line-separated block
+const joinExamples = (examples: string[]) => examples.join('\n\n');
+const splitExamples = (text: string) => text.split(/\n\s*\n/).map(example => example.trim()).filter(Boolean);
+
+export const BrandVoiceDialog = ({
+  open,
+  onOpenChange,
+  profiles,
+  activeProfileId,
+  onSave,
+  onDelete,
+  onUse
+}: BrandVoiceDialogProps) => {
+  const [draft, setDraft] = useState<BrandVoiceProfile | null>(null);
+  const [examplesText, setExamplesText] = useState('');
+  const [bannedText, setBannedText] = useState('');
+
+  // Read when the dialog opens; later profile saves must not reset the draft
+  const profilesRef = useRef(profiles);
+  profilesRef.current = profiles;
+  const activeProfileIdRef = useRef(activeProfileId);
+  activeProfileIdRef.current = activeProfileId;
+
+  const editProfile = useCallback((profile: BrandVoiceProfile) => {
+    setDraft(profile);
+    setExamplesText(joinExamples(profile.examples));
+    setBannedText(profile.bannedWords.join(', '));
+  }, []);
+
+  // Open on the profile the project uses, or the first one
+  useEffect(() => {
+    if (!open) return;
+    const initial = profilesRef.current.find(profile => profile.id === activeProfileIdRef.current) || profilesRef.current[0];
+    editProfile(initial || createBrandVoiceProfile());
+  }, [open, editProfile]);
+
+  const updateDraft = (changes: Partial<BrandVoiceProfile>) => {
+    setDraft(prev => prev && { ...prev, ...changes });
+  };
+
+  const updateTone = (dimension: ToneDimension, value: number) => {
+    setDraft(prev => prev && { ...prev, tone: { ...prev.tone, [dimension]: value } });
+  };
+
+  const updateTerm = (index: number, field: 'avoid' | 'prefer', value: string) => {
+    setDraft(prev => prev && {
+      ...prev,
+      terminology: prev.terminology.map((term, termIndex) => termIndex === index ? { ...term, [field]: value } : term)
+    });
+  };
+
+  // An empty box leaves that side of the range open
+  const updateThreshold = (id: CopyMetricId, bound: keyof MetricThreshold, value: string) => {
+    setDraft(prev => {
+      if (!prev) return prev;
+      const { [bound]: _removed, ...rest } = prev.metricThresholds[id];
+      const threshold = value.trim() === '' || isNaN(Number(value)) ? rest : { ...rest, [bound]: Number(value) };
+      return { ...prev, metricThresholds: { ...prev.metricThresholds, [id]: threshold } };
+    });
+  };
+
+  const saveDraft = () => {
+    if (!draft) return null;
+    const saved = onSave({
+      ...draft,
+      examples: splitExamples(examplesText),
+      bannedWords: bannedText.split(/[,\n]/).map(word => word.trim()).filter(Boolean),
+      terminology: draft.terminology.filter(term => term.avoid.trim() || term.prefer.trim())
+    });
+    editProfile(saved);
+    return saved;
+  };
+
+  const deleteDraft = () => {
+    if (!draft) return;
+    onDelete(draft.id);
+    const next = profiles.find(profile => profile.id !== draft.id);
+    editProfile(next || createBrandVoiceProfile());
+  };
+
+  const isSaved = !!draft && profiles.some(profile => profile.id === draft.id);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Brand Voices</DialogTitle>
+          <DialogDescription>
+            Saved voices are shared by all projects in this browser and sent with every copy prompt.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-[200px_1fr] gap-6">
+          <div className="space-y-1">
+            {profiles.map(profile => (
+              <Button
+                key={profile.id}
+                variant={draft?.id === profile.id ? 'secondary' : 'ghost'}
+                size="sm"
+                className="w-full justify-between"
+                onClick={() => editProfile(profile)}
+              >
+                <span className="truncate">{profile.name}</span>
+                {profile.id === activeProfileId && <Check className="w-3 h-3 flex-shrink-0" />}
+              </Button>
+            ))}
+            <Button variant="outline" size="sm" className="w-full" onClick={() => editProfile(createBrandVoiceProfile())}>
+              <Plus className="w-4 h-4 mr-2" />
+              New Voice
+            </Button>
+          </div>
+
+          {draft && (
+            <div className="space-y-5">
+              <div className="space-y-2">
+                <label htmlFor="brandVoiceName" className="text-sm font-medium">Name</label>
+                <Input
+                  id="brandVoiceName"
+                  value={draft.name}
+                  onChange={(e) => updateDraft({ name: e.target.value })}
+                />
+              </div>
+
+              <div className="space-y-4">
+                <h4 className="text-sm font-medium">Tone</h4>
+                {(Object.keys(TONE_DIMENSIONS) as ToneDimension[]).map(dimension => (
+                  <div key={dimension} className="space-y-2">
+                    <div className="flex justify-between text-xs text-muted-foreground">
+                      <span>{TONE_DIMENSIONS[dimension].low}</span>
+                      <span className="font-medium text-foreground">{TONE_DIMENSIONS[dimension].label}</span>
+                      <span>{TONE_DIMENSIONS[dimension].high}</span>
+                    </div>
+                    <Slider
+                      value={[draft.tone[dimension]]}
+                      onValueChange={([value]) => updateTone(dimension, value)}
+                      min={0}
+                      max={100}
+                      step={5}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <label htmlFor="brandVoiceExamples" className="text-sm font-medium">Example Paragraphs</label>
+                <Textarea
+                  id="brandVoiceExamples"
+                  value={examplesText}
+                  onChange={(e) => setExamplesText(e.target.value)}
+                  rows={5}
+                  placeholder="Paste copy already written in this voice. Separate paragraphs with a blank line."
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label htmlFor="brandVoiceBanned" className="text-sm font-medium">Banned Words</label>
+                <Input
+                  id="brandVoiceBanned"
+                  value={bannedText}
+                  onChange={(e) => setBannedText(e.target.value)}
+                  placeholder="cheap, guaranteed results, miracle"
+                />
+                <p className="text-xs text-muted-foreground">Comma separated. Generated copy is checked for these.</p>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Preferred Terminology</h4>
+                {draft.terminology.map((term, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Input
+                      value={term.avoid}
+                      onChange={(e) => updateTerm(index, 'avoid', e.target.value)}
+                      placeholder="Instead of"
+                      aria-label="Term to avoid"
+                    />
+                    <span className="text-muted-foreground text-sm">→</span>
+                    <Input
+                      value={term.prefer}
+                      onChange={(e) => updateTerm(index, 'prefer', e.target.value)}
+                      placeholder="Say"
+                      aria-label="Preferred term"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => updateDraft({ terminology: draft.terminology.filter((_, termIndex) => termIndex !== index) })}
+                      aria-label="Remove term"
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateDraft({ terminology: [...draft.terminology, { avoid: '', prefer: '' }] })}
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Term
+                </Button>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <h4 className="text-sm font-medium">Quality Targets</h4>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateDraft({ metricThresholds: { ...DEFAULT_METRIC_THRESHOLDS } })}
+                  >
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    Reset to Defaults
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Each copy section is scored against these ranges. Leave a box empty for no limit on that side.
+                </p>
+                <div className="grid grid-cols-[1fr_80px_80px] gap-2 items-center text-sm">
+                  <span className="text-xs text-muted-foreground">Metric</span>
+                  <span className="text-xs text-muted-foreground">Min</span>
+                  <span className="text-xs text-muted-foreground">Max</span>
+                  {(Object.keys(COPY_METRICS) as CopyMetricId[]).map(id => (
+                    <div key={id} className="contents">
+                      <span title={COPY_METRICS[id].description}>
+                        {COPY_METRICS[id].label}
+                        <span className="text-xs text-muted-foreground"> ({COPY_METRICS[id].unit})</span>
+                      </span>
+                      {(['min', 'max'] as const).map(bound => (
+                        <Input
+                          key={bound}
+                          type="number"
+                          step="any"
+                          value={draft.metricThresholds[id]?.[bound] ?? ''}
+                          onChange={(e) => updateThreshold(id, bound, e.target.value)}
+                          aria-label={`${COPY_METRICS[id].label} ${bound}`}
+                          className="h-8"
+                        />
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex flex-wrap justify-between gap-2 pt-2 border-t">
+                <Button variant="ghost" size="sm" onClick={deleteDraft} disabled={!isSaved}>
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Delete
+                </Button>
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={saveDraft}>
+                    Save
+                  </Button>
+                  <Button
+                    onClick={() => {
+                      const saved = saveDraft();
+                      if (saved) {
+                        onUse(saved.id);
+                        onOpenChange(false);
+                      }
+                    }}
+                  >
+                    Save & Use for This Project
+                  </Button>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
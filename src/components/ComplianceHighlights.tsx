@@ -0,0 +1,46 @@
+import type { ComplianceIssue, ComplianceSeverity } from '@/lib/compliance';
+
+interface ComplianceHighlightsProps {
+  text: string;
+  // Issues for this one field
+  issues: ComplianceIssue[];
+}
+
+const MARK_CLASSES: Record<ComplianceSeverity, string> = {
+  error: 'bg-destructive/20 text-destructive underline decoration-wavy decoration-destructive',
+  warning: 'bg-warning/20 underline decoration-wavy decoration-warning',
+  info: 'bg-muted underline decoration-dotted'
+};
+
+/** The field's text with each flagged passage marked, shown under the editor for that field. */
+export const ComplianceHighlights = ({ text, issues }: ComplianceHighlightsProps) => {
+  // Where two rules flag overlapping text, only the earlier match is marked
+  const ranges = issues
+    .filter(issue => issue.start !== undefined && issue.end !== undefined)
+    .sort((a, b) => a.start! - b.start!)
+    .reduce<ComplianceIssue[]>((kept, issue) => {
+      const last = kept[kept.length - 1];
+      if (last && issue.start! < last.end!) return kept;
+      return [...kept, issue];
+    }, []);
+  if (ranges.length === 0) return null;
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach((issue, index) => {
+    parts.push(text.slice(cursor, issue.start));
+    parts.push(
+      <mark key={index} className={`rounded-sm px-0.5 ${MARK_CLASSES[issue.severity]}`} title={issue.message}>
+        {text.slice(issue.start, issue.end)}
+      </mark>
+    );
+    cursor = issue.end!;
+  });
+  parts.push(text.slice(cursor));
+
+  return (
+    <p className="mt-1 p-2 text-xs leading-relaxed whitespace-pre-wrap border rounded-md bg-background">
+      {parts}
+    </p>
+  );
+};
@@ -0,0 +1,64 @@
+import { Badge } from '@/components/ui/badge';
+import { COPY_SECTION_LABELS, type CopySection } from '@/lib/project-dependencies';
+import {
+  COMPLIANCE_CATEGORY_LABELS,
+  type ComplianceIssue,
+  type ComplianceSeverity
+} from '@/lib/compliance';
+import { AlertTriangle, Info, ShieldAlert } from 'lucide-react';
+
+interface ComplianceReportProps {
+  issues: ComplianceIssue[];
+  onSelectSection?: (section: CopySection) => void;
+}
+
+const SEVERITY_ORDER: ComplianceSeverity[] = ['error', 'warning', 'info'];
+
+const SEVERITY_DETAILS: Record<ComplianceSeverity, { label: string; icon: typeof Info; className: string }> = {
+  error: { label: 'Must fix before export', icon: ShieldAlert, className: 'text-destructive' },
+  warning: { label: 'Check before publishing', icon: AlertTriangle, className: 'text-warning' },
+  info: { label: 'Suggestions', icon: Info, className: 'text-muted-foreground' }
+};
+
+/** Compliance issues grouped by severity; clicking a section jumps to it in the editor. */
+export const ComplianceReport = ({ issues, onSelectSection }: ComplianceReportProps) => (
+  <div className="space-y-4">
+    {SEVERITY_ORDER.map(severity => {
+      const group = issues.filter(issue => issue.severity === severity);
+      if (group.length === 0) return null;
+      const { label, icon: Icon, className } = SEVERITY_DETAILS[severity];
+
+      return (
+        <div key={severity} className="space-y-2">
+          <h4 className={`text-sm font-medium flex items-center gap-2 ${className}`}>
+            <Icon className="w-4 h-4" />
+            {label} ({group.length})
+          </h4>
+          <ul className="space-y-2">
+            {group.map((issue, index) => (
+              <li key={`${issue.ruleId}-${issue.path}-${index}`} className="text-sm pl-6 space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="outline">{COMPLIANCE_CATEGORY_LABELS[issue.category]}</Badge>
+                  {onSelectSection ? (
+                    <button
+                      type="button"
+                      className="font-medium hover:underline"
+                      onClick={() => onSelectSection(issue.section)}
+                    >
+                      {COPY_SECTION_LABELS[issue.section]}
+                    </button>
+                  ) : (
+                    <span className="font-medium">{COPY_SECTION_LABELS[issue.section]}</span>
+                  )}
+                  {issue.text && <span className="text-muted-foreground italic">"{issue.text}"</span>}
+                </div>
+                <p>{issue.message}</p>
+                {issue.suggestion && <p className="text-xs text-muted-foreground">{issue.suggestion}</p>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      );
+    })}
+  </div>
+);
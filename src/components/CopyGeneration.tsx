@@ -1,12 +1,58 @@
-import { useState, useEffect } from 'react';
+import { useEffect, useState, useRef } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
 import { Progress } from '@/components/ui/progress';
 import { useToast } from '@/hooks/use-toast';
-import { OpenRouterService } from '@/utils/OpenRouterService';
+import { LLMService } from '@/utils/LLMService';
+import {
+  COPY_SECTIONS,
+  COPY_SECTION_DEPENDENCIES,
+  COPY_SECTION_LABELS,
+  type CopySection
+} from '@/lib/project-dependencies';
+import { runDependencyGraph } from '@/lib/dependency-graph';
+import {
+  buildCopyPromptVariables,
+  buildSectionPrompt,
+  getCopyFramework,
+  getFrameworkSections,
+  getSectionLabel,
+  getSectionTemplateId
+} from '@/lib/copy-frameworks';
+import { PROMPT_TEMPLATE_IDS } from '@/lib/prompt-template-defaults';
+import { COPY_LANGUAGES, DEFAULT_COPY_LANGUAGE, getCopyLanguage, type CopyLanguage } from '@/lib/copy-languages';
+import { renderPromptTemplate, type PromptTemplate, type PromptVariables } from '@/lib/prompt-templates';
+import type { CopyPromptVersions } from '@/utils/ProjectStore';
+import type { ChangeDescription } from '@/lib/history';
+import {
+  applyCopySections,
+  buildGeneratedCopy,
+  findAppliedVariant,
+  getSectionFragment,
+  parsePartialSection,
+  parseSectionResponse,
+  parseTranslatedCopy,
+  type CopyVariants,
+  type ParsedCopySections
+} from '@/lib/copy-parsing';
+import { CopySectionControls } from './CopySectionControls';
+import { BrandVoiceDialog } from './BrandVoiceDialog';
+import { PromptTemplateDialog } from './PromptTemplateDialog';
+import { ComplianceHighlights } from './ComplianceHighlights';
+import { ComplianceReport } from './ComplianceReport';
+import { checkCompliance, hasBlockingIssues } from '@/lib/compliance';
+import { GroundingChips } from './GroundingChips';
+import { GroundingReport } from './GroundingReport';
+import { checkGrounding } from '@/lib/grounding';
+import { CopyMetricBadges } from './CopyMetricBadges';
+import { getSectionMetrics } from '@/lib/copy-metrics';
+import { useBrandVoices } from '@/hooks/use-brand-voices';
+import { usePromptTemplates } from '@/hooks/use-prompt-templates';
+import { buildBrandVoiceInstructions, checkBannedWords } from '@/lib/brand-voice';
 import { 
   FileText, 
   Zap, 
@@ -15,24 +61,72 @@ import {
   TrendingUp,
   Target,
   Heart,
-  MessageSquare
+  MessageSquare,
+  AlertTriangle,
+  Square,
+  Mic2,
+  Ban,
+  FileCode2,
+  Languages,
+  Loader2,
+  ShieldCheck,
+  SearchCheck
 } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+
+export interface CopyChange extends ChangeDescription {
+  // Stale sections this change brings up to date
+  resolvedSections?: CopySection[];
+  lockedSections?: CopySection[];
+  variants?: CopyVariants;
+  promptVersions?: CopyPromptVersions;
+  // Set when the change rewrote the copy in another language
+  language?: CopyLanguage;
+}
 
 interface CopyGenerationProps {
   productData: any;
   pageType: string;
+  generatedCopy: GeneratedCopy | null;
+  staleSections?: CopySection[];
+  lockedSections?: CopySection[];
+  variants?: CopyVariants;
+  promptVersions?: CopyPromptVersions;
+  brandVoiceId?: string | null;
+  framework?: string;
+  language?: string;
+  // Scraped page the product data came from; without it claims can't be checked
+  sourceMarkdown?: string;
+  onBrandVoiceChange?: (brandVoiceId: string | null) => void;
+  onLanguageChange?: (language: CopyLanguage) => void;
+  onCopyChange: (generatedCopy: GeneratedCopy, change: CopyChange) => void;
+  onStaleResolved?: (sections: CopySection[]) => void;
   onComplete: (generatedCopy: GeneratedCopy) => void;
 }
 
-interface GeneratedCopy {
+export interface CopyObjection {
+  // Empty for copy written before the question was kept
+  objection: string;
+  response: string;
+}
+
+export interface GeneratedCopy {
   headline: string;
   subheadline: string;
   heroText: string;
   benefits: string[];
   socialProof: string;
+  // The primary CTA, one of ctaOptions unless it was edited by hand
   cta: string;
+  ctaOptions: string[];
   urgency: string;
-  objectionHandling: string[];
+  objectionHandling: CopyObjection[];
   guarantee: string;
 }
 
@@ -42,219 +136,529 @@ const pageTypeLabels = {
   product: 'Product Showcase'
 };
 
-export const CopyGeneration = ({ productData, pageType, onComplete }: CopyGenerationProps) => {
+// Which tab shows each section, so the live stream is always in view
+const SECTION_TABS: Record<CopySection, string> = {
+  headline: 'headline',
+  subheadline: 'headline',
+  heroText: 'hero',
+  benefits: 'benefits',
+  socialProof: 'social',
+  cta: 'cta',
+  urgency: 'urgency',
+  objections: 'objections',
+  guarantee: 'guarantee'
+};
+
+// Starting point for the live view before any copy exists
+const EMPTY_COPY: GeneratedCopy = {
+  headline: '',
+  subheadline: '',
+  heroText: '',
+  benefits: [],
+  socialProof: '',
+  cta: '',
+  ctaOptions: [],
+  urgency: '',
+  objectionHandling: [],
+  guarantee: ''
+};
+
+const getFieldLabel = (field: keyof GeneratedCopy) => {
+  if (field === 'objectionHandling') return COPY_SECTION_LABELS.objections;
+  if (field === 'ctaOptions') return COPY_SECTION_LABELS.cta;
+  return COPY_SECTION_LABELS[field as CopySection];
+};
+
+export const CopyGeneration = ({
+  productData,
+  pageType,
+  generatedCopy,
+  staleSections = [],
+  lockedSections = [],
+  variants = {},
+  promptVersions = {},
+  brandVoiceId,
+  framework: frameworkId,
+  language,
+  sourceMarkdown,
+  onBrandVoiceChange,
+  onLanguageChange,
+  onCopyChange,
+  onStaleResolved,
+  onComplete
+}: CopyGenerationProps) => {
   const [isGenerating, setIsGenerating] = useState(false);
   const [progress, setProgress] = useState(0);
-  const [currentStage, setCurrentStage] = useState('');
-  const [generatedCopy, setGeneratedCopy] = useState<GeneratedCopy | null>(null);
   const [activeTab, setActiveTab] = useState('headline');
+  // Sections finished in the current run, and the text of those still streaming
+  const [liveSections, setLiveSections] = useState<ParsedCopySections>({});
+  const [streamingTexts, setStreamingTexts] = useState<Partial<Record<CopySection, string>>>({});
+  const sectionAbortsRef = useRef(new Map<CopySection, AbortController>());
+  const stopAllRef = useRef(false);
+  const [variantSection, setVariantSection] = useState<CopySection | null>(null);
+  const [isBrandVoiceDialogOpen, setIsBrandVoiceDialogOpen] = useState(false);
+  const { profiles: brandVoices, saveProfile, deleteProfile } = useBrandVoices();
+  const brandVoice = brandVoices.find(profile => profile.id === brandVoiceId) || null;
+  const [isPromptDialogOpen, setIsPromptDialogOpen] = useState(false);
+  const { templates: promptTemplates, saveTemplate, listVersions } = usePromptTemplates();
+  const [translatingTo, setTranslatingTo] = useState<CopyLanguage | null>(null);
+  const copyLanguage = getCopyLanguage(language);
+  const framework = getCopyFramework(frameworkId);
+  const frameworkSections = getFrameworkSections(framework);
   const { toast } = useToast();
 
-  const generatePrompt = (stage: string) => {
-    const baseContext = `
-Product: ${productData.productInfo.name}
-Category: ${productData.productInfo.category}
-Page Type: ${pageType}
-Main Benefit: ${productData.dreamOutcome.mainBenefit}
-Target Audience: ${productData.dreamOutcome.targetAudience}
-Emotional Outcome: ${productData.dreamOutcome.emotionalOutcome}
-`;
+  // Don't keep streaming into a step the writer has left
+  useEffect(() => {
+    const aborts = sectionAbortsRef.current;
+    return () => aborts.forEach(controller => controller.abort());
+  }, []);
 
-    const prompts = {
-      headline: `Create a compelling headline for a ${pageTypeLabels[pageType as keyof typeof pageTypeLabels]} that:
-- Uses the value equation (Dream Outcome + Perceived Likelihood) / (Time Delay + Effort & Sacrifice)
-- Speaks directly to ${productData.dreamOutcome.targetAudience}
-- Promises ${productData.dreamOutcome.mainBenefit}
-- Creates urgency and desire
+  // Generation is async; merge partial results into whatever the writer has typed meanwhile
+  const latestCopyRef = useRef(generatedCopy);
+  latestCopyRef.current = generatedCopy;
+  const latestVariantsRef = useRef(variants);
+  latestVariantsRef.current = variants;
+  const latestPromptVersionsRef = useRef(promptVersions);
+  latestPromptVersionsRef.current = promptVersions;
 
-${baseContext}
+  // Text of an upstream section, from this run if it was regenerated, otherwise the saved copy
+  const getUpstreamText = (section: CopySection, results: ParsedCopySections): string => {
+    const saved = latestCopyRef.current;
+    if (section === 'cta') return results.cta?.[0] || saved?.cta || '';
+    if (section === 'headline') return results.headline || saved?.headline || '';
+    return '';
+  };
 
-Return only the headline text, no quotes or formatting.`,
+  const getTemplate = (id: string) => promptTemplates.find(template => template.id === id) || null;
+  const getSectionTemplate = (section: CopySection) => getTemplate(getSectionTemplateId(framework.id, section));
 
-      subheadline: `Create a supporting subheadline that:
-- Reinforces the main headline
-- Adds credibility with specific benefits
-- Builds on the emotional outcome: ${productData.dreamOutcome.emotionalOutcome}
-- Maximum 2 sentences
+  const getPromptVariables = (results: ParsedCopySections): PromptVariables =>
+    buildCopyPromptVariables(productData, pageType, pageTypeLabels[pageType as keyof typeof pageTypeLabels], copyLanguage, {
+      headline: getUpstreamText('headline', results),
+      cta: getUpstreamText('cta', results)
+    });
 
-${baseContext}
+  const generatePrompt = (stage: CopySection, results: ParsedCopySections = {}) =>
+    buildSectionPrompt(stage, {
+      instructions: getSectionTemplate(stage)?.body || '',
+      context: getTemplate(PROMPT_TEMPLATE_IDS.copyContext)?.body || ''
+    }, getPromptVariables(results));
 
-Return only the subheadline text.`,
+  // English needs no instruction; the other languages get the language template after everything else
+  const getLanguageInstructions = () => copyLanguage.code === DEFAULT_COPY_LANGUAGE
+    ? ''
+    : renderPromptTemplate(getTemplate(PROMPT_TEMPLATE_IDS.copyLanguage)?.body || '', { language: copyLanguage });
 
-      heroText: `Write compelling hero section copy for this ${pageTypeLabels[pageType as keyof typeof pageTypeLabels]} that:
-- Opens with a hook that resonates with ${productData.dreamOutcome.targetAudience}
-- Tells a relatable story or presents a problem
-- Introduces the solution (${productData.productInfo.name})
-- Uses conversational, persuasive language
-- 150-200 words
+  const getMessages = (stage: CopySection, results: ParsedCopySections) => [
+    { role: 'system' as const, content: getTemplate(PROMPT_TEMPLATE_IDS.copySystem)?.body || '' },
+    {
+      role: 'user' as const,
+      content: [generatePrompt(stage, results), buildBrandVoiceInstructions(brandVoice), getLanguageInstructions()]
+        .filter(Boolean)
+        .join('\n\n')
+    }
+  ];
 
-${baseContext}
+  // Streams one section; an abort keeps whatever text arrived before it
+  const streamSection = async (
+    stage: CopySection,
+    results: ParsedCopySections,
+    signal: AbortSignal
+  ): Promise<string> => {
+    let text = '';
+    try {
+      for await (const token of LLMService.streamChat('copy', getMessages(stage, results), { signal })) {
+        text += token;
+        setStreamingTexts(prev => ({ ...prev, [stage]: text }));
+      }
+    } catch (error) {
+      if (!signal.aborted) throw error;
+    }
+    return text;
+  };
 
-Return only the hero text.`,
+  const generateCopy = async (requested: CopySection[] = frameworkSections) => {
+    const stages = requested.filter(section => frameworkSections.includes(section) && !lockedSections.includes(section));
+    if (stages.length === 0) {
+      toast({
+        title: "Sections Locked",
+        description: "Unlock a section to regenerate it.",
+      });
+      return;
+    }
 
-      benefits: `List the top 5 benefits of ${productData.productInfo.name} that:
-- Go beyond features to emotional outcomes
-- Address specific pain points of ${productData.dreamOutcome.targetAudience}
-- Use "you will" language
-- Are specific and measurable where possible
+    setIsGenerating(true);
+    setProgress(0);
+    setLiveSections({});
+    setStreamingTexts({});
+    setActiveTab(SECTION_TABS[stages[0]]);
+    stopAllRef.current = false;
+    
+    const results: ParsedCopySections = {};
+    const completedStages: CopySection[] = [];
+    const usedTemplates: CopyPromptVersions = {};
+    let finished = 0;
 
-${baseContext}
+    // Independent sections run side by side; dependents wait for the text they build on
+    const { failed } = await runDependencyGraph(stages, COPY_SECTION_DEPENDENCIES, async stage => {
+      const controller = new AbortController();
+      sectionAbortsRef.current.set(stage, controller);
+      setStreamingTexts(prev => ({ ...prev, [stage]: '' }));
 
-Return as a JSON array of benefit strings.`,
+      try {
+        const response = await streamSection(stage, results, controller.signal);
+        console.log(`${stage} response:`, response);
 
-      socialProof: `Create social proof copy that includes:
-- Customer testimonial quotes (create realistic ones based on the product)
-- Usage statistics or social proof numbers
-- Trust indicators
-- 100-150 words total
+        const parsed = controller.signal.aborted
+          ? parsePartialSection(stage, response)
+          : parseSectionResponse(stage, response);
+        if (Object.keys(parsed).length > 0) {
+          Object.assign(results, parsed);
+          completedStages.push(stage);
+          const template = getSectionTemplate(stage);
+          if (template) usedTemplates[stage] = { id: template.id, version: template.version, savedAt: template.savedAt };
+          setLiveSections({ ...results });
+        }
+      } finally {
+        sectionAbortsRef.current.delete(stage);
+        setStreamingTexts(prev => {
+          const next = { ...prev };
+          delete next[stage];
+          return next;
+        });
+        finished++;
+        setProgress((finished / stages.length) * 100);
+      }
+    }, {
+      concurrency: LLMService.getCopyConcurrency(),
+      shouldStop: () => stopAllRef.current
+    });
 
-${baseContext}
+    setIsGenerating(false);
+    setProgress(100);
 
-Return only the social proof text.`,
+    if (failed.length > 0) {
+      failed.forEach(({ node, error }) => console.error(`Error generating ${node}:`, error));
+      toast({
+        title: "Generation Failed",
+        description: completedStages.length > 0
+          ? "Some sections could not be generated. The finished ones were kept."
+          : "There was an error generating your copy. Please try again.",
+        variant: "destructive",
+      });
+    }
 
-      cta: `Create 3 different call-to-action options for this ${pageTypeLabels[pageType as keyof typeof pageTypeLabels]}:
-- One urgent/scarcity-based
-- One benefit-focused  
-- One risk-reversal focused
+    if (completedStages.length === 0) return;
 
-${baseContext}
+    // Format final copy object, keeping sections that were not regenerated
+    const sectionsInOrder = COPY_SECTIONS.filter(section => completedStages.includes(section));
+    const isFullGeneration = sectionsInOrder.length === frameworkSections.length;
+    const previousCopy = isFullGeneration ? null : latestCopyRef.current;
+    // A full run also clears sections the framework doesn't write, e.g. after switching frameworks
+    const omittedSections = isFullGeneration ? COPY_SECTIONS.filter(section => !frameworkSections.includes(section)) : [];
+    const finalCopy = buildGeneratedCopy(results, previousCopy, omittedSections);
 
-Return as a JSON array of 3 CTA strings.`,
+    // Variants of a rewritten section no longer line up with its text
+    const remainingVariants = { ...latestVariantsRef.current };
+    sectionsInOrder.forEach(section => delete remainingVariants[section]);
+    const nextPromptVersions = { ...latestPromptVersionsRef.current, ...usedTemplates };
+    omittedSections.forEach(section => delete nextPromptVersions[section]);
 
-      urgency: `Create urgency copy that:
-- Creates legitimate scarcity or time pressure
-- Doesn't feel fake or manipulative
-- Relates to the product context
-- 50-75 words
+    onCopyChange(finalCopy, {
+      label: isFullGeneration
+        ? 'Generate copy'
+        : `Regenerate ${sectionsInOrder.map(stage => COPY_SECTION_LABELS[stage]).join(', ')}`,
+      resolvedSections: [...sectionsInOrder, ...omittedSections],
+      variants: remainingVariants,
+      promptVersions: nextPromptVersions
+    });
+    
+    const bannedWords = checkBannedWords(finalCopy, brandVoice).filter(match => sectionsInOrder.includes(match.section));
+    if (bannedWords.length > 0) {
+      toast({
+        title: "Banned Words Found",
+        description: `${bannedWords.map(match => match.label).join(', ')} use${bannedWords.length === 1 ? 's' : ''} words the "${brandVoice?.name}" voice bans.`,
+        variant: "destructive",
+      });
+    } else if (failed.length === 0) {
+      toast({
+        title: stopAllRef.current ? "Generation Stopped" : "Copy Generated Successfully!",
+        description: stopAllRef.current
+          ? "The sections written so far were kept."
+          : "Your landing page copy is ready for review.",
+      });
+    }
+  };
 
-${baseContext}
+  /**
+   * Asks for `count` more takes on one section and offers them next to the
+   * current text, which stays selected until the writer picks another.
+   */
+  const generateVariants = async (section: CopySection, count: number) => {
+    if (!generatedCopy) return;
+    setVariantSection(section);
 
-Return only the urgency text.`,
+    const takes: ParsedCopySections[] = [];
+    const { failed } = await runDependencyGraph(
+      Array.from({ length: count }, (_, index) => String(index)),
+      {},
+      async () => {
+        // A higher temperature than usual so the takes actually differ
+        const response = await LLMService.chat('copy', getMessages(section, {}), { temperature: 0.9 });
+        takes.push(parseSectionResponse(section, response));
+      },
+      { concurrency: LLMService.getCopyConcurrency() }
+    );
+    setVariantSection(null);
 
-      objections: `List the top 3 objections ${productData.dreamOutcome.targetAudience} might have about ${productData.productInfo.name} and provide responses that:
-- Acknowledge the concern
-- Provide logical counter-arguments
-- Offer proof or guarantees
+    const copy = latestCopyRef.current;
+    if (!copy || takes.length === 0) {
+      failed.forEach(({ error }) => console.error(`Error generating ${section} variant:`, error));
+      toast({
+        title: "Variants Failed",
+        description: "No alternatives could be generated. Please try again.",
+        variant: "destructive",
+      });
+      return;
+    }
 
-${baseContext}
+    // Identical takes would show up as separate variants of the same text
+    const seen = new Set<string>();
+    const options = [getSectionFragment(copy, section), ...takes].filter(variant => {
+      const key = JSON.stringify(variant);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
 
-Return as a JSON array of objection-response pairs: [{"objection": "...", "response": "..."}]`,
+    onCopyChange(copy, {
+      label: `Generate ${COPY_SECTION_LABELS[section]} variants`,
+      variants: { ...latestVariantsRef.current, [section]: options }
+    });
+    toast({
+      title: "Variants Ready",
+      description: `${options.length - 1} new ${COPY_SECTION_LABELS[section].toLowerCase()} option${options.length === 2 ? '' : 's'} to choose from.`,
+    });
+  };
 
-      guarantee: `Create a guarantee/risk-reversal statement that:
-- Removes risk from the buyer
-- Shows confidence in the product
-- Is specific and compelling
-- 50-100 words
+  const selectVariant = (section: CopySection, index: number) => {
+    const variant = variants[section]?.[index];
+    if (!generatedCopy || !variant) return;
 
-${baseContext}
+    onCopyChange(applyCopySections(generatedCopy, variant), {
+      label: `Use ${COPY_SECTION_LABELS[section]} variant ${index + 1}`,
+      mergeKey: `copy.variant.${section}`
+    });
+  };
 
-Return only the guarantee text.`
-    };
+  const toggleLock = (section: CopySection) => {
+    if (!generatedCopy) return;
+    const locked = lockedSections.includes(section);
 
-    return prompts[stage as keyof typeof prompts] || '';
+    onCopyChange(generatedCopy, {
+      label: `${locked ? 'Unlock' : 'Lock'} ${COPY_SECTION_LABELS[section]}`,
+      lockedSections: locked
+        ? lockedSections.filter(item => item !== section)
+        : COPY_SECTIONS.filter(item => item === section || lockedSections.includes(item))
+    });
   };
 
-  const generateCopy = async () => {
-    setIsGenerating(true);
-    setProgress(0);
-    
-    const stages = [
-      'headline', 'subheadline', 'heroText', 'benefits', 
-      'socialProof', 'cta', 'urgency', 'objections', 'guarantee'
-    ];
-    
-    const results: any = {};
+  /**
+   * Rewrites the finished page in another language in one request, locked
+   * sections included, and switches the project to that language. Editing
+   * is off while it runs; copy changed anyway (by undo) is not overwritten.
+   */
+  const translatePage = async (target: CopyLanguage) => {
+    if (!generatedCopy) return;
+    const original = generatedCopy;
+    const targetLanguage = COPY_LANGUAGES[target];
+    setTranslatingTo(target);
 
     try {
-      for (let i = 0; i < stages.length; i++) {
-        const stage = stages[i];
-        setCurrentStage(stage);
-        setProgress(((i + 1) / stages.length) * 100);
-
-        const prompt = generatePrompt(stage);
-        const response = await OpenRouterService.analyzeContent(prompt, 'anthropic/claude-3.5-sonnet');
-        
-        console.log(`${stage} response:`, response);
-        
-        // Handle different response types - OpenRouter returns strings directly
-        if (stage === 'benefits' || stage === 'cta') {
-          try {
-            const parsed = typeof response === 'string' ? JSON.parse(response) : response;
-            if (stage === 'cta') {
-              // Handle CTA response structure: {"cta_options": [...]} or direct array
-              results[stage] = parsed.cta_options || (Array.isArray(parsed) ? parsed : [parsed]);
-            } else {
-              // Handle benefits response structure: {"benefits": [...]} or direct array
-              results[stage] = parsed.benefits || (Array.isArray(parsed) ? parsed : [parsed]);
-            }
-          } catch {
-            // If JSON parsing fails, create default array
-            results[stage] = stage === 'benefits' 
-              ? [response, "Additional benefit", "Another benefit"] 
-              : [response];
-          }
-        } else if (stage === 'objections') {
-          try {
-            const objectionData = typeof response === 'string' ? JSON.parse(response) : response;
-            // Handle objections response structure: {"objections": [{objection, response}, ...]} or direct array
-            const objections = objectionData.objections || objectionData;
-            results['objectionHandling'] = Array.isArray(objections) 
-              ? objections.map((item: any) => item.response || item)
-              : [objections];
-          } catch {
-            results['objectionHandling'] = [response || "Standard objection response"];
-          }
-        } else {
-          results[stage] = response || `Generated ${stage} content`;
-        }
+      const prompt = renderPromptTemplate(getTemplate(PROMPT_TEMPLATE_IDS.copyTranslate)?.body || '', {
+        language: targetLanguage,
+        copy: JSON.stringify(original, null, 2)
+      });
+      const response = await LLMService.chat('copy', [
+        { role: 'system', content: getTemplate(PROMPT_TEMPLATE_IDS.copySystem)?.body || '' },
+        { role: 'user', content: prompt }
+      ], { jsonMode: true });
 
-        // Add small delay for better UX
-        await new Promise(resolve => setTimeout(resolve, 500));
+      const copy = latestCopyRef.current;
+      if (!copy) return;
+      if (JSON.stringify(copy) !== JSON.stringify(original)) {
+        toast({
+          title: "Translation Discarded",
+          description: "The copy changed while it was being translated. Translate it again to include the changes.",
+          variant: "destructive",
+        });
+        return;
       }
-
-      // Format final copy object
-      const finalCopy: GeneratedCopy = {
-        headline: results.headline || 'Generated Headline',
-        subheadline: results.subheadline || 'Generated Subheadline', 
-        heroText: results.heroText || 'Generated hero text',
-        benefits: Array.isArray(results.benefits) ? results.benefits : [results.benefits || 'Generated benefit'],
-        socialProof: results.socialProof || 'Generated social proof',
-        cta: Array.isArray(results.cta) ? results.cta[0] : results.cta || 'Get Started Now',
-        urgency: results.urgency || 'Limited time offer',
-        objectionHandling: Array.isArray(results.objectionHandling) ? results.objectionHandling : [results.objectionHandling || 'Objection handled'],
-        guarantee: results.guarantee || 'Money back guarantee'
-      };
-
-      setGeneratedCopy(finalCopy);
-      
+      onCopyChange(parseTranslatedCopy(response, original), {
+        label: `Translate to ${targetLanguage.name}`,
+        language: target,
+        // Variants are still in the old language
+        variants: {}
+      });
       toast({
-        title: "Copy Generated Successfully!",
-        description: "Your landing page copy is ready for review.",
+        title: "Page Translated",
+        description: `The copy is now in ${targetLanguage.name}. Review it before publishing.`,
       });
-
     } catch (error) {
-      console.error('Error generating copy:', error);
+      console.error('Error translating copy:', error);
       toast({
-        title: "Generation Failed",
-        description: "There was an error generating your copy. Please try again.",
+        title: "Translation Failed",
+        description: "The copy could not be translated. Please try again.",
         variant: "destructive",
       });
     } finally {
-      setIsGenerating(false);
-      setCurrentStage('');
-      setProgress(100);
+      setTranslatingTo(null);
     }
   };
 
-  const handleCopyEdit = (section: keyof GeneratedCopy, newValue: string) => {
-    if (!generatedCopy) return;
+  const stopSection = (section: CopySection) => {
+    sectionAbortsRef.current.get(section)?.abort();
+  };
+
+  const stopGeneration = () => {
+    stopAllRef.current = true;
+    sectionAbortsRef.current.forEach(controller => controller.abort());
+  };
+
+  // While generating, finished and streaming sections are shown over the saved copy
+  const streamingSections = COPY_SECTIONS.filter(section => section in streamingTexts);
+  const displayCopy: GeneratedCopy | null = isGenerating
+    ? streamingSections.reduce(
+        (copy, section) => applyCopySections(copy, parsePartialSection(section, streamingTexts[section] || '')),
+        applyCopySections(generatedCopy || EMPTY_COPY, liveSections)
+      )
+    : generatedCopy;
+
+  const handleCopyEdit = <K extends keyof GeneratedCopy>(section: K, newValue: GeneratedCopy[K]) => {
+    if (!generatedCopy || isGenerating || translatingTo) return;
     
-    setGeneratedCopy({
+    onCopyChange({
       ...generatedCopy,
       [section]: newValue
+    }, {
+      label: `Edit ${getFieldLabel(section)}`,
+      mergeKey: `copy.${section}`
     });
   };
 
+  // Editing the option that is the primary CTA edits the primary too
+  const handleCtaOptionEdit = (index: number, value: string) => {
+    if (!generatedCopy || isGenerating || translatingTo) return;
+    const options = [...generatedCopy.ctaOptions];
+    const isPrimary = options[index] === generatedCopy.cta;
+    options[index] = value;
+
+    onCopyChange({
+      ...generatedCopy,
+      ctaOptions: options,
+      ...(isPrimary && { cta: value })
+    }, {
+      label: `Edit ${COPY_SECTION_LABELS.cta}`,
+      mergeKey: `copy.ctaOptions.${index}`
+    });
+  };
+
+  const handlePrimaryCtaSelect = (index: number) => {
+    if (!generatedCopy || isGenerating || translatingTo) return;
+    onCopyChange({ ...generatedCopy, cta: generatedCopy.ctaOptions[index] }, {
+      label: `Use CTA option ${index + 1}`
+    });
+  };
+
+  const handleObjectionEdit = (index: number, field: keyof CopyObjection, value: string) => {
+    if (!generatedCopy || isGenerating || translatingTo) return;
+    const objections = generatedCopy.objectionHandling.map((item, itemIndex) =>
+      itemIndex === index ? { ...item, [field]: value } : item
+    );
+    handleCopyEdit('objectionHandling', objections);
+  };
+
+  const isTabUsed = (tab: string) => frameworkSections.some(section => SECTION_TABS[section] === tab);
+
+  const renderSectionControls = (section: CopySection, label: string) => {
+    const sectionVariants = variants[section] || [];
+    const stage = framework.sections.find(item => item.section === section)?.stage;
+    return (
+      <>
+        <CopySectionControls
+          label={stage ? `${stage} · ${label}` : label}
+          promptVersion={promptVersions[section]}
+          currentPrompt={getSectionTemplate(section) || undefined}
+          locked={lockedSections.includes(section)}
+          disabled={isGenerating || !!variantSection || !!translatingTo || !generatedCopy}
+          isGeneratingVariants={variantSection === section}
+          variantCount={sectionVariants.length}
+          activeVariant={generatedCopy ? findAppliedVariant(generatedCopy, section, sectionVariants) : -1}
+          onRegenerate={() => generateCopy([section])}
+          onToggleLock={() => toggleLock(section)}
+          onGenerateVariants={count => generateVariants(section, count)}
+          onSelectVariant={index => selectVariant(section, index)}
+        />
+        {!isGenerating && (
+          <CopyMetricBadges
+            metrics={getSectionMetrics(generatedCopy, section, {
+              thresholds: brandVoice?.metricThresholds,
+              english: copyLanguage.code === 'en'
+            })}
+          />
+        )}
+      </>
+    );
+  };
+
+  // The analysis prompts and this framework's sections; other frameworks' templates would only be noise here
+  const editableTemplateIds: string[] = [
+    PROMPT_TEMPLATE_IDS.copySystem,
+    PROMPT_TEMPLATE_IDS.copyContext,
+    PROMPT_TEMPLATE_IDS.copyLanguage,
+    PROMPT_TEMPLATE_IDS.copyTranslate,
+    ...frameworkSections.map(section => getSectionTemplateId(framework.id, section))
+  ];
+  const editableTemplates = promptTemplates.filter(template =>
+    template.group === 'analysis' || editableTemplateIds.includes(template.id)
+  );
+  const activeTabSection = frameworkSections.find(section => SECTION_TABS[section] === activeTab);
+
+  const previewVariables = {
+    analysis: { content: '[The scraped page markdown and metadata, as JSON]' },
+    copy: {
+      ...getPromptVariables({}),
+      copy: generatedCopy ? JSON.stringify(generatedCopy, null, 2) : '[The current copy, as JSON]'
+    }
+  };
+
+  const renderTemplatePreview = (template: PromptTemplate, body: string) => {
+    const section = frameworkSections.find(item => getSectionTemplateId(framework.id, item) === template.id);
+    if (section) {
+      return buildSectionPrompt(section, {
+        instructions: body,
+        context: getTemplate(PROMPT_TEMPLATE_IDS.copyContext)?.body || ''
+      }, previewVariables.copy);
+    }
+    return renderPromptTemplate(body, previewVariables[template.group]);
+  };
+
+  const bannedWordMatches = isGenerating ? [] : checkBannedWords(generatedCopy, brandVoice);
+  const complianceIssues = isGenerating ? [] : checkCompliance(generatedCopy, {
+    productCategory: productData.productInfo.category,
+    sourceTestimonials: productData.perceivedLikelihood?.testimonials
+  });
+
+  const groundedClaims = isGenerating ? [] : checkGrounding(generatedCopy, sourceMarkdown);
+  const unsupportedClaimCount = groundedClaims.filter(claim => claim.status === 'unsupported').length;
+
+  const renderHighlights = (path: string, text: string) => (
+    <>
+      <ComplianceHighlights text={text} issues={complianceIssues.filter(issue => issue.path === path)} />
+      <GroundingChips claims={groundedClaims.filter(claim => claim.path === path)} />
+    </>
+  );
+
   const handleComplete = () => {
     if (generatedCopy) {
       onComplete(generatedCopy);
@@ -271,7 +675,167 @@ Return only the guarantee text.`
         </p>
       </div>
 
-      {!generatedCopy && (
+      <Card className="p-4">
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+          <label htmlFor="brandVoice" className="text-sm font-medium flex items-center gap-2">
+            <Mic2 className="w-4 h-4 text-primary" />
+            Brand Voice
+          </label>
+          <select
+            id="brandVoice"
+            value={brandVoice?.id || ''}
+            onChange={(e) => onBrandVoiceChange?.(e.target.value || null)}
+            disabled={isGenerating || !!variantSection || !!translatingTo}
+            className="flex-1 p-2 border border-input rounded-md bg-background text-foreground text-sm"
+          >
+            <option value="">No brand voice</option>
+            {brandVoices.map(profile => (
+              <option key={profile.id} value={profile.id}>{profile.name}</option>
+            ))}
+          </select>
+          <Button variant="outline" size="sm" onClick={() => setIsBrandVoiceDialogOpen(true)}>
+            Manage Voices
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setIsPromptDialogOpen(true)}>
+            <FileCode2 className="w-4 h-4 mr-2" />
+            Prompts
+          </Button>
+        </div>
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3 mt-3">
+          <label htmlFor="copyLanguage" className="text-sm font-medium flex items-center gap-2">
+            <Languages className="w-4 h-4 text-primary" />
+            Language
+          </label>
+          <select
+            id="copyLanguage"
+            value={copyLanguage.code}
+            onChange={(e) => onLanguageChange?.(e.target.value as CopyLanguage)}
+            disabled={isGenerating || !!variantSection || !!translatingTo}
+            className="flex-1 p-2 border border-input rounded-md bg-background text-foreground text-sm"
+          >
+            {Object.values(COPY_LANGUAGES).map(option => (
+              <option key={option.code} value={option.code}>{option.nativeName}</option>
+            ))}
+          </select>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!generatedCopy || isGenerating || !!variantSection || !!translatingTo}
+              >
+                {translatingTo
+                  ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  : <Languages className="w-4 h-4 mr-2" />}
+                {translatingTo ? `Translating to ${COPY_LANGUAGES[translatingTo].name}...` : 'Translate Page'}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Translate the current copy into</DropdownMenuLabel>
+              {Object.values(COPY_LANGUAGES).filter(option => option.code !== copyLanguage.code).map(option => (
+                <DropdownMenuItem key={option.code} onSelect={() => translatePage(option.code)}>
+                  {option.nativeName}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      </Card>
+
+      <PromptTemplateDialog
+        open={isPromptDialogOpen}
+        onOpenChange={setIsPromptDialogOpen}
+        templates={editableTemplates}
+        initialTemplateId={activeTabSection && getSectionTemplateId(framework.id, activeTabSection)}
+        previewVariables={previewVariables}
+        renderPreview={renderTemplatePreview}
+        listVersions={listVersions}
+        onSave={saveTemplate}
+      />
+
+      <BrandVoiceDialog
+        open={isBrandVoiceDialogOpen}
+        onOpenChange={setIsBrandVoiceDialogOpen}
+        profiles={brandVoices}
+        activeProfileId={brandVoice?.id}
+        onSave={saveProfile}
+        onDelete={deleteProfile}
+        onUse={(id) => {
+          if (id !== brandVoice?.id) onBrandVoiceChange?.(id);
+        }}
+      />
+
+      {bannedWordMatches.length > 0 && (
+        <Card className="p-4 border-destructive/40 bg-destructive/5">
+          <div className="flex items-start gap-3">
+            <Ban className="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" />
+            <div className="space-y-2">
+              <p className="text-sm font-medium">
+                This copy uses words the "{brandVoice?.name}" voice bans.
+              </p>
+              <ul className="text-sm space-y-1">
+                {bannedWordMatches.map(match => (
+                  <li key={match.section}>
+                    <button
+                      type="button"
+                      className="font-medium hover:underline"
+                      onClick={() => setActiveTab(SECTION_TABS[match.section])}
+                    >
+                      {match.label}
+                    </button>
+                    {': '}
+                    {match.words.map(word => (
+                      <Badge key={word} variant="outline" className="mr-1">{word}</Badge>
+                    ))}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </Card>
+      )}
+
+      {complianceIssues.length > 0 && (
+        <Card className={`p-4 ${hasBlockingIssues(complianceIssues) ? 'border-destructive/40 bg-destructive/5' : 'border-warning/40 bg-warning/5'}`}>
+          <div className="flex items-start gap-3">
+            <ShieldCheck className={`w-5 h-5 flex-shrink-0 mt-0.5 ${hasBlockingIssues(complianceIssues) ? 'text-destructive' : 'text-warning'}`} />
+            <div className="flex-1 space-y-3">
+              <div>
+                <p className="text-sm font-medium">Compliance Check</p>
+                <p className="text-xs text-muted-foreground">
+                  Flagged passages are highlighted under each field. Errors block export until they are fixed.
+                </p>
+              </div>
+              <ComplianceReport issues={complianceIssues} onSelectSection={section => setActiveTab(SECTION_TABS[section])} />
+            </div>
+          </div>
+        </Card>
+      )}
+
+      {generatedCopy && !isGenerating && (
+        <Card className={`p-4 ${unsupportedClaimCount > 0 ? 'border-warning/40 bg-warning/5' : ''}`}>
+          <div className="flex items-start gap-3">
+            <SearchCheck className={`w-5 h-5 flex-shrink-0 mt-0.5 ${unsupportedClaimCount > 0 ? 'text-warning' : 'text-muted-foreground'}`} />
+            <div className="flex-1 space-y-3">
+              <div>
+                <p className="text-sm font-medium">Source Check</p>
+                <p className="text-xs text-muted-foreground">
+                  {!sourceMarkdown?.trim()
+                    ? 'The scraped page is not available for this project, so claims cannot be checked against it. Analyze the URL again to enable the check.'
+                    : groundedClaims.length === 0
+                      ? 'No benefits, figures, guarantees or testimonials to check.'
+                      : `Benefits, figures, guarantees and testimonials matched against the scraped page: ${groundedClaims.length - unsupportedClaimCount} of ${groundedClaims.length} found there.`}
+                </p>
+              </div>
+              {groundedClaims.length > 0 && (
+                <GroundingReport claims={groundedClaims} onSelectSection={section => setActiveTab(SECTION_TABS[section])} />
+              )}
+            </div>
+          </div>
+        </Card>
+      )}
+
+      {!generatedCopy && !isGenerating && (
         <Card className="p-6 bg-gradient-surface border-primary/20">
           <div className="space-y-4">
             <div className="flex items-center justify-between">
@@ -312,94 +876,157 @@ Return only the guarantee text.`
               </div>
             </div>
 
-            {isGenerating ? (
-              <div className="space-y-3">
-                <div className="flex items-center justify-between text-sm">
-                  <span>Generating {currentStage}...</span>
-                  <span>{Math.round(progress)}%</span>
-                </div>
-                <Progress value={progress} className="h-2" />
+            <Button 
+              onClick={() => generateCopy()} 
+              variant="hero" 
+              size="lg" 
+              className="w-full"
+            >
+              <Zap className="w-4 h-4 mr-2" />
+              Generate Landing Page Copy
+            </Button>
+          </div>
+        </Card>
+      )}
+
+      {generatedCopy && staleSections.length > 0 && (
+        <Card className="p-4 border-warning/40 bg-warning/10">
+          <div className="flex flex-col md:flex-row md:items-center gap-4">
+            <AlertTriangle className="w-5 h-5 text-warning flex-shrink-0" />
+            <div className="flex-1 space-y-2">
+              <p className="text-sm font-medium">
+                The product data, page type, brand voice or language changed after this copy was written.
+              </p>
+              <div className="flex flex-wrap gap-1">
+                {staleSections.map(section => (
+                  <Badge key={section} variant="outline">{COPY_SECTION_LABELS[section]}</Badge>
+                ))}
               </div>
-            ) : (
-              <Button 
-                onClick={generateCopy} 
-                variant="hero" 
-                size="lg" 
-                className="w-full"
-              >
-                <Zap className="w-4 h-4 mr-2" />
-                Generate Landing Page Copy
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => onStaleResolved?.(staleSections)} disabled={isGenerating || !!translatingTo}>
+                Keep As Is
               </Button>
-            )}
+              <Button size="sm" onClick={() => generateCopy(staleSections)} disabled={isGenerating || !!variantSection || !!translatingTo}>
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Regenerate Affected
+              </Button>
+            </div>
           </div>
         </Card>
       )}
 
-      {generatedCopy && (
+      {isGenerating && (
+        <Card className="p-4 border-primary/20">
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-4 text-sm">
+              <span>
+                {streamingSections.length > 0
+                  ? `Writing ${streamingSections.length} section${streamingSections.length === 1 ? '' : 's'}...`
+                  : 'Finishing up...'}
+              </span>
+              <div className="flex items-center gap-2">
+                <span className="text-muted-foreground">{Math.round(progress)}%</span>
+                <Button variant="ghost" size="sm" onClick={stopGeneration}>
+                  Stop All
+                </Button>
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {streamingSections.map(section => (
+                <Badge key={section} variant="secondary" className="gap-2 pr-1">
+                  <span className="w-2 h-2 rounded-full bg-primary animate-pulse" />
+                  {getSectionLabel(framework, section)}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-5 w-5 p-0"
+                    onClick={() => stopSection(section)}
+                    aria-label={`Stop ${COPY_SECTION_LABELS[section]}`}
+                  >
+                    <Square className="w-3 h-3" />
+                  </Button>
+                </Badge>
+              ))}
+            </div>
+            <Progress value={progress} className="h-2" />
+            <p className="text-xs text-muted-foreground">
+              Stopping keeps the text written so far.
+            </p>
+          </div>
+        </Card>
+      )}
+
+      {displayCopy && (
         <div className="space-y-6">
           <Card className="p-6">
             <Tabs value={activeTab} onValueChange={setActiveTab}>
-              <TabsList className="grid grid-cols-4 lg:grid-cols-9 gap-1">
+              <TabsList className="flex flex-wrap h-auto gap-1">
                 <TabsTrigger value="headline" className="text-xs">Headline</TabsTrigger>
-                <TabsTrigger value="hero" className="text-xs">Hero</TabsTrigger>
-                <TabsTrigger value="benefits" className="text-xs">Benefits</TabsTrigger>
-                <TabsTrigger value="social" className="text-xs">Social Proof</TabsTrigger>
-                <TabsTrigger value="cta" className="text-xs">CTA</TabsTrigger>
-                <TabsTrigger value="urgency" className="text-xs">Urgency</TabsTrigger>
-                <TabsTrigger value="objections" className="text-xs">Objections</TabsTrigger>
-                <TabsTrigger value="guarantee" className="text-xs">Guarantee</TabsTrigger>
+                {isTabUsed('hero') && <TabsTrigger value="hero" className="text-xs">Hero</TabsTrigger>}
+                {isTabUsed('benefits') && <TabsTrigger value="benefits" className="text-xs">Benefits</TabsTrigger>}
+                {isTabUsed('social') && <TabsTrigger value="social" className="text-xs">Social Proof</TabsTrigger>}
+                {isTabUsed('cta') && <TabsTrigger value="cta" className="text-xs">CTA</TabsTrigger>}
+                {isTabUsed('urgency') && <TabsTrigger value="urgency" className="text-xs">Urgency</TabsTrigger>}
+                {isTabUsed('objections') && <TabsTrigger value="objections" className="text-xs">Objections</TabsTrigger>}
+                {isTabUsed('guarantee') && <TabsTrigger value="guarantee" className="text-xs">Guarantee</TabsTrigger>}
                 <TabsTrigger value="preview" className="text-xs">Preview</TabsTrigger>
               </TabsList>
 
               <TabsContent value="headline" className="space-y-4">
                 <div>
-                  <label className="text-sm font-medium">Main Headline</label>
+                  {renderSectionControls('headline', 'Main Headline')}
                   <Textarea
-                    value={generatedCopy.headline}
+                    value={displayCopy.headline}
                     onChange={(e) => handleCopyEdit('headline', e.target.value)}
                     className="mt-2"
                     rows={3}
                   />
+                  {renderHighlights('headline', displayCopy.headline)}
                 </div>
                 <div>
-                  <label className="text-sm font-medium">Subheadline</label>
+                  {renderSectionControls('subheadline', 'Subheadline')}
                   <Textarea
-                    value={generatedCopy.subheadline}
+                    value={displayCopy.subheadline}
                     onChange={(e) => handleCopyEdit('subheadline', e.target.value)}
                     className="mt-2"
                     rows={2}
                   />
+                  {renderHighlights('subheadline', displayCopy.subheadline)}
                 </div>
               </TabsContent>
 
               <TabsContent value="hero" className="space-y-4">
                 <div>
-                  <label className="text-sm font-medium">Hero Section Text</label>
+                  {renderSectionControls('heroText', 'Hero Section Text')}
                   <Textarea
-                    value={generatedCopy.heroText}
+                    value={displayCopy.heroText}
                     onChange={(e) => handleCopyEdit('heroText', e.target.value)}
                     className="mt-2"
                     rows={8}
                   />
+                  {renderHighlights('heroText', displayCopy.heroText)}
                 </div>
               </TabsContent>
 
               <TabsContent value="benefits" className="space-y-4">
                 <div>
-                  <label className="text-sm font-medium">Key Benefits</label>
+                  {renderSectionControls('benefits', 'Key Benefits')}
                   <div className="space-y-2 mt-2">
-                    {Array.isArray(generatedCopy.benefits) && generatedCopy.benefits.map((benefit, index) => (
-                      <Textarea
-                        key={index}
-                        value={typeof benefit === 'string' ? benefit : String(benefit)}
-                        onChange={(e) => {
-                          const newBenefits = [...generatedCopy.benefits];
-                          newBenefits[index] = e.target.value;
-                          handleCopyEdit('benefits', newBenefits as any);
-                        }}
-                        rows={2}
-                        placeholder={`Benefit ${index + 1}`}
-                      />
+                    {Array.isArray(displayCopy.benefits) && displayCopy.benefits.map((benefit, index) => (
+                      <div key={index}>
+                        <Textarea
+                          value={typeof benefit === 'string' ? benefit : String(benefit)}
+                          onChange={(e) => {
+                            const newBenefits = [...displayCopy.benefits];
+                            newBenefits[index] = e.target.value;
+                            handleCopyEdit('benefits', newBenefits);
+                          }}
+                          rows={2}
+                          placeholder={`Benefit ${index + 1}`}
+                        />
+                        {renderHighlights(`benefits.${index}`, String(benefit))}
+                      </div>
                     ))}
                   </div>
                 </div>
@@ -407,56 +1034,94 @@ Return only the guarantee text.`
 
               <TabsContent value="social" className="space-y-4">
                 <div>
-                  <label className="text-sm font-medium">Social Proof</label>
+                  {renderSectionControls('socialProof', 'Social Proof')}
                   <Textarea
-                    value={generatedCopy.socialProof}
+                    value={displayCopy.socialProof}
                     onChange={(e) => handleCopyEdit('socialProof', e.target.value)}
                     className="mt-2"
                     rows={6}
                   />
+                  {renderHighlights('socialProof', displayCopy.socialProof)}
                 </div>
               </TabsContent>
 
               <TabsContent value="cta" className="space-y-4">
                 <div>
-                  <label className="text-sm font-medium">Call to Action</label>
+                  {renderSectionControls('cta', 'Call to Action')}
                   <Textarea
-                    value={generatedCopy.cta}
+                    value={displayCopy.cta}
                     onChange={(e) => handleCopyEdit('cta', e.target.value)}
                     className="mt-2"
                     rows={2}
                   />
+                  {renderHighlights('cta', displayCopy.cta)}
                 </div>
+                {displayCopy.ctaOptions.length > 1 && (
+                  <div>
+                    <label className="text-sm font-medium">All Options</label>
+                    <p className="text-xs text-muted-foreground">
+                      The primary option leads the page; the others are used for the buttons further down.
+                    </p>
+                    <div className="space-y-2 mt-2">
+                      {displayCopy.ctaOptions.map((option, index) => (
+                        <div key={index}>
+                          <div className="flex items-start gap-2">
+                            <Textarea
+                              value={option}
+                              onChange={(e) => handleCtaOptionEdit(index, e.target.value)}
+                              rows={1}
+                              placeholder={`CTA option ${index + 1}`}
+                            />
+                            <Button
+                              variant={option === displayCopy.cta ? 'secondary' : 'outline'}
+                              size="sm"
+                              onClick={() => handlePrimaryCtaSelect(index)}
+                              disabled={option === displayCopy.cta || isGenerating || !!translatingTo}
+                            >
+                              {option === displayCopy.cta ? 'Primary' : 'Make Primary'}
+                            </Button>
+                          </div>
+                          {renderHighlights(`ctaOptions.${index}`, option)}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </TabsContent>
 
               <TabsContent value="urgency" className="space-y-4">
                 <div>
-                  <label className="text-sm font-medium">Urgency Text</label>
+                  {renderSectionControls('urgency', 'Urgency Text')}
                   <Textarea
-                    value={generatedCopy.urgency}
+                    value={displayCopy.urgency}
                     onChange={(e) => handleCopyEdit('urgency', e.target.value)}
                     className="mt-2"
                     rows={3}
                   />
+                  {renderHighlights('urgency', displayCopy.urgency)}
                 </div>
               </TabsContent>
 
               <TabsContent value="objections" className="space-y-4">
                 <div>
-                  <label className="text-sm font-medium">Objection Handling</label>
+                  {renderSectionControls('objections', 'Objection Handling')}
                   <div className="space-y-2 mt-2">
-                    {Array.isArray(generatedCopy.objectionHandling) && generatedCopy.objectionHandling.map((objection, index) => (
-                      <Textarea
-                        key={index}
-                        value={typeof objection === 'string' ? objection : String(objection)}
-                        onChange={(e) => {
-                          const newObjections = [...generatedCopy.objectionHandling];
-                          newObjections[index] = e.target.value;
-                          handleCopyEdit('objectionHandling', newObjections as any);
-                        }}
-                        rows={3}
-                        placeholder={`Objection response ${index + 1}`}
-                      />
+                    {Array.isArray(displayCopy.objectionHandling) && displayCopy.objectionHandling.map((item, index) => (
+                      <div key={index} className="space-y-1 p-3 bg-muted/30 rounded-lg">
+                        <Input
+                          value={item.objection}
+                          onChange={(e) => handleObjectionEdit(index, 'objection', e.target.value)}
+                          placeholder={`Objection ${index + 1}, e.g. "Is it worth the price?"`}
+                        />
+                        {renderHighlights(`objectionHandling.${index}.objection`, item.objection)}
+                        <Textarea
+                          value={item.response}
+                          onChange={(e) => handleObjectionEdit(index, 'response', e.target.value)}
+                          rows={3}
+                          placeholder={`Response ${index + 1}`}
+                        />
+                        {renderHighlights(`objectionHandling.${index}.response`, item.response)}
+                      </div>
                     ))}
                   </div>
                 </div>
@@ -464,26 +1129,27 @@ Return only the guarantee text.`
 
               <TabsContent value="guarantee" className="space-y-4">
                 <div>
-                  <label className="text-sm font-medium">Guarantee/Risk Reversal</label>
+                  {renderSectionControls('guarantee', 'Guarantee/Risk Reversal')}
                   <Textarea
-                    value={generatedCopy.guarantee}
+                    value={displayCopy.guarantee}
                     onChange={(e) => handleCopyEdit('guarantee', e.target.value)}
                     className="mt-2"
                     rows={4}
                   />
+                  {renderHighlights('guarantee', displayCopy.guarantee)}
                 </div>
               </TabsContent>
 
               <TabsContent value="preview" className="space-y-6">
                 <div className="bg-muted/30 p-6 rounded-lg">
-                  <h3 className="text-2xl font-bold mb-2">{generatedCopy.headline}</h3>
-                  <p className="text-lg text-muted-foreground mb-4">{generatedCopy.subheadline}</p>
+                  <h3 className="text-2xl font-bold mb-2">{displayCopy.headline}</h3>
+                  <p className="text-lg text-muted-foreground mb-4">{displayCopy.subheadline}</p>
                   <div className="space-y-4 text-sm">
-                    <p>{generatedCopy.heroText}</p>
+                    <p>{displayCopy.heroText}</p>
                     <div>
                       <h4 className="font-semibold mb-2">Key Benefits:</h4>
                       <ul className="list-disc list-inside space-y-1">
-                        {Array.isArray(generatedCopy.benefits) && generatedCopy.benefits.map((benefit, index) => (
+                        {Array.isArray(displayCopy.benefits) && displayCopy.benefits.map((benefit, index) => (
                           <li key={index}>{typeof benefit === 'string' ? benefit : String(benefit)}</li>
                         ))}
                       </ul>
@@ -497,16 +1163,18 @@ Return only the guarantee text.`
           <div className="flex gap-4 justify-center">
             <Button 
               variant="outline" 
-              onClick={generateCopy}
-              disabled={isGenerating}
+              onClick={() => generateCopy()}
+              disabled={isGenerating || !!variantSection || !!translatingTo}
+              title={lockedSections.length > 0 ? 'Locked sections are kept' : undefined}
             >
               <RefreshCw className="w-4 h-4 mr-2" />
-              Regenerate Copy
+              {lockedSections.length > 0 ? 'Regenerate Unlocked Copy' : 'Regenerate Copy'}
             </Button>
             <Button 
               variant="hero" 
               size="lg" 
               onClick={handleComplete}
+              disabled={isGenerating || !!translatingTo}
             >
               <CheckCircle className="w-4 h-4 mr-2" />
               Continue to Image Selection
@@ -0,0 +1,39 @@
+import { Badge } from '@/components/ui/badge';
+import {
+  COPY_METRICS,
+  formatMetricValue,
+  formatThreshold,
+  type MetricStatus,
+  type SectionMetric
+} from '@/lib/copy-metrics';
+
+interface CopyMetricBadgesProps {
+  metrics: SectionMetric[];
+}
+
+const STATUS_CLASSES: Record<MetricStatus, string> = {
+  good: 'border-success/40 text-success',
+  low: 'border-warning/40 bg-warning/10 text-warning',
+  high: 'border-warning/40 bg-warning/10 text-warning'
+};
+
+/** One badge per metric for a section; out-of-range values are highlighted and the tooltip gives the target. */
+export const CopyMetricBadges = ({ metrics }: CopyMetricBadgesProps) => {
+  if (metrics.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1 mt-1">
+      {metrics.map(metric => (
+        <Badge
+          key={metric.id}
+          variant="outline"
+          className={`font-normal tabular-nums ${STATUS_CLASSES[metric.status]}`}
+          title={`${COPY_METRICS[metric.id].description} Target: ${formatThreshold(metric.id, metric.threshold)}.`}
+        >
+          {COPY_METRICS[metric.id].label}: {formatMetricValue(metric.id, metric.value)}
+          {metric.status !== 'good' && ` (too ${metric.status})`}
+        </Badge>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,142 @@
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import {
+  formatTemplateRef,
+  formatTemplateVersion,
+  isCurrentTemplateVersion,
+  type PromptTemplate,
+  type PromptTemplateRef
+} from '@/lib/prompt-templates';
+import { ChevronLeft, ChevronRight, Layers, Loader2, Lock, RefreshCw, Unlock } from 'lucide-react';
+
+const VARIANT_COUNT_OPTIONS = [3, 5, 10];
+
+interface CopySectionControlsProps {
+  label: string;
+  // Template the current text was generated from, and the template in use now
+  promptVersion?: PromptTemplateRef;
+  currentPrompt?: PromptTemplate;
+  locked: boolean;
+  // Another generation is running, so nothing here may start a new one
+  disabled: boolean;
+  isGeneratingVariants: boolean;
+  variantCount: number;
+  // -1 when the section was edited after a variant was picked
+  activeVariant: number;
+  onRegenerate: () => void;
+  onToggleLock: () => void;
+  onGenerateVariants: (count: number) => void;
+  onSelectVariant: (index: number) => void;
+}
+
+export const CopySectionControls = ({
+  label,
+  promptVersion,
+  currentPrompt,
+  locked,
+  disabled,
+  isGeneratingVariants,
+  variantCount,
+  activeVariant,
+  onRegenerate,
+  onToggleLock,
+  onGenerateVariants,
+  onSelectVariant
+}: CopySectionControlsProps) => {
+  // Stepping from an edited section starts at either end of the list
+  const previousVariant = activeVariant > 0 ? activeVariant - 1 : variantCount - 1;
+  const nextVariant = activeVariant >= 0 && activeVariant < variantCount - 1 ? activeVariant + 1 : 0;
+  const canPick = variantCount > 1 && !locked && !disabled;
+  const isCurrentPrompt = !!promptVersion && !!currentPrompt && isCurrentTemplateVersion(promptVersion, currentPrompt);
+
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <div className="flex items-baseline gap-2">
+        <label className="text-sm font-medium">{label}</label>
+        {promptVersion && (
+          <span
+            className={`text-xs tabular-nums ${isCurrentPrompt ? 'text-muted-foreground' : 'text-warning'}`}
+            title={isCurrentPrompt || !currentPrompt
+              ? `Written with ${formatTemplateRef(promptVersion)}`
+              : `Written with ${formatTemplateRef(promptVersion)}; the template is now ${formatTemplateVersion(currentPrompt)}`}
+          >
+            prompt {formatTemplateVersion(promptVersion)}
+          </span>
+        )}
+      </div>
+      <div className="flex items-center gap-1">
+        {variantCount > 0 && (
+          <div className="flex items-center">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0"
+              onClick={() => onSelectVariant(previousVariant)}
+              disabled={!canPick}
+              aria-label={`Previous ${label} variant`}
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <span className="text-xs text-muted-foreground tabular-nums min-w-[3.5rem] text-center">
+              {activeVariant >= 0 ? `${activeVariant + 1} of ${variantCount}` : `edited · ${variantCount}`}
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0"
+              onClick={() => onSelectVariant(nextVariant)}
+              disabled={!canPick}
+              aria-label={`Next ${label} variant`}
+            >
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-7" disabled={locked || disabled} title="Generate alternatives">
+              {isGeneratingVariants ? <Loader2 className="w-3 h-3 animate-spin" /> : <Layers className="w-3 h-3" />}
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuLabel>Generate alternatives</DropdownMenuLabel>
+            {VARIANT_COUNT_OPTIONS.map(count => (
+              <DropdownMenuItem key={count} onSelect={() => onGenerateVariants(count)}>
+                {count} variants
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7"
+          onClick={onRegenerate}
+          disabled={locked || disabled}
+          title={locked ? 'Unlock to regenerate' : `Regenerate ${label}`}
+        >
+          <RefreshCw className="w-3 h-3" />
+        </Button>
+        <Button
+          variant={locked ? 'secondary' : 'ghost'}
+          size="sm"
+          className="h-7"
+          onClick={onToggleLock}
+          disabled={disabled}
+          title={locked ? 'Locked: regeneration skips this section' : 'Lock to keep this section when regenerating'}
+          aria-pressed={locked}
+        >
+          {locked ? <Lock className="w-3 h-3" /> : <Unlock className="w-3 h-3" />}
+        </Button>
+      </div>
+    </div>
+  );
+};
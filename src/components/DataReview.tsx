@@ -1,32 +1,40 @@
+import { useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { CheckCircle, TrendingUp, Users, Clock, Zap } from 'lucide-react';
-
-interface ProductData {
-  productInfo: {
-    name: string;
-    category: string;
-    industry: string;
-    pricePoint: string;
-  };
-  dreamOutcome: {
-    mainBenefit: string;
-    targetAudience: string;
-    emotionalOutcome: string;
-  };
-  extractionQuality: {
-    completenessScore: number;
-    confidenceLevel: string;
-  };
-}
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { ProductData } from '@/utils/ContentAnalyzer';
+import type { ChangeDescription } from '@/lib/history';
+import { CheckCircle, TrendingUp, Users, Clock, Zap, Pencil, Check } from 'lucide-react';
 
 interface DataReviewProps {
   data: ProductData;
+  onDataChange: (data: ProductData, change: ChangeDescription) => void;
   onConfirm: () => void;
 }
 
-export const DataReview = ({ data, onConfirm }: DataReviewProps) => {
+const CATEGORIES: ProductData['productInfo']['category'][] = ['software', 'physical', 'service', 'info', 'health'];
+const PRICE_POINTS: ProductData['productInfo']['pricePoint'][] = ['low', 'medium', 'high', 'premium'];
+
+export const DataReview = ({ data, onDataChange, onConfirm }: DataReviewProps) => {
+  const [isEditing, setIsEditing] = useState(false);
+
+  const updateField = <G extends 'productInfo' | 'dreamOutcome', K extends keyof ProductData[G]>(
+    group: G,
+    field: K,
+    value: ProductData[G][K],
+    label: string
+  ) => {
+    onDataChange({
+      ...data,
+      [group]: { ...data[group], [field]: value }
+    }, {
+      label: `Edit ${label}`,
+      mergeKey: `productData.${group}.${String(field)}`
+    });
+  };
+
   const getQualityColor = (score: number) => {
     if (score >= 0.8) return 'text-success';
     if (score >= 0.6) return 'text-warning';
@@ -49,6 +57,13 @@ export const DataReview = ({ data, onConfirm }: DataReviewProps) => {
         </p>
       </div>
 
+      <div className="flex justify-end">
+        <Button variant="outline" size="sm" onClick={() => setIsEditing(!isEditing)}>
+          {isEditing ? <Check className="w-4 h-4 mr-2" /> : <Pencil className="w-4 h-4 mr-2" />}
+          {isEditing ? 'Done Editing' : 'Edit Data'}
+        </Button>
+      </div>
+
       <Card className="p-6 bg-gradient-surface border-primary/20 shadow-card">
         <div className="space-y-6">
           {/* Quality Score */}
@@ -79,23 +94,65 @@ export const DataReview = ({ data, onConfirm }: DataReviewProps) => {
               <div className="space-y-3">
                 <div>
                   <label className="text-sm font-medium text-muted-foreground">Product Name</label>
-                  <p className="font-medium">{data.productInfo.name}</p>
+                  {isEditing ? (
+                    <Input
+                      value={data.productInfo.name}
+                      onChange={(e) => updateField('productInfo', 'name', e.target.value, 'Product Name')}
+                    />
+                  ) : (
+                    <p className="font-medium">{data.productInfo.name}</p>
+                  )}
                 </div>
                 <div>
                   <label className="text-sm font-medium text-muted-foreground">Category</label>
-                  <Badge variant="outline" className="ml-2">
-                    {data.productInfo.category}
-                  </Badge>
+                  {isEditing ? (
+                    <Select
+                      value={data.productInfo.category}
+                      onValueChange={(value) => updateField('productInfo', 'category', value as ProductData['productInfo']['category'], 'Category')}
+                    >
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {CATEGORIES.map(category => (
+                          <SelectItem key={category} value={category}>{category}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Badge variant="outline" className="ml-2">
+                      {data.productInfo.category}
+                    </Badge>
+                  )}
                 </div>
                 <div>
                   <label className="text-sm font-medium text-muted-foreground">Industry</label>
-                  <p className="font-medium">{data.productInfo.industry}</p>
+                  {isEditing ? (
+                    <Input
+                      value={data.productInfo.industry}
+                      onChange={(e) => updateField('productInfo', 'industry', e.target.value, 'Industry')}
+                    />
+                  ) : (
+                    <p className="font-medium">{data.productInfo.industry}</p>
+                  )}
                 </div>
                 <div>
                   <label className="text-sm font-medium text-muted-foreground">Price Point</label>
-                  <Badge variant="secondary" className="ml-2">
-                    {data.productInfo.pricePoint}
-                  </Badge>
+                  {isEditing ? (
+                    <Select
+                      value={data.productInfo.pricePoint}
+                      onValueChange={(value) => updateField('productInfo', 'pricePoint', value as ProductData['productInfo']['pricePoint'], 'Price Point')}
+                    >
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {PRICE_POINTS.map(pricePoint => (
+                          <SelectItem key={pricePoint} value={pricePoint}>{pricePoint}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Badge variant="secondary" className="ml-2">
+                      {data.productInfo.pricePoint}
+                    </Badge>
+                  )}
                 </div>
               </div>
             </div>
@@ -108,18 +165,39 @@ export const DataReview = ({ data, onConfirm }: DataReviewProps) => {
               <div className="space-y-3">
                 <div>
                   <label className="text-sm font-medium text-muted-foreground">Main Benefit</label>
-                  <p className="font-medium">{data.dreamOutcome.mainBenefit}</p>
+                  {isEditing ? (
+                    <Input
+                      value={data.dreamOutcome.mainBenefit}
+                      onChange={(e) => updateField('dreamOutcome', 'mainBenefit', e.target.value, 'Main Benefit')}
+                    />
+                  ) : (
+                    <p className="font-medium">{data.dreamOutcome.mainBenefit}</p>
+                  )}
                 </div>
                 <div>
                   <label className="text-sm font-medium text-muted-foreground">Target Audience</label>
                   <div className="flex items-center gap-2">
                     <Users className="w-4 h-4 text-muted-foreground" />
-                    <p className="font-medium">{data.dreamOutcome.targetAudience}</p>
+                    {isEditing ? (
+                      <Input
+                        value={data.dreamOutcome.targetAudience}
+                        onChange={(e) => updateField('dreamOutcome', 'targetAudience', e.target.value, 'Target Audience')}
+                      />
+                    ) : (
+                      <p className="font-medium">{data.dreamOutcome.targetAudience}</p>
+                    )}
                   </div>
                 </div>
                 <div>
                   <label className="text-sm font-medium text-muted-foreground">Emotional Outcome</label>
-                  <p className="font-medium">{data.dreamOutcome.emotionalOutcome}</p>
+                  {isEditing ? (
+                    <Input
+                      value={data.dreamOutcome.emotionalOutcome}
+                      onChange={(e) => updateField('dreamOutcome', 'emotionalOutcome', e.target.value, 'Emotional Outcome')}
+                    />
+                  ) : (
+                    <p className="font-medium">{data.dreamOutcome.emotionalOutcome}</p>
+                  )}
                 </div>
               </div>
             </div>
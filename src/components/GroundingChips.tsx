@@ -0,0 +1,33 @@
+import { CLAIM_KIND_LABELS, type GroundedClaim, type GroundingStatus } from '@/lib/grounding';
+
+interface GroundingChipsProps {
+  // Claims in this one field
+  claims: GroundedClaim[];
+}
+
+const CHIP_CLASSES: Record<GroundingStatus, string> = {
+  supported: 'border-success/40 bg-success/10 text-success',
+  paraphrased: 'border-warning/40 bg-warning/10 text-warning',
+  unsupported: 'border-destructive/40 bg-destructive/10 text-destructive'
+};
+
+/** One chip per claim in the field, shown under its editor; hovering shows the closest source passage. */
+export const GroundingChips = ({ claims }: GroundingChipsProps) => {
+  if (claims.length === 0) return null;
+
+  return (
+    <div className="mt-1 flex flex-wrap gap-1">
+      {claims.map((claim, index) => (
+        <span
+          key={index}
+          className={`text-xs px-1.5 py-0.5 rounded border max-w-full truncate ${CHIP_CLASSES[claim.status]}`}
+          title={claim.evidence ? `Closest source passage: ${claim.evidence}` : 'Nothing similar on the source page'}
+        >
+          {CLAIM_KIND_LABELS[claim.kind]} {claim.status}
+          {/* A field with several claims needs to say which one each chip is about */}
+          {claims.length > 1 && `: ${claim.text}`}
+        </span>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import { Badge } from '@/components/ui/badge';
+import { COPY_SECTION_LABELS, type CopySection } from '@/lib/project-dependencies';
+import { CLAIM_KIND_LABELS, type GroundedClaim, type GroundingStatus } from '@/lib/grounding';
+import { CheckCircle, HelpCircle, XCircle } from 'lucide-react';
+
+interface GroundingReportProps {
+  claims: GroundedClaim[];
+  onSelectSection?: (section: CopySection) => void;
+}
+
+// Unsupported first: those are the claims the writer has to act on
+const STATUS_ORDER: GroundingStatus[] = ['unsupported', 'paraphrased', 'supported'];
+
+const STATUS_DETAILS: Record<GroundingStatus, { label: string; icon: typeof CheckCircle; className: string }> = {
+  unsupported: { label: 'Not on the source page', icon: XCircle, className: 'text-destructive' },
+  paraphrased: { label: 'Paraphrased from the source', icon: HelpCircle, className: 'text-warning' },
+  supported: { label: 'Supported by the source', icon: CheckCircle, className: 'text-success' }
+};
+
+/** Claims grouped by how well the source page backs them, each with the closest source passage. */
+export const GroundingReport = ({ claims, onSelectSection }: GroundingReportProps) => (
+  <div className="space-y-4">
+    {STATUS_ORDER.map(status => {
+      const group = claims.filter(claim => claim.status === status);
+      if (group.length === 0) return null;
+      const { label, icon: Icon, className } = STATUS_DETAILS[status];
+
+      return (
+        <div key={status} className="space-y-2">
+          <h4 className={`text-sm font-medium flex items-center gap-2 ${className}`}>
+            <Icon className="w-4 h-4" />
+            {label} ({group.length})
+          </h4>
+          <ul className="space-y-2">
+            {group.map((claim, index) => (
+              <li key={`${claim.path}-${index}`} className="text-sm pl-6 space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="outline">{CLAIM_KIND_LABELS[claim.kind]}</Badge>
+                  {onSelectSection ? (
+                    <button
+                      type="button"
+                      className="font-medium hover:underline"
+                      onClick={() => onSelectSection(claim.section)}
+                    >
+                      {COPY_SECTION_LABELS[claim.section]}
+                    </button>
+                  ) : (
+                    <span className="font-medium">{COPY_SECTION_LABELS[claim.section]}</span>
+                  )}
+                  <span className="text-xs text-muted-foreground">{Math.round(claim.score * 100)}% match</span>
+                </div>
+                <p>{claim.text}</p>
+                {claim.missingNumbers.length > 0 && (
+                  <p className="text-xs text-destructive">
+                    Not in the source: {claim.missingNumbers.join(', ')}
+                  </p>
+                )}
+                {claim.evidence && status !== 'unsupported' && (
+                  <p className="text-xs text-muted-foreground border-l-2 pl-2">Source: {claim.evidence}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      );
+    })}
+  </div>
+);
@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import type { ProjectSnapshot } from '@/utils/ProjectStore';
+import { Bookmark, Redo2, RotateCcw, Trash2, Undo2 } from 'lucide-react';
+
+interface HistoryToolbarProps {
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel?: string;
+  redoLabel?: string;
+  snapshots: ProjectSnapshot[];
+  onUndo: () => void;
+  onRedo: () => void;
+  onCreateSnapshot: (name: string) => void;
+  onRestoreSnapshot: (snapshotId: string) => void;
+  onDeleteSnapshot: (snapshotId: string) => void;
+}
+
+export const HistoryToolbar = ({
+  canUndo,
+  canRedo,
+  undoLabel,
+  redoLabel,
+  snapshots,
+  onUndo,
+  onRedo,
+  onCreateSnapshot,
+  onRestoreSnapshot,
+  onDeleteSnapshot
+}: HistoryToolbarProps) => {
+  const [snapshotName, setSnapshotName] = useState('');
+
+  const handleCreateSnapshot = (e: React.FormEvent) => {
+    e.preventDefault();
+    onCreateSnapshot(snapshotName);
+    setSnapshotName('');
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={onUndo}
+        disabled={!canUndo}
+        title={canUndo ? `Undo ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+      >
+        <Undo2 className="w-4 h-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={onRedo}
+        disabled={!canRedo}
+        title={canRedo ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+      >
+        <Redo2 className="w-4 h-4" />
+      </Button>
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm">
+            <Bookmark className="w-4 h-4 mr-2" />
+            Snapshots
+            {snapshots.length > 0 && ` (${snapshots.length})`}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-80 space-y-4">
+          <form onSubmit={handleCreateSnapshot} className="flex gap-2">
+            <Input
+              value={snapshotName}
+              onChange={(e) => setSnapshotName(e.target.value)}
+              placeholder="Snapshot name"
+            />
+            <Button type="submit" size="sm">Save</Button>
+          </form>
+
+          {snapshots.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Save a snapshot to come back to this version of the project later.
+            </p>
+          ) : (
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {snapshots.map(snapshot => (
+                <div key={snapshot.id} className="flex items-center justify-between gap-2 p-2 rounded-md border">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{snapshot.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(snapshot.createdAt, { addSuffix: true })}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onRestoreSnapshot(snapshot.id)}
+                      title="Restore snapshot"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onDeleteSnapshot(snapshot.id)}
+                      title="Delete snapshot"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
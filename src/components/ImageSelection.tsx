@@ -13,17 +13,30 @@ import {
   CheckCircle,
   RefreshCw,
   Zap,
-  Download
+  Download,
+  AlertTriangle
 } from 'lucide-react';
+import { IMAGE_SLOT_LABELS, type ImageSlot } from '@/lib/project-dependencies';
+import type { ChangeDescription } from '@/lib/history';
+
+export interface ImageChange extends ChangeDescription {
+  // Stale slots this change brings up to date
+  resolvedSlots?: ImageSlot[];
+}
 
 interface ImageSelectionProps {
   productData: any;
   pageType: string;
   generatedCopy: any;
+  images: SelectedImages | null;
+  staleSlots?: ImageSlot[];
+  // Called without a change description for automatic picks that should not be undoable
+  onImagesChange: (selectedImages: SelectedImages, change?: ImageChange) => void;
+  onStaleResolved?: (slots: ImageSlot[]) => void;
   onComplete: (selectedImages: SelectedImages) => void;
 }
 
-interface SelectedImages {
+export interface SelectedImages {
   hero: string;
   product?: string;
   testimonial?: string;
@@ -61,11 +74,17 @@ const placeholderImages = {
   ]
 };
 
-export const ImageSelection = ({ productData, pageType, generatedCopy, onComplete }: ImageSelectionProps) => {
-  const [selectedImages, setSelectedImages] = useState<SelectedImages>({
-    hero: '',
-    icons: []
-  });
+export const ImageSelection = ({
+  productData,
+  pageType,
+  generatedCopy,
+  images,
+  staleSlots = [],
+  onImagesChange,
+  onStaleResolved,
+  onComplete
+}: ImageSelectionProps) => {
+  const selectedImages: SelectedImages = images || { hero: '', icons: [] };
   const [isGenerating, setIsGenerating] = useState(false);
   const [generatedImages, setGeneratedImages] = useState<GeneratedImage[]>([]);
   const [activeTab, setActiveTab] = useState('hero');
@@ -194,23 +213,35 @@ export const ImageSelection = ({ productData, pageType, generatedCopy, onComplet
 
   const selectImage = (imageUrl: string, type: keyof SelectedImages) => {
     if (type === 'icons') {
-      setSelectedImages(prev => ({
-        ...prev,
-        icons: [...prev.icons, imageUrl]
-      }));
+      onImagesChange({
+        ...selectedImages,
+        icons: [...selectedImages.icons, imageUrl]
+      }, { label: 'Add icon' });
     } else {
-      setSelectedImages(prev => ({
-        ...prev,
+      onImagesChange({
+        ...selectedImages,
         [type]: imageUrl
-      }));
+      }, { label: `Select ${IMAGE_SLOT_LABELS[type].toLowerCase()} image` });
     }
   };
 
   const removeIcon = (index: number) => {
-    setSelectedImages(prev => ({
-      ...prev,
-      icons: prev.icons.filter((_, i) => i !== index)
-    }));
+    onImagesChange({
+      ...selectedImages,
+      icons: selectedImages.icons.filter((_, i) => i !== index)
+    }, { label: 'Remove icon' });
+  };
+
+  // Clear picks made for the old product/page type; the hero falls back to the first current suggestion
+  const resetStaleSlots = () => {
+    const placeholders = getPlaceholderImages();
+    const next = { ...selectedImages };
+    staleSlots.forEach(slot => {
+      if (slot === 'icons') next.icons = [];
+      else if (slot === 'hero') next.hero = placeholders[0] || '';
+      else delete next[slot];
+    });
+    onImagesChange(next, { label: 'Refresh affected images', resolvedSlots: staleSlots });
   };
 
   const handleComplete = () => {
@@ -230,10 +261,10 @@ export const ImageSelection = ({ productData, pageType, generatedCopy, onComplet
   useEffect(() => {
     const placeholders = getPlaceholderImages();
     if (placeholders.length > 0 && !selectedImages.hero) {
-      setSelectedImages(prev => ({
-        ...prev,
+      onImagesChange({
+        ...selectedImages,
         hero: placeholders[0]
-      }));
+      });
     }
   }, []);
 
@@ -247,6 +278,33 @@ export const ImageSelection = ({ productData, pageType, generatedCopy, onComplet
         </p>
       </div>
 
+      {staleSlots.length > 0 && (
+        <Card className="p-4 border-warning/40 bg-warning/10">
+          <div className="flex flex-col md:flex-row md:items-center gap-4">
+            <AlertTriangle className="w-5 h-5 text-warning flex-shrink-0" />
+            <div className="flex-1 space-y-2">
+              <p className="text-sm font-medium">
+                These selections were made for different product data or page type.
+              </p>
+              <div className="flex flex-wrap gap-1">
+                {staleSlots.map(slot => (
+                  <Badge key={slot} variant="outline">{IMAGE_SLOT_LABELS[slot]}</Badge>
+                ))}
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => onStaleResolved?.(staleSlots)}>
+                Keep As Is
+              </Button>
+              <Button size="sm" onClick={resetStaleSlots}>
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Refresh Affected
+              </Button>
+            </div>
+          </div>
+        </Card>
+      )}
+
       <Tabs value={activeTab} onValueChange={setActiveTab}>
         <TabsList className="grid grid-cols-3 lg:grid-cols-6">
           <TabsTrigger value="hero">Hero</TabsTrigger>
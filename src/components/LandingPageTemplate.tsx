@@ -0,0 +1,389 @@
+import { Fragment } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  Download,
+  CheckCircle,
+  Star,
+  Quote,
+  ShoppingCart,
+  Play,
+  HelpCircle
+} from 'lucide-react';
+import type { CopyObjection, GeneratedCopy } from './CopyGeneration';
+import type { SelectedImages } from './ImageSelection';
+import { getCopyFramework, type PreviewBlock } from '@/lib/copy-frameworks';
+import { getPreviewStrings, type PreviewStringKey } from '@/lib/copy-languages';
+import { getCtaPlacements } from '@/lib/page-sections';
+
+export interface LandingPageTemplateProps {
+  pageType: string;
+  generatedCopy: GeneratedCopy;
+  selectedImages: SelectedImages;
+  framework?: string;
+  language?: string;
+}
+
+/**
+ * The landing page itself, without any editor chrome. It only renders plain
+ * markup, so the same tree serves the live preview and the static exports.
+ */
+export const LandingPageTemplate = ({
+  pageType,
+  generatedCopy,
+  selectedImages,
+  framework: frameworkId,
+  language
+}: LandingPageTemplateProps) => {
+  const ctas = getCtaPlacements(generatedCopy);
+  const { layout } = getCopyFramework(frameworkId);
+  const benefits: string[] = generatedCopy.benefits || [];
+  const hasProof = !!generatedCopy.socialProof?.trim();
+  const strings = getPreviewStrings(language);
+  const getHeading = (block: PreviewBlock, fallback: PreviewStringKey) => strings[layout.headings?.[block] || fallback];
+
+  // Each page type styles the blocks its own way; the framework decides their order
+  const renderBlocks = (blocks: Record<PreviewBlock, () => React.ReactNode>) =>
+    layout.blockOrder.map(block => <Fragment key={block}>{blocks[block]()}</Fragment>);
+
+  const renderBenefitSteps = () => (
+    <ol className="max-w-2xl mx-auto space-y-4">
+      {benefits.map((benefit, index) => (
+        <li key={index} className="flex items-start gap-4 p-4 bg-muted/30 rounded-lg">
+          <span className="w-8 h-8 bg-primary text-primary-foreground rounded-full flex items-center justify-center font-bold flex-shrink-0">
+            {index + 1}
+          </span>
+          <p className="pt-1">{benefit}</p>
+        </li>
+      ))}
+    </ol>
+  );
+  const objections: CopyObjection[] = (generatedCopy.objectionHandling || []).filter((item: CopyObjection) => item.response);
+
+  const renderObjections = () => objections.length > 0 && (
+    <section className="py-16">
+      <div className="container mx-auto px-4">
+        <h2 className="text-3xl font-bold text-center mb-12">{getHeading('objections', 'commonQuestions')}</h2>
+        <div className="max-w-3xl mx-auto space-y-4">
+          {objections.map((item, index) => item.objection ? (
+            <details key={index} className="group p-6 bg-muted/30 rounded-lg" open={index === 0}>
+              <summary className="flex items-center gap-3 font-semibold cursor-pointer list-none">
+                <HelpCircle className="w-5 h-5 text-primary flex-shrink-0" />
+                {item.objection}
+              </summary>
+              <p className="mt-3 pl-8 text-muted-foreground">{item.response}</p>
+            </details>
+          ) : (
+            <p key={index} className="p-6 bg-muted/30 rounded-lg text-muted-foreground">{item.response}</p>
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+
+  const renderVSLPage = () => (
+    <div className="space-y-8">
+      {/* Hero Section with Video */}
+      <section 
+        className="relative min-h-screen flex items-center justify-center bg-cover bg-center"
+        style={{ backgroundImage: `linear-gradient(rgba(0,0,0,0.4), rgba(0,0,0,0.4)), url(${selectedImages.hero})` }}
+      >
+        <div className="container mx-auto px-4 text-center text-white">
+          <h1 className="text-4xl md:text-6xl font-bold mb-4">
+            {generatedCopy.headline}
+          </h1>
+          <p className="text-xl md:text-2xl mb-8 opacity-90">
+            {generatedCopy.subheadline}
+          </p>
+          
+          {/* Video Player Mockup */}
+          <div className="max-w-4xl mx-auto bg-black rounded-lg overflow-hidden mb-8">
+            <div className="aspect-video flex items-center justify-center bg-gradient-to-br from-gray-800 to-gray-900">
+              <Button variant="ghost" size="lg" className="text-white hover:bg-white/20">
+                <Play className="w-12 h-12" />
+              </Button>
+            </div>
+          </div>
+          
+          <Button size="lg" className="bg-primary text-white hover:bg-primary/90 px-8 py-4 text-lg">
+            {ctas.hero}
+          </Button>
+        </div>
+      </section>
+
+      {/* Story */}
+      {generatedCopy.heroText && (
+        <section className="py-16 bg-background">
+          <div className="container mx-auto px-4">
+            <div className="prose prose-lg max-w-4xl mx-auto">
+              {generatedCopy.heroText.split('\n').map((paragraph: string, index: number) => (
+                <p key={index} className="mb-4">{paragraph}</p>
+              ))}
+            </div>
+          </div>
+        </section>
+      )}
+
+      {renderBlocks({
+        benefits: () => benefits.length > 0 && (
+          <section className="py-16 bg-background">
+            <div className="container mx-auto px-4">
+              <div className="max-w-4xl mx-auto">
+                {layout.headings?.benefits && (
+                  <h2 className="text-3xl font-bold text-center mb-8">{strings[layout.headings.benefits]}</h2>
+                )}
+                {layout.benefitsStyle === 'steps' ? renderBenefitSteps() : (
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                    {benefits.slice(0, 6).map((benefit, index) => (
+                      <div key={index} className="flex items-start gap-3 p-4 bg-muted/30 rounded-lg">
+                        <CheckCircle className="w-6 h-6 text-primary flex-shrink-0 mt-1" />
+                        <p className="text-sm">{benefit}</p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div className="text-center mt-12">
+                  <Button size="lg" className="px-8 py-4 text-lg">
+                    {ctas.middle}
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </section>
+        ),
+        proof: () => hasProof && (
+          <section className="py-16 bg-muted/20">
+            <div className="container mx-auto px-4 text-center">
+              <h2 className="text-3xl font-bold mb-8">{getHeading('proof', 'customersSay')}</h2>
+              <div className="max-w-2xl mx-auto">
+                <Quote className="w-8 h-8 text-primary mx-auto mb-4" />
+                <div className="prose mx-auto">
+                  {generatedCopy.socialProof.split('\n').map((line: string, index: number) => (
+                    <p key={index} className="mb-2">{line}</p>
+                  ))}
+                </div>
+                <div className="flex justify-center mt-4">
+                  {[1,2,3,4,5].map((star) => (
+                    <Star key={star} className="w-5 h-5 text-yellow-400 fill-current" />
+                  ))}
+                </div>
+              </div>
+            </div>
+          </section>
+        ),
+        objections: renderObjections
+      })}
+
+      {/* Urgency & CTA */}
+      <section className="py-16 bg-primary text-primary-foreground">
+        <div className="container mx-auto px-4 text-center">
+          <div className="max-w-2xl mx-auto">
+            <h2 className="text-3xl font-bold mb-4">{strings.actNow}</h2>
+            <p className="text-lg mb-6 opacity-90">{generatedCopy.urgency}</p>
+            <Button size="lg" variant="secondary" className="px-8 py-4 text-lg">
+              <ShoppingCart className="w-5 h-5 mr-2" />
+              {ctas.final}
+            </Button>
+            <p className="text-sm mt-4 opacity-75">{generatedCopy.guarantee}</p>
+          </div>
+        </div>
+      </section>
+    </div>
+  );
+
+  const renderFreebiePage = () => (
+    <div className="space-y-8">
+      {/* Hero Section */}
+      <section 
+        className="relative min-h-screen flex items-center justify-center bg-cover bg-center"
+        style={{ backgroundImage: `linear-gradient(rgba(0,0,0,0.3), rgba(0,0,0,0.3)), url(${selectedImages.hero})` }}
+      >
+        <div className="container mx-auto px-4">
+          <div className="max-w-4xl mx-auto grid grid-cols-1 lg:grid-cols-2 gap-8 items-center">
+            <div className="text-white">
+              <h1 className="text-4xl md:text-5xl font-bold mb-4">
+                {generatedCopy.headline}
+              </h1>
+              <p className="text-xl mb-6 opacity-90">
+                {generatedCopy.subheadline}
+              </p>
+              <div className="prose text-white/80 mb-8">
+                {generatedCopy.heroText.split('\n').slice(0, 2).map((line: string, index: number) => (
+                  <p key={index}>{line}</p>
+                ))}
+              </div>
+            </div>
+            
+            {/* Opt-in Form */}
+            <Card className="p-8 bg-white">
+              <h3 className="text-2xl font-bold mb-4 text-center">{strings.freeDownload}</h3>
+              <div className="space-y-4">
+                <input 
+                  type="text" 
+                  placeholder={strings.namePlaceholder}
+                  className="w-full p-3 border rounded-lg"
+                />
+                <input 
+                  type="email" 
+                  placeholder={strings.emailPlaceholder}
+                  className="w-full p-3 border rounded-lg"
+                />
+                <Button className="w-full" size="lg">
+                  <Download className="w-5 h-5 mr-2" />
+                  {strings.downloadFree}
+                </Button>
+                <p className="text-xs text-center text-muted-foreground">
+                  {strings.noSpam}
+                </p>
+              </div>
+            </Card>
+          </div>
+        </div>
+      </section>
+
+      {renderBlocks({
+        benefits: () => benefits.length > 0 && (
+          <section className="py-16">
+            <div className="container mx-auto px-4">
+              <h2 className="text-3xl font-bold text-center mb-12">{getHeading('benefits', 'whatYouGetInside')}</h2>
+              {layout.benefitsStyle === 'steps' ? renderBenefitSteps() : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+                  {benefits.map((benefit, index) => (
+                    <div key={index} className="text-center p-6 bg-muted/30 rounded-lg">
+                      <div className="w-12 h-12 bg-primary rounded-full flex items-center justify-center mx-auto mb-4">
+                        <CheckCircle className="w-6 h-6 text-primary-foreground" />
+                      </div>
+                      <p className="font-medium">{benefit}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </section>
+        ),
+        proof: () => hasProof && (
+          <section className="py-16 bg-muted/20">
+            <div className="container mx-auto px-4 text-center">
+              <h2 className="text-3xl font-bold mb-8">{getHeading('proof', 'joinThousands')}</h2>
+              <div className="max-w-2xl mx-auto bg-white p-8 rounded-lg">
+                <div className="prose mx-auto">
+                  {generatedCopy.socialProof.split('\n').map((line: string, index: number) => (
+                    <p key={index} className="mb-2">{line}</p>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </section>
+        ),
+        objections: renderObjections
+      })}
+    </div>
+  );
+
+  const renderProductPage = () => (
+    <div className="space-y-8">
+      {/* Hero Product Section */}
+      <section className="py-16">
+        <div className="container mx-auto px-4">
+          <div className="max-w-6xl mx-auto grid grid-cols-1 lg:grid-cols-2 gap-12 items-center">
+            <div>
+              <h1 className="text-4xl md:text-5xl font-bold mb-4">
+                {generatedCopy.headline}
+              </h1>
+              <p className="text-xl mb-6 text-muted-foreground">
+                {generatedCopy.subheadline}
+              </p>
+              <div className="prose mb-8">
+                {generatedCopy.heroText.split('\n').slice(0, 3).map((line: string, index: number) => (
+                  <p key={index}>{line}</p>
+                ))}
+              </div>
+              <Button size="lg" className="px-8 py-4 text-lg">
+                <ShoppingCart className="w-5 h-5 mr-2" />
+                {ctas.hero}
+              </Button>
+            </div>
+            <div className="relative">
+              <img 
+                src={selectedImages.hero} 
+                alt={strings.productImageAlt}
+                className="w-full rounded-lg shadow-2xl"
+              />
+            </div>
+          </div>
+        </div>
+      </section>
+
+      {renderBlocks({
+        benefits: () => benefits.length > 0 && (
+          <section className="py-16 bg-muted/20">
+            <div className="container mx-auto px-4">
+              <h2 className="text-3xl font-bold text-center mb-12">{getHeading('benefits', 'keyBenefits')}</h2>
+              {layout.benefitsStyle === 'steps' ? renderBenefitSteps() : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+                  {benefits.map((benefit, index) => (
+                    <Card key={index} className="p-6 text-center">
+                      <div className="w-12 h-12 bg-primary rounded-full flex items-center justify-center mx-auto mb-4">
+                        <span className="text-primary-foreground font-bold">{index + 1}</span>
+                      </div>
+                      <h3 className="font-semibold mb-2">{strings.benefit} {index + 1}</h3>
+                      <p className="text-sm text-muted-foreground">{benefit}</p>
+                    </Card>
+                  ))}
+                </div>
+              )}
+              <div className="text-center mt-12">
+                <Button size="lg" variant="outline" className="px-8 py-4 text-lg">
+                  {ctas.middle}
+                </Button>
+              </div>
+            </div>
+          </section>
+        ),
+        proof: () => hasProof && (
+          <section className="py-16">
+            <div className="container mx-auto px-4">
+              <h2 className="text-3xl font-bold text-center mb-12">{getHeading('proof', 'customerReviews')}</h2>
+              <div className="max-w-4xl mx-auto">
+                <Card className="p-8 text-center">
+                  <Quote className="w-8 h-8 text-primary mx-auto mb-4" />
+                  <div className="prose mx-auto mb-6">
+                    {generatedCopy.socialProof.split('\n').map((line: string, index: number) => (
+                      <p key={index}>{line}</p>
+                    ))}
+                  </div>
+                  <div className="flex justify-center mb-4">
+                    {[1,2,3,4,5].map((star) => (
+                      <Star key={star} className="w-5 h-5 text-yellow-400 fill-current" />
+                    ))}
+                  </div>
+                </Card>
+              </div>
+            </div>
+          </section>
+        ),
+        objections: renderObjections
+      })}
+
+      {/* Final CTA */}
+      <section className="py-16 bg-primary text-primary-foreground">
+        <div className="container mx-auto px-4 text-center">
+          <h2 className="text-3xl font-bold mb-4">{strings.readyToStart}</h2>
+          <p className="text-lg mb-6 opacity-90">{generatedCopy.urgency}</p>
+          <Button size="lg" variant="secondary" className="px-8 py-4 text-lg mb-4">
+            <ShoppingCart className="w-5 h-5 mr-2" />
+            {ctas.final}
+          </Button>
+          <p className="text-sm opacity-75">{generatedCopy.guarantee}</p>
+        </div>
+      </section>
+    </div>
+  );
+
+  switch (pageType) {
+    case 'freebie': return renderFreebiePage();
+    case 'product': return renderProductPage();
+    default: return renderVSLPage();
+  }
+};
@@ -2,7 +2,8 @@ import { useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Video, Download, ShoppingBag, Sparkles } from 'lucide-react';
+import { COPY_FRAMEWORKS, DEFAULT_COPY_FRAMEWORK, type CopyFrameworkId } from '@/lib/copy-frameworks';
+import { Video, Download, ShoppingBag, Sparkles, Layers } from 'lucide-react';
 
 interface PageTypeOption {
   type: 'vsl' | 'freebie' | 'product';
@@ -14,11 +15,18 @@ interface PageTypeOption {
 }
 
 interface PageTypeSelectorProps {
-  onSelect: (type: string) => void;
+  initialType?: string;
+  initialFramework?: CopyFrameworkId;
+  onSelect: (type: string, framework: CopyFrameworkId) => void;
 }
 
-export const PageTypeSelector = ({ onSelect }: PageTypeSelectorProps) => {
-  const [selectedType, setSelectedType] = useState<string | null>(null);
+// Stage names in order, without the repeats frameworks have for multi-section stages
+const getFrameworkStages = (id: CopyFrameworkId) =>
+  [...new Set(COPY_FRAMEWORKS[id].sections.map(item => item.stage).filter(Boolean))];
+
+export const PageTypeSelector = ({ initialType, initialFramework, onSelect }: PageTypeSelectorProps) => {
+  const [selectedType, setSelectedType] = useState<string | null>(initialType || null);
+  const [selectedFramework, setSelectedFramework] = useState<CopyFrameworkId>(initialFramework || DEFAULT_COPY_FRAMEWORK);
 
   const pageTypes: PageTypeOption[] = [
     {
@@ -68,7 +76,7 @@ export const PageTypeSelector = ({ onSelect }: PageTypeSelectorProps) => {
 
   const handleContinue = () => {
     if (selectedType) {
-      onSelect(selectedType);
+      onSelect(selectedType, selectedFramework);
     }
   };
 
@@ -132,10 +140,52 @@ export const PageTypeSelector = ({ onSelect }: PageTypeSelectorProps) => {
         ))}
       </div>
 
+      <div className="space-y-4">
+        <div className="text-center space-y-1">
+          <h3 className="text-lg font-semibold flex items-center justify-center gap-2">
+            <Layers className="w-5 h-5 text-primary" />
+            Copywriting Framework
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            Decides which sections get written and how each one is prompted
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3">
+          {(Object.keys(COPY_FRAMEWORKS) as CopyFrameworkId[]).map(id => {
+            const framework = COPY_FRAMEWORKS[id];
+            const stages = getFrameworkStages(id);
+            return (
+              <Card
+                key={id}
+                className={`p-4 cursor-pointer transition-all duration-300 ${
+                  selectedFramework === id
+                    ? 'border-primary bg-primary/5 shadow-glow'
+                    : 'border-primary/20 hover:border-primary/40'
+                }`}
+                onClick={() => setSelectedFramework(id)}
+              >
+                <div className="space-y-2">
+                  <h4 className="font-semibold">{framework.name}</h4>
+                  <p className="text-xs text-muted-foreground">{framework.description}</p>
+                  {stages.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {stages.map(stage => (
+                        <Badge key={stage} variant="outline" className="text-[10px]">{stage}</Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </Card>
+            );
+          })}
+        </div>
+      </div>
+
       {selectedType && (
         <div className="flex justify-center">
           <Button onClick={handleContinue} variant="hero" size="lg">
-            Generate Copy for {pageTypes.find(p => p.type === selectedType)?.title}
+            Generate {COPY_FRAMEWORKS[selectedFramework].name} Copy for {pageTypes.find(p => p.type === selectedType)?.title}
           </Button>
         </div>
       )}
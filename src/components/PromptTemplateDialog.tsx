@@ -0,0 +1,214 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  findUnknownVariables,
+  formatTemplateVersion,
+  listVariablePaths,
+  type PromptTemplate,
+  type PromptTemplateGroup,
+  type PromptTemplateVersion,
+  type PromptVariables
+} from '@/lib/prompt-templates';
+import { AlertTriangle, RotateCcw } from 'lucide-react';
+
+interface PromptTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  templates: PromptTemplate[];
+  initialTemplateId?: string;
+  // Sample values per group, from the current project
+  previewVariables: Record<PromptTemplateGroup, PromptVariables>;
+  // The full prompt the model would get if `body` were saved
+  renderPreview: (template: PromptTemplate, body: string) => string;
+  listVersions: (id: string) => PromptTemplateVersion[];
+  onSave: (id: string, body: string) => void;
+}
+
+const GROUP_LABELS: Record<PromptTemplateGroup, string> = {
+  analysis: 'Product Analysis',
+  copy: 'Copy Generation'
+};
+
+export const PromptTemplateDialog = ({
+  open,
+  onOpenChange,
+  templates,
+  initialTemplateId,
+  previewVariables,
+  renderPreview,
+  listVersions,
+  onSave
+}: PromptTemplateDialogProps) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+
+  const selected = templates.find(template => template.id === selectedId) || null;
+  const versions = selected ? listVersions(selected.id) : [];
+  const builtIn = versions.find(version => version.savedAt === 0);
+  // Saves are numbered above every version listed, built-in or saved
+  const nextVersion = Math.max(0, ...versions.map(version => version.version)) + 1;
+
+  // Read when the dialog opens; saving must not reset the selection
+  const templatesRef = useRef(templates);
+  templatesRef.current = templates;
+  const initialTemplateIdRef = useRef(initialTemplateId);
+  initialTemplateIdRef.current = initialTemplateId;
+
+  const selectTemplate = useCallback((template: PromptTemplate) => {
+    setSelectedId(template.id);
+    setDraft(template.body);
+  }, []);
+
+  // Open on the template the writer asked about, or the first one
+  useEffect(() => {
+    if (!open) return;
+    const initial = templatesRef.current.find(template => template.id === initialTemplateIdRef.current) || templatesRef.current[0];
+    if (initial) selectTemplate(initial);
+  }, [open, selectTemplate]);
+
+  const variables = selected ? previewVariables[selected.group] : {};
+  const unknownVariables = findUnknownVariables(draft, variables);
+  const isDirty = !!selected && draft !== selected.body;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Prompt Templates</DialogTitle>
+          <DialogDescription>
+            Edits are shared by all projects in this browser. Every save becomes a new version, and each generated
+            section records the version it was written with.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-[220px_1fr] gap-6">
+          <div className="space-y-4">
+            {(Object.keys(GROUP_LABELS) as PromptTemplateGroup[]).map(group => (
+              <div key={group} className="space-y-1">
+                <h4 className="text-xs font-medium text-muted-foreground uppercase">{GROUP_LABELS[group]}</h4>
+                {templates.filter(template => template.group === group).map(template => (
+                  <Button
+                    key={template.id}
+                    variant={template.id === selectedId ? 'secondary' : 'ghost'}
+                    size="sm"
+                    className="w-full justify-between"
+                    onClick={() => selectTemplate(template)}
+                  >
+                    <span className="truncate">{template.name}</span>
+                    <span className="text-xs text-muted-foreground flex-shrink-0 flex items-center gap-1">
+                      {template.isOutdated && (
+                        <AlertTriangle className="w-3 h-3 text-warning" aria-label="Built-in text changed since this edit" />
+                      )}
+                      v{template.version}
+                    </span>
+                  </Button>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          {selected && (
+            <div className="space-y-4 min-w-0">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div>
+                  <h3 className="font-medium">{selected.name}</h3>
+                  {selected.description && (
+                    <p className="text-xs text-muted-foreground">{selected.description}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant={selected.isDefault ? 'secondary' : 'default'}>
+                    {selected.isDefault ? 'Built-in' : 'Edited'} · v{selected.version}
+                  </Badge>
+                  <select
+                    aria-label="Load a previous version"
+                    value=""
+                    onChange={(e) => {
+                      const version = versions[Number(e.target.value)];
+                      if (version) setDraft(version.body);
+                    }}
+                    className="p-1 border border-input rounded-md bg-background text-foreground text-xs"
+                  >
+                    <option value="">Load version…</option>
+                    {versions.map((version, index) => (
+                      <option key={`${version.version}-${version.savedAt}`} value={index}>
+                        {formatTemplateVersion(version)}{version.savedAt > 0 && ` ${new Date(version.savedAt).toLocaleString()}`}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {selected.isOutdated && builtIn && (
+                <div className="flex flex-wrap items-center justify-between gap-2 p-3 rounded-md border border-warning/50 bg-warning/10">
+                  <p className="text-xs flex items-start gap-1">
+                    <AlertTriangle className="w-3 h-3 flex-shrink-0 mt-0.5 text-warning" />
+                    This edit was saved over an older built-in text. The built-in prompt is now v{builtIn.version} and this edit
+                    doesn't include its changes.
+                  </p>
+                  <Button variant="outline" size="sm" onClick={() => onSave(selected.id, builtIn.body)}>
+                    Use Built-in v{builtIn.version}
+                  </Button>
+                </div>
+              )}
+
+              <Textarea
+                aria-label={`${selected.name} template`}
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                rows={12}
+                className="font-mono text-xs"
+              />
+
+              {unknownVariables.length > 0 && (
+                <p className="text-xs text-destructive flex items-start gap-1">
+                  <AlertTriangle className="w-3 h-3 flex-shrink-0 mt-0.5" />
+                  Unknown variables render empty: {unknownVariables.map(path => `{{${path}}}`).join(', ')}
+                </p>
+              )}
+
+              <div className="space-y-1">
+                <h4 className="text-xs font-medium text-muted-foreground">Available Variables</h4>
+                <div className="flex flex-wrap gap-1">
+                  {listVariablePaths(variables).map(path => (
+                    <code key={path} className="text-xs bg-muted px-1.5 py-0.5 rounded">{`{{${path}}}`}</code>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <h4 className="text-xs font-medium text-muted-foreground">Preview With This Project</h4>
+                <pre className="text-xs whitespace-pre-wrap bg-muted/50 border rounded-md p-3 max-h-64 overflow-y-auto">
+                  {renderPreview(selected, draft)}
+                </pre>
+              </div>
+
+              <div className="flex flex-wrap justify-between gap-2 pt-2 border-t">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setDraft(versions[0]?.body ?? selected.body)}
+                  disabled={draft === versions[0]?.body}
+                >
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Load Built-in Text
+                </Button>
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={() => setDraft(selected.body)} disabled={!isDirty}>
+                    Discard
+                  </Button>
+                  <Button onClick={() => onSave(selected.id, draft)} disabled={!isDirty}>
+                    Save as v{nextVersion}
+                  </Button>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
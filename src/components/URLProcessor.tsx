@@ -1,16 +1,19 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/hooks/use-toast';
-import { CheckCircle, AlertCircle, Loader2, Globe, Key } from 'lucide-react';
+import { CheckCircle, AlertCircle, Loader2, Globe, Key, ArrowUp, ArrowDown } from 'lucide-react';
 import { FirecrawlService } from '@/utils/FirecrawlService';
-import { PerplexityService } from '@/utils/PerplexityService';
-import { OpenRouterService } from '@/utils/OpenRouterService';
+import { LLMService, LLM_TASK_LABELS, MAX_COPY_CONCURRENCY, type LLMTask } from '@/utils/LLMService';
+import type { LLMModel, LLMProviderId } from '@/utils/LLMProvider';
 import { ApifyService } from '@/utils/ApifyService';
 import { IntelligentScraper } from '@/utils/IntelligentScraper';
 import { ContentAnalyzer, type ProductData } from '@/utils/ContentAnalyzer';
+import type { SourceContent } from '@/utils/ProjectStore';
+import { isMockMode } from '@/lib/dev-flags';
 
 interface URLValidation {
   isValid: boolean;
@@ -19,24 +22,75 @@ interface URLValidation {
   errorMessage?: string;
 }
 
+const PROVIDER_SIGNUP_LINKS: Partial<Record<LLMProviderId, { href: string; label: string }>> = {
+  openrouter: { href: 'https://openrouter.ai', label: 'openrouter.ai' },
+  perplexity: { href: 'https://perplexity.ai', label: 'perplexity.ai' }
+};
+
+const LLM_TASKS = Object.keys(LLM_TASK_LABELS) as LLMTask[];
+
+const readProviderSettings = <T,>(read: (providerId: LLMProviderId) => T) =>
+  Object.fromEntries(LLMService.getProviderOrder().map(id => [id, read(id)])) as Record<LLMProviderId, T>;
+
 interface URLProcessorProps {
-  onProcessingComplete: (data: any) => void;
+  onProcessingComplete: (data: any, source: SourceContent) => void;
 }
 
 export const URLProcessor = ({ onProcessingComplete }: URLProcessorProps) => {
   const [url, setUrl] = useState('');
   const [firecrawlApiKey, setFirecrawlApiKey] = useState(FirecrawlService.getApiKey() || '');
-  const [perplexityApiKey, setPerplexityApiKey] = useState(PerplexityService.getApiKey() || '');
-  const [openRouterApiKey, setOpenRouterApiKey] = useState(OpenRouterService.getApiKey() || '');
-  const [selectedModel, setSelectedModel] = useState('openai/gpt-4');
+  const [llmApiKeys, setLlmApiKeys] = useState(() =>
+    readProviderSettings(id => LLMService.getProvider(id).getApiKey() || '')
+  );
+  const [localBaseUrl, setLocalBaseUrl] = useState(LLMService.getProvider('local').getBaseUrl() || '');
+  const [providerOrder, setProviderOrder] = useState(LLMService.getProviderOrder());
+  const [localOnly, setLocalOnly] = useState(LLMService.isLocalOnly());
+  const [taskModels, setTaskModels] = useState(() =>
+    Object.fromEntries(LLM_TASKS.map(task => [task, readProviderSettings(id => LLMService.getTaskModel(task, id))])) as Record<LLMTask, Record<LLMProviderId, string>>
+  );
+  const [copyConcurrency, setCopyConcurrency] = useState(LLMService.getCopyConcurrency());
+  const [providerModels, setProviderModels] = useState<Partial<Record<LLMProviderId, LLMModel[]>>>({});
   const [apifyToken, setApifyToken] = useState(ApifyService.getApiToken() || '');
   const [preferredService, setPreferredService] = useState<'auto' | 'firecrawl' | 'apify'>('auto');
   const [isProcessing, setIsProcessing] = useState(false);
   const [validation, setValidation] = useState<URLValidation | null>(null);
   const [progress, setProgress] = useState(0);
-  const [showApiKeyInput, setShowApiKeyInput] = useState(!FirecrawlService.getApiKey() || (!PerplexityService.getApiKey() && !OpenRouterService.getApiKey()));
+  const mockMode = isMockMode();
+  const [showApiKeyInput, setShowApiKeyInput] = useState(!mockMode && (!FirecrawlService.getApiKey() || !LLMService.hasConfiguredProvider()));
   const { toast } = useToast();
 
+  // The local provider is usable with just a base URL; cloud providers need a key
+  const isProviderEntered = (id: LLMProviderId) =>
+    id === 'local' ? !!localBaseUrl.trim() : !!llmApiKeys[id].trim();
+
+  const configuredProviderIds = providerOrder.filter(isProviderEntered).join(',');
+
+  // Load model lists for providers that have a key so tasks can pick from them
+  useEffect(() => {
+    if (!showApiKeyInput) return;
+    configuredProviderIds.split(',').filter(Boolean).forEach(id => {
+      const providerId = id as LLMProviderId;
+      // A local server can only be queried once its base URL has been saved
+      if (providerModels[providerId] || (providerId === 'local' && !LLMService.getProvider('local').isConfigured())) return;
+      LLMService.getProvider(providerId).listModels().then(models => {
+        setProviderModels(prev => ({ ...prev, [providerId]: models }));
+      });
+    });
+  }, [showApiKeyInput, configuredProviderIds, providerModels]);
+
+  const moveProvider = (index: number, offset: number) => {
+    const next = [...providerOrder];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setProviderOrder(next);
+  };
+
+  const getModelOptions = (providerId: LLMProviderId, selected: string): LLMModel[] => {
+    const models = providerModels[providerId] || [];
+    return models.some(model => model.id === selected)
+      ? models
+      : [{ id: selected, name: selected, description: 'Current model' }, ...models];
+  };
+
   console.log('URLProcessor rendered - no apiKey reference should exist');
 
   const validateURL = (url: string): boolean => {
@@ -49,18 +103,19 @@ export const URLProcessor = ({ onProcessingComplete }: URLProcessorProps) => {
   };
 
   const saveApiKeys = () => {
-    const hasAiService = perplexityApiKey.trim() || openRouterApiKey.trim();
+    const hasAiService = localOnly ? isProviderEntered('local') : providerOrder.some(isProviderEntered);
     
     if (firecrawlApiKey.trim() && hasAiService) {
       FirecrawlService.saveApiKey(firecrawlApiKey.trim());
+      LLMService.getProvider('local').saveBaseUrl(localBaseUrl.trim());
       
-      if (perplexityApiKey.trim()) {
-        PerplexityService.saveApiKey(perplexityApiKey.trim());
-      }
-      
-      if (openRouterApiKey.trim()) {
-        OpenRouterService.saveApiKey(openRouterApiKey.trim());
-      }
+      providerOrder.forEach(id => {
+        LLMService.getProvider(id).saveApiKey(llmApiKeys[id].trim());
+        LLM_TASKS.forEach(task => LLMService.saveTaskModel(task, id, taskModels[task][id]));
+      });
+      LLMService.saveProviderOrder(providerOrder);
+      LLMService.saveLocalOnly(localOnly);
+      LLMService.saveCopyConcurrency(copyConcurrency);
       
       if (apifyToken.trim()) {
         ApifyService.saveApiToken(apifyToken.trim());
@@ -74,19 +129,19 @@ export const URLProcessor = ({ onProcessingComplete }: URLProcessorProps) => {
     } else {
       toast({
         title: "Missing API Keys",
-        description: "Please enter Firecrawl key and at least one AI service (Perplexity or OpenRouter)",
+        description: localOnly
+          ? "Please enter Firecrawl key and the local model base URL"
+          : "Please enter Firecrawl key and at least one AI service",
         variant: "destructive"
       });
     }
   };
 
   const processURL = async () => {
-    const hasAiService = PerplexityService.getApiKey() || OpenRouterService.getApiKey();
-    
-    if (!FirecrawlService.getApiKey() || !hasAiService) {
+    if (!mockMode && (!FirecrawlService.getApiKey() || !LLMService.hasConfiguredProvider())) {
       toast({
         title: "API Keys Required",
-        description: "Please enter Firecrawl key and at least one AI service (Perplexity or OpenRouter)",
+        description: "Please enter Firecrawl key and at least one AI service",
         variant: "destructive"
       });
       setShowApiKeyInput(true);
@@ -164,7 +219,11 @@ export const URLProcessor = ({ onProcessingComplete }: URLProcessorProps) => {
 
         setTimeout(() => {
           console.log('About to call onProcessingComplete with data:', productData);
-          onProcessingComplete(productData);
+          onProcessingComplete(productData, {
+            url,
+            markdown: scrapeResult.data?.markdown || '',
+            scrapedAt: Date.now()
+          });
           toast({
             title: "Analysis Complete",
             description: `Extracted using ${scrapeResult.method} with ${Math.round((scrapeResult.qualityScore || 0) * 100)}% quality score`,
@@ -204,6 +263,12 @@ export const URLProcessor = ({ onProcessingComplete }: URLProcessorProps) => {
         </div>
 
         <div className="space-y-4">
+          {mockMode && (
+            <div className="p-3 rounded-lg border border-warning/30 bg-warning/10 text-sm">
+              Mock providers are enabled. Scraping and AI responses are replayed from recorded fixtures.
+            </div>
+          )}
+
           {showApiKeyInput && (
             <div className="space-y-4 p-4 bg-muted/50 rounded-lg border">
               <div className="space-y-2">
@@ -226,69 +291,152 @@ export const URLProcessor = ({ onProcessingComplete }: URLProcessorProps) => {
                 </p>
               </div>
               
-              <div className="space-y-2">
-                <label htmlFor="perplexityApiKey" className="text-sm font-medium flex items-center gap-2">
-                  <Key className="w-4 h-4" />
-                  Perplexity API Key (Optional)
-                </label>
-                <Input
-                  id="perplexityApiKey"
-                  type="password"
-                  value={perplexityApiKey}
-                  onChange={(e) => setPerplexityApiKey(e.target.value)}
-                  placeholder="Enter your Perplexity API key"
-                />
-                <p className="text-xs text-muted-foreground">
-                  Get your API key from{' '}
-                  <a href="https://perplexity.ai" target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
-                    perplexity.ai
-                  </a>
-                </p>
+              <div className="space-y-3">
+                <div>
+                  <p className="text-sm font-medium">AI Providers</p>
+                  <p className="text-xs text-muted-foreground">
+                    At least one is required. Providers are tried top to bottom until one responds.
+                  </p>
+                </div>
+                {providerOrder.map((id, index) => {
+                  const provider = LLMService.getProvider(id);
+                  const link = PROVIDER_SIGNUP_LINKS[id];
+
+                  return (
+                    <div key={id} className="space-y-2 p-3 rounded-md border bg-background/50">
+                      <div className="flex items-center justify-between">
+                        <label htmlFor={id === 'local' ? 'localBaseUrl' : `${id}ApiKey`} className="text-sm font-medium flex items-center gap-2">
+                          <Key className="w-4 h-4" />
+                          {index + 1}. {id === 'local' ? `${provider.name} Base URL` : `${provider.name} API Key`}
+                        </label>
+                        <div className="flex">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => moveProvider(index, -1)}
+                            disabled={index === 0}
+                            title="Try earlier"
+                          >
+                            <ArrowUp className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => moveProvider(index, 1)}
+                            disabled={index === providerOrder.length - 1}
+                            title="Try later"
+                          >
+                            <ArrowDown className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </div>
+                      {id === 'local' && (
+                        <>
+                          <Input
+                            id="localBaseUrl"
+                            type="url"
+                            value={localBaseUrl}
+                            onChange={(e) => setLocalBaseUrl(e.target.value)}
+                            placeholder="http://localhost:11434/v1"
+                          />
+                          <p className="text-xs text-muted-foreground">
+                            Any OpenAI-compatible server (Ollama, llama.cpp, LM Studio). Page content is only sent to this URL.
+                          </p>
+                          <div className="flex items-center gap-2">
+                            <Switch id="localOnly" checked={localOnly} onCheckedChange={setLocalOnly} />
+                            <label htmlFor="localOnly" className="text-xs text-muted-foreground">
+                              Local only: never fall back to the cloud providers, even if the local model fails
+                            </label>
+                          </div>
+                        </>
+                      )}
+                      <Input
+                        id={`${id}ApiKey`}
+                        type="password"
+                        value={llmApiKeys[id]}
+                        onChange={(e) => setLlmApiKeys(prev => ({ ...prev, [id]: e.target.value }))}
+                        placeholder={id === 'local' ? 'API key (only if your server requires one)' : `Enter your ${provider.name} API key`}
+                      />
+                      {link && (
+                        <p className="text-xs text-muted-foreground">
+                          Get your API key from{' '}
+                          <a href={link.href} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
+                            {link.label}
+                          </a>
+                        </p>
+                      )}
+
+                      {isProviderEntered(id) && (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                          {LLM_TASKS.map(task => (
+                            <div key={task} className="space-y-1">
+                              <label htmlFor={`${id}-${task}-model`} className="text-xs font-medium text-muted-foreground">
+                                {LLM_TASK_LABELS[task]} Model
+                              </label>
+                              {id === 'local' ? (
+                                <>
+                                  <Input
+                                    id={`${id}-${task}-model`}
+                                    list={`${id}-models`}
+                                    value={taskModels[task][id]}
+                                    onChange={(e) => setTaskModels(prev => ({
+                                      ...prev,
+                                      [task]: { ...prev[task], [id]: e.target.value }
+                                    }))}
+                                    placeholder="Model name, e.g. llama3.1"
+                                  />
+                                  <datalist id={`${id}-models`}>
+                                    {(providerModels[id] || []).map(model => (
+                                      <option key={model.id} value={model.id} />
+                                    ))}
+                                  </datalist>
+                                </>
+                              ) : (
+                                <select
+                                  id={`${id}-${task}-model`}
+                                  value={taskModels[task][id]}
+                                  onChange={(e) => setTaskModels(prev => ({
+                                    ...prev,
+                                    [task]: { ...prev[task], [id]: e.target.value }
+                                  }))}
+                                  className="w-full p-2 border border-input rounded-md bg-background text-foreground text-sm"
+                                >
+                                  {getModelOptions(id, taskModels[task][id]).map((model) => (
+                                    <option key={model.id} value={model.id}>
+                                      {model.name}{model.description && ` - ${model.description}`}
+                                    </option>
+                                  ))}
+                                </select>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
               </div>
-              
+
               <div className="space-y-2">
-                <label htmlFor="openRouterApiKey" className="text-sm font-medium flex items-center gap-2">
-                  <Key className="w-4 h-4" />
-                  OpenRouter API Key (Optional)
+                <label htmlFor="copyConcurrency" className="text-sm font-medium">
+                  Parallel Copy Requests
                 </label>
                 <Input
-                  id="openRouterApiKey"
-                  type="password"
-                  value={openRouterApiKey}
-                  onChange={(e) => setOpenRouterApiKey(e.target.value)}
-                  placeholder="Enter your OpenRouter API key"
+                  id="copyConcurrency"
+                  type="number"
+                  min={1}
+                  max={MAX_COPY_CONCURRENCY}
+                  value={copyConcurrency}
+                  onChange={(e) => setCopyConcurrency(
+                    Math.min(MAX_COPY_CONCURRENCY, Math.max(1, parseInt(e.target.value, 10) || 1))
+                  )}
+                  className="w-24"
                 />
                 <p className="text-xs text-muted-foreground">
-                  Get your API key from{' '}
-                  <a href="https://openrouter.ai" target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
-                    openrouter.ai
-                  </a>
+                  How many page sections are written at once. Lower it if your provider rate-limits you or a local server is slow.
                 </p>
               </div>
               
-              {openRouterApiKey && (
-                <div className="space-y-2">
-                  <label htmlFor="selectedModel" className="text-sm font-medium">
-                    OpenRouter Model
-                  </label>
-                  <select
-                    id="selectedModel"
-                    value={selectedModel}
-                    onChange={(e) => setSelectedModel(e.target.value)}
-                    className="w-full p-2 border border-input rounded-md bg-background text-foreground"
-                  >
-                    {OpenRouterService.getAvailableModels().map((model) => (
-                      <option key={model.id} value={model.id}>
-                        {model.name} - {model.description}
-                      </option>
-                    ))}
-                  </select>
-                  <p className="text-xs text-muted-foreground">
-                    Choose the AI model for content analysis
-                  </p>
-                </div>
-              )}
-              
               <div className="space-y-2">
                 <label htmlFor="apifyToken" className="text-sm font-medium flex items-center gap-2">
                   <Key className="w-4 h-4" />
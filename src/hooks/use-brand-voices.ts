@@ -0,0 +1,24 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { BrandVoiceProfile } from '@/lib/brand-voice';
+import { BrandVoiceStore } from '@/utils/BrandVoiceStore';
+
+/** The saved brand voice profiles, kept in sync across components and tabs. */
+export function useBrandVoices() {
+  const [profiles, setProfiles] = useState(() => BrandVoiceStore.listProfiles());
+
+  useEffect(() => {
+    const reload = () => setProfiles(BrandVoiceStore.listProfiles());
+    window.addEventListener(BrandVoiceStore.CHANGE_EVENT, reload);
+    // Another tab saved a profile
+    window.addEventListener('storage', reload);
+    return () => {
+      window.removeEventListener(BrandVoiceStore.CHANGE_EVENT, reload);
+      window.removeEventListener('storage', reload);
+    };
+  }, []);
+
+  const saveProfile = useCallback((profile: BrandVoiceProfile) => BrandVoiceStore.saveProfile(profile), []);
+  const deleteProfile = useCallback((id: string) => BrandVoiceStore.deleteProfile(id), []);
+
+  return { profiles, saveProfile, deleteProfile };
+}
@@ -0,0 +1,140 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Project, ProjectSnapshot } from '@/utils/ProjectStore';
+import {
+  EMPTY_HISTORY,
+  pickChanges,
+  pushCommand,
+  type ChangeDescription,
+  type HistoryState,
+  type ProjectChanges
+} from '@/lib/history';
+
+const isModifierShortcut = (event: KeyboardEvent) =>
+  (event.ctrlKey || event.metaKey) && !event.altKey;
+
+// Fields keep their own text undo, and a dialog's shortcuts shouldn't reach the project behind it
+const isOwnedElsewhere = (event: KeyboardEvent) => {
+  const target = event.target;
+  if (!(target instanceof HTMLElement)) return false;
+  return target instanceof HTMLInputElement
+    || target instanceof HTMLTextAreaElement
+    || target instanceof HTMLSelectElement
+    || target.isContentEditable
+    || !!target.closest('[role="dialog"], [role="alertdialog"]');
+};
+
+/**
+ * Command-based undo/redo over project edits, plus named snapshots that are
+ * saved with the project. Every recorded change goes through `execute`, which
+ * captures the previous values of the fields it touches.
+ */
+export function useProjectHistory(
+  project: Project | null,
+  updateProject: (changes: ProjectChanges) => void
+) {
+  const [history, setHistory] = useState<HistoryState>(EMPTY_HISTORY);
+  const projectRef = useRef(project);
+  projectRef.current = project;
+
+  // A different project starts with a clean history
+  useEffect(() => {
+    setHistory(EMPTY_HISTORY);
+  }, [project?.id]);
+
+  const execute = useCallback((changes: ProjectChanges, { label, mergeKey }: ChangeDescription) => {
+    const current = projectRef.current;
+    if (!current) return;
+
+    const before = pickChanges(current, Object.keys(changes));
+    updateProject(changes);
+    setHistory(prev => pushCommand(prev, { label, before, after: changes, mergeKey, timestamp: Date.now() }));
+  }, [updateProject]);
+
+  const undo = useCallback(() => {
+    const command = history.past[history.past.length - 1];
+    if (!command) return;
+
+    updateProject(command.before);
+    setHistory({ past: history.past.slice(0, -1), future: [command, ...history.future] });
+  }, [history, updateProject]);
+
+  const redo = useCallback(() => {
+    const [command, ...future] = history.future;
+    if (!command) return;
+
+    updateProject(command.after);
+    setHistory({ past: [...history.past, command], future });
+  }, [history, updateProject]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!isModifierShortcut(event) || isOwnedElsewhere(event)) return;
+      const key = event.key.toLowerCase();
+
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  const createSnapshot = useCallback((name: string) => {
+    const current = projectRef.current;
+    if (!current) return;
+
+    const snapshot: ProjectSnapshot = {
+      id: crypto.randomUUID(),
+      name: name.trim() || `Snapshot ${(current.snapshots?.length || 0) + 1}`,
+      createdAt: Date.now(),
+      state: {
+        productData: current.productData,
+        sourceContent: current.sourceContent ?? null,
+        selectedPageType: current.selectedPageType,
+        copyFramework: current.copyFramework,
+        brandVoiceId: current.brandVoiceId ?? null,
+        copyLanguage: current.copyLanguage,
+        generatedCopy: current.generatedCopy,
+        selectedImages: current.selectedImages,
+        staleCopySections: current.staleCopySections || [],
+        staleImageSlots: current.staleImageSlots || [],
+        lockedCopySections: current.lockedCopySections || [],
+        copyVariants: current.copyVariants || {},
+        copyPromptVersions: current.copyPromptVersions || {}
+      }
+    };
+    updateProject({ snapshots: [snapshot, ...(current.snapshots || [])] });
+  }, [updateProject]);
+
+  const restoreSnapshot = useCallback((snapshotId: string) => {
+    const snapshot = projectRef.current?.snapshots?.find(item => item.id === snapshotId);
+    if (!snapshot) return;
+
+    execute(snapshot.state, { label: `Restore "${snapshot.name}"` });
+  }, [execute]);
+
+  const deleteSnapshot = useCallback((snapshotId: string) => {
+    const current = projectRef.current;
+    if (!current) return;
+
+    updateProject({ snapshots: (current.snapshots || []).filter(item => item.id !== snapshotId) });
+  }, [updateProject]);
+
+  return {
+    execute,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    undoLabel: history.past[history.past.length - 1]?.label,
+    redoLabel: history.future[0]?.label,
+    createSnapshot,
+    restoreSnapshot,
+    deleteSnapshot
+  };
+}
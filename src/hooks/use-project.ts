@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ProjectStore, type Project } from '@/utils/ProjectStore';
+
+/**
+ * Loads a saved project (or starts a fresh one when no id is given) and
+ * autosaves it to IndexedDB whenever it is updated.
+ */
+export function useProject(projectId?: string) {
+  const [project, setProject] = useState<Project | null>(null);
+  // The route id the project was created or loaded for; null before the first load
+  const [loadedFor, setLoadedFor] = useState<string | undefined | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+  const isDirty = useRef(false);
+
+  // Until another id has loaded, the previous project must not stand in for it.
+  // A new project matches once the URL catches up with the id it was saved under
+  const isCurrent = loadedFor === projectId || (!!project && project.id === projectId);
+  const currentProject = isCurrent ? project : null;
+  const projectRef = useRef<Project | null>(null);
+  projectRef.current = currentProject;
+
+  useEffect(() => {
+    // A new project gets its id before the first save; don't reload it once the URL catches up
+    if (projectRef.current && projectRef.current.id === projectId) {
+      setLoadedFor(projectId);
+      return;
+    }
+
+    if (!projectId) {
+      setProject(ProjectStore.createProject());
+      setLoadedFor(projectId);
+      setNotFound(false);
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    ProjectStore.getProject(projectId)
+      .then(saved => {
+        if (cancelled) return;
+        setProject(saved);
+        setLoadedFor(projectId);
+        setNotFound(!saved);
+        setLastSavedAt(saved?.updatedAt ?? null);
+      })
+      .catch(error => {
+        console.error('Failed to load project:', error);
+        if (cancelled) return;
+        setLoadedFor(projectId);
+        setNotFound(true);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  useEffect(() => {
+    if (!project || !isDirty.current) return;
+    isDirty.current = false;
+
+    ProjectStore.saveProject(project)
+      .then(saved => setLastSavedAt(saved.updatedAt))
+      .catch(error => console.error('Failed to autosave project:', error));
+  }, [project]);
+
+  const updateProject = useCallback((changes: Partial<Project>) => {
+    isDirty.current = true;
+    setProject(prev => (prev ? { ...prev, ...changes } : prev));
+  }, []);
+
+  // Saves immediately rather than on the next render, for changes that are followed by a navigation
+  const persistProject = useCallback(async (changes: Partial<Project>): Promise<Project> => {
+    if (!projectRef.current) throw new Error('No project loaded');
+
+    const saved = await ProjectStore.saveProject({ ...projectRef.current, ...changes });
+    projectRef.current = saved;
+    setProject(saved);
+    setLastSavedAt(saved.updatedAt);
+    return saved;
+  }, []);
+
+  return {
+    project: currentProject,
+    isLoading: isLoading || !isCurrent,
+    notFound: notFound && isCurrent,
+    lastSavedAt: isCurrent ? lastSavedAt : null,
+    updateProject,
+    persistProject
+  };
+}
@@ -0,0 +1,23 @@
+import { useCallback, useEffect, useState } from 'react';
+import { PromptTemplateStore } from '@/utils/PromptTemplateStore';
+
+/** The prompt templates in use, kept in sync across components and tabs. */
+export function usePromptTemplates() {
+  const [templates, setTemplates] = useState(() => PromptTemplateStore.listTemplates());
+
+  useEffect(() => {
+    const reload = () => setTemplates(PromptTemplateStore.listTemplates());
+    window.addEventListener(PromptTemplateStore.CHANGE_EVENT, reload);
+    // Another tab saved a template
+    window.addEventListener('storage', reload);
+    return () => {
+      window.removeEventListener(PromptTemplateStore.CHANGE_EVENT, reload);
+      window.removeEventListener('storage', reload);
+    };
+  }, []);
+
+  const saveTemplate = useCallback((id: string, body: string) => PromptTemplateStore.saveTemplate(id, body), []);
+  const listVersions = useCallback((id: string) => PromptTemplateStore.listVersions(id), []);
+
+  return { templates, saveTemplate, listVersions };
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { buildFaviconSvg, collectImageUrls, describeImageSource, getImageExtension, rewriteAssetUrls } from './asset-bundle';
+
+const HERO = 'https://images.unsplash.com/photo-1?w=800&h=600&fit=crop';
+const MARKUP = `<section style="background-image:linear-gradient(rgba(0,0,0,0.4), rgba(0,0,0,0.4)), url(${HERO.replace(/&/g, '&amp;')})">`
+  + `<img src="${HERO.replace(/&/g, '&amp;')}" alt="Product"/><img src="data:image/png;base64,AAAA"/></section>`;
+
+describe('collectImageUrls', () => {
+  it('finds img sources and inline style urls once each, decoded', () => {
+    expect(collectImageUrls(MARKUP)).toEqual([HERO, 'data:image/png;base64,AAAA']);
+  });
+});
+
+describe('rewriteAssetUrls', () => {
+  it('replaces escaped and raw occurrences', () => {
+    const rewritten = rewriteAssetUrls(MARKUP, new Map([[HERO, 'assets/image-1.jpg']]));
+    expect(rewritten).not.toContain('unsplash');
+    expect(rewritten.match(/assets\/image-1\.jpg/g)).toHaveLength(2);
+  });
+});
+
+describe('getImageExtension', () => {
+  it('prefers the response type, then the data url or path', () => {
+    expect(getImageExtension(HERO, 'image/jpeg')).toBe('jpg');
+    expect(getImageExtension('data:image/svg+xml;base64,AAAA')).toBe('svg');
+    expect(getImageExtension('https://cdn.example.com/hero.JPEG?v=2', '')).toBe('jpg');
+    expect(getImageExtension('https://cdn.example.com/hero')).toBe('img');
+  });
+});
+
+describe('describeImageSource', () => {
+  it('knows the stock photo licenses and flags everything else', () => {
+    expect(describeImageSource(HERO)).toMatchObject({ source: 'Unsplash', licenseUrl: 'https://unsplash.com/license' });
+    expect(describeImageSource('https://cdn.example.com/hero.jpg').license).toMatch(/^Unknown/);
+  });
+});
+
+describe('buildFaviconSvg', () => {
+  it('uses the first letter of the name', () => {
+    expect(buildFaviconSvg('zenSleep Pro')).toContain('>Z</text>');
+    expect(buildFaviconSvg('  ')).toContain('>L</text>');
+  });
+});
@@ -0,0 +1,101 @@
+export interface ImageSourceInfo {
+  source: string;
+  license: string;
+  licenseUrl?: string;
+}
+
+/** One image in the bundle, and where it came from so its license can be checked before publishing. */
+export interface BundledAsset extends ImageSourceInfo {
+  // Relative to index.html, e.g. `assets/image-1.jpg`
+  path: string;
+  sourceUrl: string;
+  bytes: number;
+}
+
+/** An image that couldn't be downloaded, usually because its host blocks cross-origin requests; the page keeps linking to it. */
+export interface HotlinkedAsset extends ImageSourceInfo {
+  sourceUrl: string;
+  reason: string;
+}
+
+export interface BundleManifest {
+  generator: string;
+  exportedAt: string;
+  page: {
+    title: string;
+    language: string;
+    pageType: string;
+    framework?: string;
+  };
+  files: string[];
+  assets: BundledAsset[];
+  hotlinked: HotlinkedAsset[];
+}
+
+const decodeAttribute = (value: string) =>
+  value.replace(/&amp;/g, '&').replace(/&quot;/g, '"').replace(/&#x27;|&#39;/g, "'").replace(/&lt;/g, '<').replace(/&gt;/g, '>');
+
+const encodeAttribute = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/'/g, '&#x27;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/** Image URLs in the markup, from `src` attributes and `url()` in inline styles, in page order without repeats. */
+export const collectImageUrls = (markup: string): string[] => {
+  const urls = [
+    ...Array.from(markup.matchAll(/\ssrc="([^"]+)"/g), match => match[1]),
+    ...Array.from(markup.matchAll(/url\((?:&quot;|&#x27;|["'])?(.*?)(?:&quot;|&#x27;|["'])?\)/g), match => match[1])
+  ].map(decodeAttribute).filter(url => url && !url.startsWith('#'));
+  return Array.from(new Set(urls));
+};
+
+/** Points every occurrence of each URL, raw or attribute-escaped, at its bundled path. */
+export const rewriteAssetUrls = (markup: string, paths: Map<string, string>): string =>
+  Array.from(paths).reduce(
+    (result, [url, path]) => result.split(encodeAttribute(url)).join(path).split(url).join(path),
+    markup
+  );
+
+const EXTENSIONS_BY_TYPE: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'image/avif': 'avif'
+};
+
+/** File extension from the response type, falling back to the URL; `img` when neither says. */
+export const getImageExtension = (url: string, contentType?: string | null): string => {
+  const fromType = contentType && EXTENSIONS_BY_TYPE[contentType.split(';')[0].trim().toLowerCase()];
+  if (fromType) return fromType;
+  const fromUrl = url.match(/^data:(image\/[\w+.-]+)/)?.[1] || '';
+  if (EXTENSIONS_BY_TYPE[fromUrl]) return EXTENSIONS_BY_TYPE[fromUrl];
+  const pathExtension = url.split(/[?#]/)[0].match(/\.(jpe?g|png|gif|webp|svg|avif)$/i)?.[1].toLowerCase();
+  return pathExtension === 'jpeg' ? 'jpg' : pathExtension || 'img';
+};
+
+/** Who an image came from and what its license is, as far as the URL tells. */
+export const describeImageSource = (url: string): ImageSourceInfo => {
+  if (url.startsWith('data:') || url.startsWith('blob:')) {
+    return { source: 'Embedded in the project', license: 'Uploaded or generated - check you have the rights before publishing' };
+  }
+  let host = '';
+  try {
+    host = new URL(url).hostname;
+  } catch {
+    return { source: url, license: 'Unknown - check you have the rights before publishing' };
+  }
+  if (/(^|\.)unsplash\.com$/.test(host)) {
+    return { source: 'Unsplash', license: 'Unsplash License', licenseUrl: 'https://unsplash.com/license' };
+  }
+  if (/(^|\.)pexels\.com$/.test(host)) {
+    return { source: 'Pexels', license: 'Pexels License', licenseUrl: 'https://www.pexels.com/license/' };
+  }
+  return { source: host, license: 'Unknown - check you have the rights before publishing' };
+};
+
+/** A letter icon in the page's primary colour, so the bundle has a favicon without a designed one. */
+export const buildFaviconSvg = (name: string, color = 'hsl(263 70% 50%)'): string => {
+  const letter = (name.trim().match(/[\p{L}\p{N}]/u)?.[0] || 'L').toUpperCase();
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 64 64"><rect width="64" height="64" rx="14" fill="${color}"/>`
+    + `<text x="32" y="44" font-family="system-ui, sans-serif" font-size="36" font-weight="700" fill="#fff" text-anchor="middle">${encodeAttribute(letter)}</text></svg>`;
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { buildBrandVoiceInstructions, checkBannedWords, createBrandVoiceProfile, findBannedWords } from './brand-voice';
+import { buildGeneratedCopy } from './copy-parsing';
+
+describe('buildBrandVoiceInstructions', () => {
+  it('is empty without a profile or with an all-neutral one', () => {
+    expect(buildBrandVoiceInstructions(null)).toBe('');
+    expect(buildBrandVoiceInstructions(createBrandVoiceProfile())).toBe('');
+  });
+
+  it('describes tone, terminology, banned words and examples', () => {
+    const profile = {
+      ...createBrandVoiceProfile('Calm Expert'),
+      tone: { formality: 90, energy: 10, humor: 50, complexity: 50 },
+      terminology: [{ avoid: 'customers', prefer: 'members' }],
+      bannedWords: ['cheap'],
+      examples: ['We keep things simple.']
+    };
+
+    const instructions = buildBrandVoiceInstructions(profile);
+    expect(instructions).toContain('"Calm Expert" brand voice');
+    expect(instructions).toContain('Formality: formal and professional');
+    expect(instructions).toContain('Energy: calm and understated');
+    expect(instructions).not.toContain('Humor');
+    expect(instructions).toContain('Say "members", not "customers"');
+    expect(instructions).toContain('"cheap"');
+    expect(instructions).toContain('We keep things simple.');
+  });
+});
+
+describe('findBannedWords', () => {
+  it('matches whole words and phrases regardless of case', () => {
+    expect(findBannedWords('A Miracle cure, guaranteed results!', ['miracle', 'guaranteed results', 'cure-all']))
+      .toEqual(['miracle', 'guaranteed results']);
+  });
+
+  it('ignores banned words inside longer words', () => {
+    expect(findBannedWords('Cheapest option', ['cheap'])).toEqual([]);
+  });
+});
+
+describe('checkBannedWords', () => {
+  it('reports each section that uses a banned word', () => {
+    const copy = buildGeneratedCopy({
+      headline: 'The cheap way to sleep',
+      cta: ['Buy now', 'Get the cheap deal'],
+      objectionHandling: [{ objection: 'Is it cheap?', response: 'It is affordable.' }]
+    }, null);
+    const profile = { ...createBrandVoiceProfile(), bannedWords: ['cheap'] };
+
+    expect(checkBannedWords(copy, profile).map(match => match.section)).toEqual(['headline', 'cta', 'objections']);
+  });
+});
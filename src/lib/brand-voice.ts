@@ -0,0 +1,126 @@
+import type { GeneratedCopy } from '@/components/CopyGeneration';
+import { COPY_SECTIONS, COPY_SECTION_LABELS, type CopySection } from '@/lib/project-dependencies';
+import { DEFAULT_METRIC_THRESHOLDS, type CopyMetricThresholds } from '@/lib/copy-metrics';
+
+export type ToneDimension = 'formality' | 'energy' | 'humor' | 'complexity';
+
+export interface TermPreference {
+  avoid: string;
+  prefer: string;
+}
+
+export interface BrandVoiceProfile {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  // 0-100 for each dimension, 50 being neutral
+  tone: Record<ToneDimension, number>;
+  // Paragraphs already written in this voice
+  examples: string[];
+  bannedWords: string[];
+  terminology: TermPreference[];
+  // Ranges the copy metrics are held to when this voice is in use
+  metricThresholds: CopyMetricThresholds;
+}
+
+export const TONE_DIMENSIONS: Record<ToneDimension, { label: string; low: string; high: string }> = {
+  formality: { label: 'Formality', low: 'Casual', high: 'Formal' },
+  energy: { label: 'Energy', low: 'Calm', high: 'Bold' },
+  humor: { label: 'Humor', low: 'Serious', high: 'Playful' },
+  complexity: { label: 'Reading Level', low: 'Plain', high: 'Sophisticated' }
+};
+
+const TONE_INSTRUCTIONS: Record<ToneDimension, [string, string, string, string]> = {
+  formality: ['very casual and conversational', 'casual', 'polished', 'formal and professional'],
+  energy: ['calm and understated', 'measured', 'energetic', 'bold and high-energy'],
+  humor: ['completely serious', 'mostly serious', 'lightly playful', 'playful and witty'],
+  complexity: [
+    'plain words and short sentences a 12-year-old could follow',
+    'simple, everyday language',
+    'articulate language for an educated reader',
+    'sophisticated vocabulary for expert readers'
+  ]
+};
+
+// Examples are only there to show the voice; a few paragraphs are enough and keep prompts short
+const MAX_EXAMPLES_IN_PROMPT = 3;
+
+export const createBrandVoiceProfile = (name = 'New Brand Voice'): BrandVoiceProfile => {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    tone: { formality: 50, energy: 50, humor: 50, complexity: 50 },
+    examples: [],
+    bannedWords: [],
+    terminology: [],
+    metricThresholds: { ...DEFAULT_METRIC_THRESHOLDS }
+  };
+};
+
+const describeTone = (dimension: ToneDimension, value: number): string | null => {
+  // Close to neutral adds nothing the model wouldn't do anyway
+  if (Math.abs(value - 50) < 10) return null;
+  const index = Math.min(3, Math.floor(value / 25));
+  return `${TONE_DIMENSIONS[dimension].label}: ${TONE_INSTRUCTIONS[dimension][index]}`;
+};
+
+/** Voice rules to send with every copy prompt, or an empty string if the profile sets none. */
+export const buildBrandVoiceInstructions = (profile: BrandVoiceProfile | null | undefined): string => {
+  if (!profile) return '';
+
+  const tone = (Object.keys(TONE_DIMENSIONS) as ToneDimension[])
+    .map(dimension => describeTone(dimension, profile.tone[dimension]))
+    .filter(Boolean);
+  const terminology = profile.terminology.filter(term => term.avoid.trim() && term.prefer.trim());
+  const bannedWords = profile.bannedWords.filter(word => word.trim());
+  const examples = profile.examples.filter(example => example.trim()).slice(0, MAX_EXAMPLES_IN_PROMPT);
+
+  const parts = [
+    tone.length > 0 && `Tone:\n${tone.map(line => `- ${line}`).join('\n')}`,
+    terminology.length > 0 && `Preferred terminology:\n${terminology.map(term => `- Say "${term.prefer}", not "${term.avoid}"`).join('\n')}`,
+    bannedWords.length > 0 && `Never use these words or phrases: ${bannedWords.map(word => `"${word}"`).join(', ')}`,
+    examples.length > 0 && `Match the voice of these examples (do not copy them):\n${examples.map(example => `"""\n${example.trim()}\n"""`).join('\n')}`
+  ].filter(Boolean);
+
+  return parts.length > 0 ? `Write in the "${profile.name}" brand voice.\n\n${parts.join('\n\n')}` : '';
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Banned words or phrases that appear in `text`, matched case-insensitively as whole words. */
+export const findBannedWords = (text: string, bannedWords: string[]): string[] =>
+  bannedWords
+    .map(word => word.trim())
+    .filter(word => word && new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(word)}(?=$|[^\\p{L}\\p{N}])`, 'iu').test(text));
+
+export interface BannedWordMatch {
+  section: CopySection;
+  label: string;
+  words: string[];
+}
+
+const getSectionTexts = (copy: GeneratedCopy, section: CopySection): string[] => {
+  switch (section) {
+    case 'benefits': return copy.benefits || [];
+    case 'cta': return [copy.cta, ...(copy.ctaOptions || [])];
+    case 'objections': return (copy.objectionHandling || []).flatMap(item => [item.objection, item.response]);
+    default: return [copy[section] || ''];
+  }
+};
+
+/** Runs `findBannedWords` over every section of the copy. */
+export const checkBannedWords = (copy: GeneratedCopy | null, profile: BrandVoiceProfile | null | undefined): BannedWordMatch[] => {
+  if (!copy || !profile?.bannedWords.length) return [];
+
+  return COPY_SECTIONS
+    .map(section => ({
+      section,
+      label: COPY_SECTION_LABELS[section],
+      words: findBannedWords(getSectionTexts(copy, section).join('\n'), profile.bannedWords)
+    }))
+    .filter(match => match.words.length > 0);
+};
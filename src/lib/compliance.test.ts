@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { checkCompliance, hasBlockingIssues, listCopyFields } from './compliance';
+import { buildGeneratedCopy } from './copy-parsing';
+
+const ruleIds = (issues: { ruleId: string }[]) => issues.map(issue => issue.ruleId);
+
+describe('checkCompliance', () => {
+  it('flags quotes that are not on the source page', () => {
+    const copy = buildGeneratedCopy({
+      socialProof: '"I fell asleep in minutes," says Sarah. "My doctor was amazed by the change!" Individual results may vary.'
+    }, null);
+
+    const issues = checkCompliance(copy, { sourceTestimonials: ['I fell asleep in minutes - Sarah K.'] });
+    const unsourced = issues.filter(issue => issue.ruleId === 'testimonial-unsourced');
+    expect(unsourced.map(issue => issue.text)).toEqual(['"My doctor was amazed by the change!"']);
+    expect(ruleIds(issues)).not.toContain('disclosure-results');
+  });
+
+  it('does not let a one-word or star-only source vouch for an invented quote', () => {
+    const copy = buildGeneratedCopy({ socialProof: '"This tea changed my life in a week!" Individual results may vary.' }, null);
+    expect(ruleIds(checkCompliance(copy, { sourceTestimonials: ['life'] }))).toContain('testimonial-unsourced');
+    expect(ruleIds(checkCompliance(copy, { sourceTestimonials: ['★★★★★'] }))).toContain('testimonial-unsourced');
+    expect(ruleIds(checkCompliance(copy, { sourceTestimonials: ['This tea changed my life within a week!'] })))
+      .not.toContain('testimonial-unsourced');
+  });
+
+  it('requires the FDA disclaimer once the copy makes health claims', () => {
+    const copy = buildGeneratedCopy({ headline: 'The Supplement That Cures Insomnia' }, null);
+    const issues = checkCompliance(copy, { productCategory: 'health' });
+    expect(ruleIds(issues)).toEqual(['health-disease-claim', 'disclosure-fda']);
+    expect(issues[1]).toMatchObject({ severity: 'error', section: 'headline' });
+    expect(hasBlockingIssues(issues)).toBe(true);
+
+    const disclosed = buildGeneratedCopy({
+      headline: 'Sleep Better',
+      guarantee: 'These statements have not been evaluated by the Food and Drug Administration.'
+    }, null);
+    expect(checkCompliance(disclosed, { productCategory: 'health' })).toEqual([]);
+  });
+
+  it('accepts the FDA disclaimer it suggests, but not a claim that only sounds negative', () => {
+    const copy = buildGeneratedCopy({
+      headline: 'Sleep Better',
+      guarantee: 'These statements have not been evaluated by the Food and Drug Administration. This product is not intended to diagnose, treat, cure, or prevent any disease.'
+    }, null);
+    const issues = checkCompliance(copy, { productCategory: 'health' });
+    expect(issues.filter(issue => issue.severity === 'error')).toEqual([]);
+    expect(hasBlockingIssues(issues)).toBe(false);
+
+    const denied = buildGeneratedCopy({ headline: 'Our tea does not cure insomnia, but it helps you wind down.' }, null);
+    expect(ruleIds(checkCompliance(denied))).not.toContain('health-disease-claim');
+
+    [
+      'Not only does it cure insomnia, it lifts your mood.',
+      "You don't need pills: ZenSleep cures insomnia naturally",
+      'Why not try the tea that cures diabetes'
+    ].forEach(headline => {
+      expect(ruleIds(checkCompliance(buildGeneratedCopy({ headline }, null)))).toContain('health-disease-claim');
+    });
+  });
+
+  it('wants an earnings disclaimer for income claims', () => {
+    const copy = buildGeneratedCopy({ benefits: ['Grow your savings', 'Earn $5,000 per month from home'] }, null);
+    const issues = checkCompliance(copy);
+    expect(ruleIds(issues)).toEqual(['income-amount', 'disclosure-earnings']);
+    expect(issues[0]).toMatchObject({ path: 'benefits.1', start: 0, text: 'Earn $5,000 per month', severity: 'warning' });
+  });
+
+  it('warns about scarcity but does not block export for it', () => {
+    const copy = buildGeneratedCopy({ urgency: 'Only 3 left - this offer ends at midnight.' }, null);
+    const issues = checkCompliance(copy);
+    expect(ruleIds(issues)).toEqual(['scarcity-stock', 'scarcity-deadline']);
+    expect(hasBlockingIssues(issues)).toBe(false);
+  });
+});
+
+describe('listCopyFields', () => {
+  it('lists the primary CTA once', () => {
+    const copy = buildGeneratedCopy({ cta: ['Buy Now', 'Try Free'] }, null);
+    expect(listCopyFields(copy).filter(field => field.section === 'cta').map(field => field.path))
+      .toEqual(['cta', 'ctaOptions.1']);
+  });
+});
@@ -0,0 +1,273 @@
+import type { GeneratedCopy } from '@/components/CopyGeneration';
+import type { CopySection } from '@/lib/project-dependencies';
+
+// Errors block export; warnings need a human look; info is advice
+export type ComplianceSeverity = 'error' | 'warning' | 'info';
+
+export type ComplianceCategory = 'testimonial' | 'health' | 'income' | 'scarcity' | 'disclosure';
+
+export const COMPLIANCE_CATEGORY_LABELS: Record<ComplianceCategory, string> = {
+  testimonial: 'Testimonial',
+  health: 'Health Claim',
+  income: 'Income Claim',
+  scarcity: 'Scarcity',
+  disclosure: 'Missing Disclosure'
+};
+
+/** One piece of editable text, addressed the way the editor addresses it, e.g. `benefits.2`. */
+export interface CopyField {
+  section: CopySection;
+  path: string;
+  text: string;
+}
+
+export interface ComplianceIssue {
+  ruleId: string;
+  category: ComplianceCategory;
+  severity: ComplianceSeverity;
+  section: CopySection;
+  message: string;
+  suggestion?: string;
+  // Where the offending text is; page-level issues such as a missing disclosure have none
+  path?: string;
+  start?: number;
+  end?: number;
+  text?: string;
+}
+
+/** What the copy is checked against besides its own text. */
+export interface ComplianceContext {
+  // ProductData.productInfo.category; health products need the FDA disclaimer
+  productCategory?: string;
+  // Testimonials scraped from the source page, the only ones copy may quote
+  sourceTestimonials?: string[];
+}
+
+interface PatternRule {
+  id: string;
+  category: ComplianceCategory;
+  severity: ComplianceSeverity;
+  pattern: RegExp;
+  message: string;
+  suggestion?: string;
+  // Ignore a claim verb that is denied, such as "does not cure" or the FDA disclaimer's "not intended to ... treat"
+  skipNegated?: boolean;
+}
+
+// The patterns are English; copy in other languages only gets the testimonial and disclosure checks that don't depend on wording
+const PATTERN_RULES: PatternRule[] = [
+  {
+    id: 'health-disease-claim',
+    category: 'health',
+    severity: 'error',
+    pattern: /\b(cures?|cured|heals?|treats?|prevents?|reverses?)\b[^.!?\n]{0,40}\b(cancer|diabetes|disease|depression|anxiety|insomnia|arthritis|obesity|alzheimer'?s|dementia|infection)s?\b/gi,
+    message: 'Claims to cure, treat or prevent a disease. Only approved drugs may make these claims.',
+    suggestion: 'Describe how the product supports the reader instead, e.g. "supports restful sleep".',
+    skipNegated: true
+  },
+  {
+    id: 'health-miracle',
+    category: 'health',
+    severity: 'error',
+    pattern: /\b(miracle|magic pill|no side effects|100% safe|fda[- ]approved)\b/gi,
+    message: 'Absolute safety or miracle wording the product almost certainly cannot substantiate.'
+  },
+  {
+    id: 'health-authority',
+    category: 'health',
+    severity: 'warning',
+    pattern: /\b(clinically (proven|tested)|doctors? (recommended|approved)|doctor-(recommended|approved)|scientifically proven|my doctor was amazed)\b/gi,
+    message: 'Authority claim that needs a study or endorsement you can point to.',
+    suggestion: 'Link the study or endorsement, or remove the claim.'
+  },
+  {
+    id: 'health-weight-loss',
+    category: 'health',
+    severity: 'error',
+    pattern: /\blose\s+\d+\s*(lbs?|pounds|kg|kilos)\b[^.!?\n]{0,30}\b(in|within)\s+\d+\s*(days?|weeks?)\b/gi,
+    message: 'Specific weight-loss result in a set time, which regulators treat as inherently misleading.'
+  },
+  {
+    id: 'income-guarantee',
+    category: 'income',
+    severity: 'error',
+    pattern: /\bguaranteed\s+(income|returns?|profits?|earnings|results|to make money)\b/gi,
+    message: 'Guarantees income or results, which no disclosure can fix.'
+  },
+  {
+    id: 'income-amount',
+    category: 'income',
+    severity: 'warning',
+    pattern: /\b(make|earn|earning|making|generate)\s+(over\s+|up to\s+)?[$€£]\s?\d[\d,.]*\s*[kK]?(\s*(per|a|\/|every)\s*(day|week|month|year))?/gi,
+    message: 'Specific earnings claim. It must be typical for buyers and backed by an earnings disclaimer.'
+  },
+  {
+    id: 'income-lifestyle',
+    category: 'income',
+    severity: 'warning',
+    pattern: /\b(passive income|get rich|financial freedom|quit your (day )?job|replace your (income|salary))\b/gi,
+    message: 'Lifestyle income promise that implies typical earnings.'
+  },
+  {
+    id: 'scarcity-stock',
+    category: 'scarcity',
+    severity: 'warning',
+    pattern: /\b(only\s+\d+\s+(left|spots?|seats?|bottles?|units?|copies|remaining)|(almost|nearly)\s+sold\s+out|sell(s|ing)?\s+out|before (it'?s|they'?re) gone|while supplies last)\b/gi,
+    message: 'Scarcity claim. Only keep it if the stock really is limited.'
+  },
+  {
+    id: 'scarcity-deadline',
+    category: 'scarcity',
+    severity: 'warning',
+    pattern: /\b(ends|expires)\s+(tonight|today|at midnight|in \d+ (hours?|minutes?))\b|\b(last chance|limited time only|price goes up (tomorrow|tonight))\b/gi,
+    message: 'Deadline claim. Only keep it if the offer really ends then.'
+  }
+];
+
+const RESULTS_DISCLAIMER = /results (may|will) vary|not typical|individual results/i;
+const FDA_DISCLAIMER = /not been evaluated by the (food and drug administration|fda)/i;
+const EARNINGS_DISCLAIMER = /earnings disclaimer|no guarantee of (income|earnings)|not a guarantee of (income|earnings)/i;
+
+// Quoted passages long enough to be a testimonial rather than a quoted word
+const QUOTE_PATTERN = /["“]([^"”\n]{15,})["”]/g;
+
+/** Every editable text in the copy. The primary CTA is listed once, not again among the options. */
+export const listCopyFields = (copy: GeneratedCopy): CopyField[] => ([
+  { section: 'headline', path: 'headline', text: copy.headline },
+  { section: 'subheadline', path: 'subheadline', text: copy.subheadline },
+  { section: 'heroText', path: 'heroText', text: copy.heroText },
+  ...(copy.benefits || []).map((text, index) => ({ section: 'benefits', path: `benefits.${index}`, text })),
+  { section: 'socialProof', path: 'socialProof', text: copy.socialProof },
+  { section: 'cta', path: 'cta', text: copy.cta },
+  ...(copy.ctaOptions || [])
+    .map((text, index) => ({ section: 'cta', path: `ctaOptions.${index}`, text }))
+    .filter(field => field.text !== copy.cta),
+  { section: 'urgency', path: 'urgency', text: copy.urgency },
+  ...(copy.objectionHandling || []).flatMap((item, index) => [
+    { section: 'objections', path: `objectionHandling.${index}.objection`, text: item.objection },
+    { section: 'objections', path: `objectionHandling.${index}.response`, text: item.response }
+  ]),
+  { section: 'guarantee', path: 'guarantee', text: copy.guarantee }
+] as CopyField[]).filter(field => typeof field.text === 'string' && field.text.trim());
+
+// The claim verb denied outright ("does not cure"), or listed in the FDA disclaimer's "not intended to diagnose, treat, cure, or prevent"
+const NEGATED_VERB = /\b(not|never|doesn'?t|don'?t|won'?t|cannot|can'?t)\s+$/i;
+const DISCLAIMER_VERBS = /\bnot intended to\s+((diagnose|treat|cure|mitigate|prevent),?\s+(or\s+)?)*$/i;
+
+const isNegated = (text: string, index: number) => {
+  const before = text.slice(0, index);
+  return NEGATED_VERB.test(before) || DISCLAIMER_VERBS.test(before);
+};
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// Share of the quote's words a source must contain for a lightly reworded quote to still count as that testimonial
+const SOURCED_WORD_SHARE = 0.8;
+
+const isSourcedQuote = (quote: string, sources: string[]) => {
+  const normalizedQuote = normalize(quote);
+  const quoteWords = new Set(normalizedQuote.split(' '));
+  return sources.some(source => {
+    // A source of only stars or punctuation quotes nothing
+    const normalizedSource = normalize(source);
+    if (!normalizedSource) return false;
+    if (normalizedSource.includes(normalizedQuote)) return true;
+
+    const sourceWords = new Set(normalizedSource.split(' '));
+    const shared = [...quoteWords].filter(word => sourceWords.has(word)).length;
+    return shared / quoteWords.size >= SOURCED_WORD_SHARE;
+  });
+};
+
+/**
+ * Scans the copy for claims that get affiliate and supplement pages into
+ * trouble. Issues found in the text come back in page order, followed by
+ * any missing disclosures.
+ */
+export const checkCompliance = (copy: GeneratedCopy | null, context: ComplianceContext = {}): ComplianceIssue[] => {
+  if (!copy) return [];
+  const fields = listCopyFields(copy);
+  const sources = (context.sourceTestimonials || []).filter(source => source && source !== 'MISSING');
+  const issues: ComplianceIssue[] = [];
+
+  fields.forEach(field => {
+    PATTERN_RULES.forEach(rule => {
+      for (const match of field.text.matchAll(rule.pattern)) {
+        if (rule.skipNegated && isNegated(field.text, match.index!)) continue;
+        issues.push({
+          ruleId: rule.id,
+          category: rule.category,
+          severity: rule.severity,
+          section: field.section,
+          message: rule.message,
+          suggestion: rule.suggestion,
+          path: field.path,
+          start: match.index,
+          end: match.index + match[0].length,
+          text: match[0]
+        });
+      }
+    });
+
+    for (const match of field.text.matchAll(QUOTE_PATTERN)) {
+      if (isSourcedQuote(match[1], sources)) continue;
+      issues.push({
+        ruleId: 'testimonial-unsourced',
+        category: 'testimonial',
+        severity: 'error',
+        section: field.section,
+        message: sources.length > 0
+          ? 'Quote does not match any testimonial on the source page, so it reads as invented.'
+          : 'The source page has no testimonials, so this quote reads as invented.',
+        suggestion: 'Use a real customer quote with permission, or remove it.',
+        path: field.path,
+        start: match.index,
+        end: match.index + match[0].length,
+        text: match[0]
+      });
+    }
+  });
+
+  const pageText = fields.map(field => field.text).join('\n');
+  const firstSection = (category: ComplianceCategory) => issues.find(issue => issue.category === category)?.section;
+
+  const quotesTestimonials = fields.some(field => field.text.match(QUOTE_PATTERN));
+  if (quotesTestimonials && !RESULTS_DISCLAIMER.test(pageText)) {
+    issues.push({
+      ruleId: 'disclosure-results',
+      category: 'disclosure',
+      severity: 'warning',
+      section: 'socialProof',
+      message: 'Testimonials are shown without saying whether their results are typical.',
+      suggestion: 'Add "Individual results may vary." next to the testimonials.'
+    });
+  }
+
+  const healthSection = firstSection('health');
+  if ((context.productCategory === 'health' || healthSection) && !FDA_DISCLAIMER.test(pageText)) {
+    issues.push({
+      ruleId: 'disclosure-fda',
+      category: 'disclosure',
+      severity: healthSection ? 'error' : 'info',
+      section: healthSection || 'guarantee',
+      message: 'Health product copy without the FDA disclaimer.',
+      suggestion: 'Add "These statements have not been evaluated by the Food and Drug Administration. This product is not intended to diagnose, treat, cure, or prevent any disease."'
+    });
+  }
+
+  const incomeSection = firstSection('income');
+  if (incomeSection && !EARNINGS_DISCLAIMER.test(pageText)) {
+    issues.push({
+      ruleId: 'disclosure-earnings',
+      category: 'disclosure',
+      severity: 'error',
+      section: incomeSection,
+      message: 'Income claims without an earnings disclaimer.',
+      suggestion: 'Add an earnings disclaimer stating that results are not typical and there is no guarantee of income.'
+    });
+  }
+
+  return issues;
+};
+
+export const hasBlockingIssues = (issues: ComplianceIssue[]) => issues.some(issue => issue.severity === 'error');
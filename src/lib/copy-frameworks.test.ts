@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import {
+  COPY_FRAMEWORKS,
+  buildCopyPromptVariables,
+  buildSectionPrompt,
+  getCopyFramework,
+  getFrameworkSections
+} from './copy-frameworks';
+import { buildGeneratedCopy } from './copy-parsing';
+import { COPY_LANGUAGES } from './copy-languages';
+import { DEFAULT_PROMPT_TEMPLATES, PROMPT_TEMPLATE_IDS } from './prompt-template-defaults';
+import type { ProductData } from '@/utils/ContentAnalyzer';
+
+const productData = {
+  productInfo: { name: 'Sleep Well', category: 'health' },
+  dreamOutcome: { mainBenefit: 'deeper sleep', targetAudience: 'busy parents', emotionalOutcome: 'feeling rested' }
+} as ProductData;
+
+const variables = buildCopyPromptVariables(productData, 'product', 'Product Page', COPY_LANGUAGES.en, {
+  headline: 'Sleep Through the Night',
+  cta: ''
+});
+
+const contextTemplate = DEFAULT_PROMPT_TEMPLATES.find(template => template.id === PROMPT_TEMPLATE_IDS.copyContext)!.body;
+
+const templatesFor = (frameworkId: keyof typeof COPY_FRAMEWORKS, section: string) => ({
+  instructions: COPY_FRAMEWORKS[frameworkId].sections.find(item => item.section === section)!.instructions,
+  context: contextTemplate
+});
+
+describe('COPY_FRAMEWORKS', () => {
+  it('always writes a call to action', () => {
+    for (const framework of Object.values(COPY_FRAMEWORKS)) {
+      expect(getFrameworkSections(framework)).toContain('cta');
+    }
+  });
+
+  it('falls back to the default framework for unknown ids', () => {
+    expect(getCopyFramework('nope').id).toBe('hormozi');
+    expect(getCopyFramework(undefined).id).toBe('hormozi');
+  });
+});
+
+describe('getFrameworkSections', () => {
+  it('returns sections in page order, not prompt order', () => {
+    expect(getFrameworkSections(COPY_FRAMEWORKS.pas))
+      .toEqual(['headline', 'subheadline', 'heroText', 'benefits', 'socialProof', 'cta', 'objections', 'guarantee']);
+  });
+});
+
+describe('buildSectionPrompt', () => {
+  it('fills in the product data and adds the upstream headline and output format', () => {
+    const prompt = buildSectionPrompt('subheadline', templatesFor('aida', 'subheadline'), variables);
+    expect(prompt).toContain('Builds on the emotional outcome: feeling rested');
+    expect(prompt).toContain('Headline it supports: Sleep Through the Night');
+    expect(prompt).toContain('Target Audience: busy parents');
+    expect(prompt.endsWith('Return only the subheadline text.')).toBe(true);
+  });
+
+  it('skips upstream notes that are not written yet', () => {
+    expect(buildSectionPrompt('urgency', templatesFor('hormozi', 'urgency'), variables)).not.toContain('call to action:');
+  });
+
+  it('quotes only the testimonials on the source page, and none when it has none', () => {
+    const withTestimonials = buildCopyPromptVariables({
+      ...productData,
+      perceivedLikelihood: { testimonials: ['Best sleep in years. – Ana', 'MISSING'] }
+    } as ProductData, 'product', 'Product Page', COPY_LANGUAGES.en, { headline: '', cta: '' });
+    const quoted = buildSectionPrompt('socialProof', templatesFor('hormozi', 'socialProof'), withTestimonials);
+    expect(quoted).toContain('- Best sleep in years. – Ana');
+    expect(quoted).not.toContain('- MISSING');
+
+    const unquoted = buildSectionPrompt('socialProof', templatesFor('hormozi', 'socialProof'), variables);
+    expect(unquoted).toContain('The source page has no testimonials. Do not write customer quotes');
+  });
+});
+
+describe('buildGeneratedCopy with omitted sections', () => {
+  it('clears sections the framework does not write', () => {
+    const previous = buildGeneratedCopy({ headline: 'Old', guarantee: 'Old guarantee' }, null);
+    const copy = buildGeneratedCopy({ headline: 'New' }, previous, ['guarantee']);
+    expect(copy.headline).toBe('New');
+    expect(copy.guarantee).toBe('');
+  });
+});
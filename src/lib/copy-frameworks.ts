@@ -0,0 +1,440 @@
+import { COPY_SECTIONS, COPY_SECTION_LABELS, type CopySection } from '@/lib/project-dependencies';
+import { renderPromptTemplate, type PromptVariables } from '@/lib/prompt-templates';
+import type { CopyLanguageInfo, PreviewStringKey } from '@/lib/copy-languages';
+import type { ProductData } from '@/utils/ContentAnalyzer';
+
+export type CopyFrameworkId = 'hormozi' | 'aida' | 'pas' | 'four-ps' | 'storybrand';
+
+export const DEFAULT_COPY_FRAMEWORK: CopyFrameworkId = 'hormozi';
+
+// Upstream sections a prompt builds on, empty until they have been written
+export interface CopyUpstream {
+  headline: string;
+  cta: string;
+}
+
+// Middle-of-page blocks the preview can reorder; hero and closing CTA stay put
+export type PreviewBlock = 'benefits' | 'proof' | 'objections';
+
+export interface PreviewLayoutHints {
+  blockOrder: PreviewBlock[];
+  // Looked up in PREVIEW_STRINGS so they follow the page language
+  headings?: Partial<Record<PreviewBlock, PreviewStringKey>>;
+  // Numbered steps read as a plan (StoryBrand) rather than a feature grid
+  benefitsStyle?: 'grid' | 'steps';
+}
+
+export interface FrameworkSection {
+  section: CopySection;
+  // The framework's own name for the stage, e.g. "Attention"
+  stage?: string;
+  // Default prompt template; the writer can override it per framework and section
+  instructions: string;
+  // Template version of the instructions, bumped whenever they change; 1 when unset
+  version?: number;
+}
+
+export interface CopyFramework {
+  id: CopyFrameworkId;
+  name: string;
+  description: string;
+  // Written in this order; sections left out stay empty
+  sections: FrameworkSection[];
+  layout: PreviewLayoutHints;
+}
+
+// Parsing depends on these, so they are the same whichever framework wrote the instructions
+const SECTION_OUTPUT_FORMATS: Record<CopySection, string> = {
+  headline: 'Return only the headline text, no quotes or formatting.',
+  subheadline: 'Return only the subheadline text.',
+  heroText: 'Return only the hero text.',
+  benefits: 'Return as a JSON array of benefit strings.',
+  socialProof: 'Return only the social proof text.',
+  cta: 'Return as a JSON array of 3 CTA strings.',
+  urgency: 'Return only the urgency text.',
+  objections: 'Return as a JSON array of objection-response pairs: [{"objection": "...", "response": "..."}]',
+  guarantee: 'Return only the guarantee text.'
+};
+
+const DEFAULT_LAYOUT: PreviewLayoutHints = { blockOrder: ['benefits', 'proof', 'objections'] };
+
+// Sections that read the same under every framework
+const subheadline = (stage?: string): FrameworkSection => ({
+  section: 'subheadline',
+  stage,
+  instructions: `Create a supporting subheadline that:
+- Reinforces the main headline
+- Adds credibility with specific benefits
+- Builds on the emotional outcome: {{dreamOutcome.emotionalOutcome}}
+- Maximum 2 sentences`
+});
+
+const ctaOptions = (stage?: string): FrameworkSection => ({
+  section: 'cta',
+  stage,
+  instructions: `Create 3 different call-to-action options for this {{pageTypeLabel}}:
+- One urgent/scarcity-based
+- One benefit-focused
+- One risk-reversal focused`
+});
+
+const guarantee = (stage?: string): FrameworkSection => ({
+  section: 'guarantee',
+  stage,
+  instructions: `Create a guarantee/risk-reversal statement that:
+- Removes risk from the buyer
+- Shows confidence in the product
+- Is specific and compelling
+- 50-100 words`
+});
+
+export const COPY_FRAMEWORKS: Record<CopyFrameworkId, CopyFramework> = {
+  hormozi: {
+    id: 'hormozi',
+    name: 'Value Equation',
+    description: "Hormozi's (Dream Outcome × Likelihood) ÷ (Time Delay × Effort). Covers every section.",
+    layout: DEFAULT_LAYOUT,
+    sections: [
+      {
+        section: 'headline',
+        instructions: `Create a compelling headline for a {{pageTypeLabel}} that:
+- Uses the value equation (Dream Outcome + Perceived Likelihood) / (Time Delay + Effort & Sacrifice)
+- Speaks directly to {{dreamOutcome.targetAudience}}
+- Promises {{dreamOutcome.mainBenefit}}
+- Creates urgency and desire`
+      },
+      subheadline(),
+      {
+        section: 'heroText',
+        instructions: `Write compelling hero section copy for this {{pageTypeLabel}} that:
+- Opens with a hook that resonates with {{dreamOutcome.targetAudience}}
+- Tells a relatable story or presents a problem
+- Introduces the solution ({{productInfo.name}})
+- Uses conversational, persuasive language
+- 150-200 words`
+      },
+      {
+        section: 'benefits',
+        instructions: `List the top 5 benefits of {{productInfo.name}} that:
+- Go beyond features to emotional outcomes
+- Address specific pain points of {{dreamOutcome.targetAudience}}
+- Use "you will" language
+- Are specific and measurable where possible`
+      },
+      {
+        section: 'socialProof',
+        version: 2,
+        instructions: `Create social proof copy that includes:
+- Customer testimonial quotes, only from the testimonials listed below
+- Usage statistics or social proof numbers
+- Trust indicators
+- 100-150 words total`
+      },
+      ctaOptions(),
+      {
+        section: 'urgency',
+        instructions: `Create urgency copy that:
+- Creates legitimate scarcity or time pressure
+- Doesn't feel fake or manipulative
+- Relates to the product context
+- 50-75 words`
+      },
+      {
+        section: 'objections',
+        instructions: `List the top 3 objections {{dreamOutcome.targetAudience}} might have about {{productInfo.name}} and provide responses that:
+- Acknowledge the concern
+- Provide logical counter-arguments
+- Offer proof or guarantees`
+      },
+      guarantee()
+    ]
+  },
+
+  aida: {
+    id: 'aida',
+    name: 'AIDA',
+    description: 'Attention, Interest, Desire, Action. A short, linear page that builds to one ask.',
+    layout: { blockOrder: ['benefits', 'proof'], headings: { benefits: 'whyYouWillLoveIt' } },
+    sections: [
+      {
+        section: 'headline',
+        stage: 'Attention',
+        instructions: `Create a headline for a {{pageTypeLabel}} that grabs attention:
+- Stops {{dreamOutcome.targetAudience}} mid-scroll with a bold, specific promise or surprising fact
+- Centres on {{dreamOutcome.mainBenefit}}
+- Under 15 words`
+      },
+      subheadline('Attention'),
+      {
+        section: 'heroText',
+        stage: 'Interest',
+        instructions: `Write the Interest section of an AIDA page that:
+- Builds curiosity about how {{productInfo.name}} works
+- Shares one or two intriguing facts relevant to {{dreamOutcome.targetAudience}}
+- Stays focused on the reader, not the company
+- 120-170 words`
+      },
+      {
+        section: 'benefits',
+        stage: 'Desire',
+        instructions: `List 5 benefits of {{productInfo.name}} that create desire:
+- Paint the life the reader gets: {{dreamOutcome.emotionalOutcome}}
+- Turn each feature into a personal outcome
+- Use "you will" language`
+      },
+      {
+        section: 'socialProof',
+        stage: 'Desire',
+        version: 2,
+        instructions: `Write social proof that deepens desire:
+- Testimonials listed below from people like the reader
+- One concrete number or result
+- 80-120 words`
+      },
+      ctaOptions('Action'),
+      {
+        section: 'urgency',
+        stage: 'Action',
+        instructions: `Write a short nudge to act now that:
+- Gives an honest reason not to wait
+- Avoids fake scarcity
+- 30-60 words`
+      }
+    ]
+  },
+
+  pas: {
+    id: 'pas',
+    name: 'PAS',
+    description: 'Problem, Agitate, Solution. Leads with the pain, then resolves it.',
+    layout: {
+      blockOrder: ['objections', 'benefits', 'proof'],
+      headings: { benefits: 'theSolution', objections: 'soundFamiliar' }
+    },
+    sections: [
+      {
+        section: 'headline',
+        stage: 'Problem',
+        instructions: `Create a headline for a {{pageTypeLabel}} that names the problem:
+- States the painful problem {{dreamOutcome.targetAudience}} lives with, in their words
+- Hints that a way out exists
+- Under 15 words`
+      },
+      subheadline('Problem'),
+      {
+        section: 'heroText',
+        stage: 'Agitate',
+        instructions: `Write the Agitate section of a PAS page that:
+- Describes how the problem shows up day to day for {{dreamOutcome.targetAudience}}
+- Spells out what it costs them emotionally and practically if nothing changes
+- Stays empathetic, never mocking
+- 120-170 words`
+      },
+      {
+        section: 'objections',
+        stage: 'Agitate',
+        instructions: `List the top 3 objections {{dreamOutcome.targetAudience}} might have about {{productInfo.name}} and provide responses that:
+- Name the failed fixes they have already tried
+- Explain why those did not work
+- Show why this is different`
+      },
+      {
+        section: 'benefits',
+        stage: 'Solution',
+        instructions: `List 5 ways {{productInfo.name}} solves the problem:
+- Each one resolves a specific pain from the agitation
+- Lead with the outcome: {{dreamOutcome.mainBenefit}}
+- Use "you will" language`
+      },
+      {
+        section: 'socialProof',
+        stage: 'Solution',
+        version: 2,
+        instructions: `Write social proof showing the problem solved:
+- Before-and-after results from the testimonials listed below
+- One concrete result
+- 80-120 words`
+      },
+      guarantee('Solution'),
+      ctaOptions('Solution')
+    ]
+  },
+
+  'four-ps': {
+    id: 'four-ps',
+    name: '4Ps',
+    description: 'Promise, Picture, Proof, Push. A big claim backed by evidence.',
+    layout: {
+      blockOrder: ['benefits', 'proof'],
+      headings: { benefits: 'pictureThis', proof: 'theProof' }
+    },
+    sections: [
+      {
+        section: 'headline',
+        stage: 'Promise',
+        instructions: `Create a headline for a {{pageTypeLabel}} that makes one big promise:
+- The promise is {{dreamOutcome.mainBenefit}}, made concrete and specific
+- Speaks to {{dreamOutcome.targetAudience}}
+- Under 15 words`
+      },
+      subheadline('Promise'),
+      {
+        section: 'heroText',
+        stage: 'Picture',
+        instructions: `Write the Picture section of a 4Ps page that:
+- Puts the reader inside the moment the promise comes true
+- Uses sensory detail and the feeling of {{dreamOutcome.emotionalOutcome}}
+- 120-170 words`
+      },
+      {
+        section: 'benefits',
+        stage: 'Picture',
+        instructions: `List 5 benefits of {{productInfo.name}} as vivid snapshots:
+- Each describes a moment in the reader's improved life
+- Use "you will" language`
+      },
+      {
+        section: 'socialProof',
+        stage: 'Proof',
+        version: 2,
+        instructions: `Write the Proof section that:
+- Backs the promise with the testimonials listed below
+- Includes numbers, results or credentials
+- 100-150 words`
+      },
+      guarantee('Proof'),
+      ctaOptions('Push'),
+      {
+        section: 'urgency',
+        stage: 'Push',
+        instructions: `Write the Push: a reason to act today that:
+- Is honest and specific to the offer
+- Restates the promise in one line
+- 40-70 words`
+      }
+    ]
+  },
+
+  storybrand: {
+    id: 'storybrand',
+    name: 'StoryBrand',
+    description: 'The customer is the hero and the brand is the guide with a plan.',
+    layout: {
+      blockOrder: ['proof', 'benefits'],
+      headings: { proof: 'weUnderstand', benefits: 'yourPlan' },
+      benefitsStyle: 'steps'
+    },
+    sections: [
+      {
+        section: 'headline',
+        stage: 'Character',
+        instructions: `Create a headline for a {{pageTypeLabel}} that states what the hero wants:
+- The hero is {{dreamOutcome.targetAudience}}, not the brand
+- Names what they want: {{dreamOutcome.mainBenefit}}
+- Under 12 words, plain language`
+      },
+      subheadline('Character'),
+      {
+        section: 'heroText',
+        stage: 'Problem',
+        instructions: `Write the Problem section of a StoryBrand page that covers:
+- The external problem {{dreamOutcome.targetAudience}} faces
+- How it makes them feel (internal problem)
+- Why it is simply wrong that they should have to deal with it
+- 120-170 words`
+      },
+      {
+        section: 'socialProof',
+        stage: 'Guide',
+        version: 2,
+        instructions: `Write the Guide section that positions the brand as the guide:
+- One line of empathy ("we know what it's like...")
+- Authority: the testimonials listed below and numbers
+- 80-120 words`
+      },
+      {
+        section: 'benefits',
+        stage: 'Plan',
+        instructions: `List a simple 3-step plan for getting {{dreamOutcome.mainBenefit}} with {{productInfo.name}}:
+- Each step starts with a verb
+- Each is one short sentence`
+      },
+      ctaOptions('Call to Action'),
+      {
+        section: 'urgency',
+        stage: 'Avoid Failure',
+        instructions: `Write what is at stake if the hero does nothing:
+- Honest, not fear-mongering
+- 40-70 words`
+      },
+      {
+        section: 'guarantee',
+        stage: 'Success',
+        instructions: `Describe the success the hero ends up with, ending in a risk-free promise:
+- Paint life after: {{dreamOutcome.emotionalOutcome}}
+- Close with a guarantee that removes risk
+- 60-100 words`
+      }
+    ]
+  }
+};
+
+export const getCopyFramework = (id: string | null | undefined): CopyFramework =>
+  COPY_FRAMEWORKS[id as CopyFrameworkId] || COPY_FRAMEWORKS[DEFAULT_COPY_FRAMEWORK];
+
+/** The framework's sections in page order, as the generation pipeline runs them. */
+export const getFrameworkSections = (framework: CopyFramework): CopySection[] =>
+  COPY_SECTIONS.filter(section => framework.sections.some(item => item.section === section));
+
+export const getSectionLabel = (framework: CopyFramework, section: CopySection): string => {
+  const stage = framework.sections.find(item => item.section === section)?.stage;
+  return stage ? `${stage}: ${COPY_SECTION_LABELS[section]}` : COPY_SECTION_LABELS[section];
+};
+
+export const getSectionTemplateId = (frameworkId: CopyFrameworkId, section: CopySection): string =>
+  `copy.${frameworkId}.${section}`;
+
+/** Variables copy templates can use: the ProductData fields plus the page being written. */
+export const buildCopyPromptVariables = (
+  productData: ProductData,
+  pageType: string,
+  pageTypeLabel: string,
+  language: CopyLanguageInfo,
+  upstream: CopyUpstream
+): PromptVariables => ({ ...productData, pageType, pageTypeLabel, language, upstream });
+
+// Lines that hand an upstream section's text to the prompt that builds on it
+const UPSTREAM_NOTES: Partial<Record<CopySection, (upstream: CopyUpstream) => string>> = {
+  subheadline: upstream => upstream.headline && `Headline it supports: ${upstream.headline}`,
+  urgency: upstream => upstream.cta && `It leads into this call to action: ${upstream.cta}`
+};
+
+// Social proof may only quote the source page, so the prompt carries its testimonials verbatim, or forbids quotes when it has none
+const buildTestimonialNote = (variables: PromptVariables) => {
+  const perceivedLikelihood = variables.perceivedLikelihood as { testimonials?: string[] } | undefined;
+  const testimonials = (perceivedLikelihood?.testimonials || []).filter(testimonial => testimonial && testimonial !== 'MISSING');
+  return testimonials.length > 0
+    ? `Testimonials from the source page. Quote only these, word for word, and never invent others:\n${testimonials.map(testimonial => `- ${testimonial}`).join('\n')}`
+    : 'The source page has no testimonials. Do not write customer quotes or attribute words to customers.';
+};
+
+export interface SectionPromptTemplates {
+  instructions: string;
+  context: string;
+}
+
+/** Full prompt for one section: the framework's instructions, shared context and output format. */
+export const buildSectionPrompt = (
+  section: CopySection,
+  templates: SectionPromptTemplates,
+  variables: PromptVariables
+): string => {
+  const upstream = variables.upstream as CopyUpstream | undefined;
+  return [
+    renderPromptTemplate(templates.instructions, variables),
+    upstream && UPSTREAM_NOTES[section]?.(upstream),
+    section === 'socialProof' && buildTestimonialNote(variables),
+    renderPromptTemplate(templates.context, variables),
+    SECTION_OUTPUT_FORMATS[section]
+  ].filter(Boolean).join('\n\n');
+};
@@ -0,0 +1,152 @@
+export type CopyLanguage = 'en' | 'es' | 'de' | 'pt';
+
+export const DEFAULT_COPY_LANGUAGE: CopyLanguage = 'en';
+
+export interface CopyLanguageInfo {
+  code: CopyLanguage;
+  name: string;
+  nativeName: string;
+}
+
+export const COPY_LANGUAGES: Record<CopyLanguage, CopyLanguageInfo> = {
+  en: { code: 'en', name: 'English', nativeName: 'English' },
+  es: { code: 'es', name: 'Spanish', nativeName: 'Español' },
+  de: { code: 'de', name: 'German', nativeName: 'Deutsch' },
+  pt: { code: 'pt', name: 'Portuguese', nativeName: 'Português' }
+};
+
+export const getCopyLanguage = (code: string | null | undefined): CopyLanguageInfo =>
+  COPY_LANGUAGES[code as CopyLanguage] || COPY_LANGUAGES[DEFAULT_COPY_LANGUAGE];
+
+/** Fixed text the preview templates put around the generated copy. */
+export interface PreviewStrings {
+  // Section headings
+  commonQuestions: string;
+  customersSay: string;
+  whatYouGetInside: string;
+  joinThousands: string;
+  keyBenefits: string;
+  customerReviews: string;
+  actNow: string;
+  readyToStart: string;
+  // Framework headings, see PreviewLayoutHints
+  whyYouWillLoveIt: string;
+  theSolution: string;
+  soundFamiliar: string;
+  pictureThis: string;
+  theProof: string;
+  weUnderstand: string;
+  yourPlan: string;
+  // Opt-in form and product cards
+  freeDownload: string;
+  namePlaceholder: string;
+  emailPlaceholder: string;
+  downloadFree: string;
+  noSpam: string;
+  benefit: string;
+  productImageAlt: string;
+}
+
+export type PreviewStringKey = keyof PreviewStrings;
+
+export const PREVIEW_STRINGS: Record<CopyLanguage, PreviewStrings> = {
+  en: {
+    commonQuestions: 'Common Questions',
+    customersSay: 'What Our Customers Say',
+    whatYouGetInside: "What You'll Get Inside",
+    joinThousands: 'Join Thousands of Others',
+    keyBenefits: 'Key Benefits',
+    customerReviews: 'Customer Reviews',
+    actNow: "Don't Wait - Act Now!",
+    readyToStart: 'Ready to Get Started?',
+    whyYouWillLoveIt: 'Why You Will Love It',
+    theSolution: 'The Solution',
+    soundFamiliar: 'Sound Familiar?',
+    pictureThis: 'Picture This',
+    theProof: 'The Proof',
+    weUnderstand: 'We Understand',
+    yourPlan: 'Your Plan',
+    freeDownload: 'Get Your Free Download',
+    namePlaceholder: 'Enter your name',
+    emailPlaceholder: 'Enter your email',
+    downloadFree: 'Download Now - 100% Free',
+    noSpam: 'No spam. Unsubscribe anytime.',
+    benefit: 'Benefit',
+    productImageAlt: 'Product'
+  },
+  es: {
+    commonQuestions: 'Preguntas Frecuentes',
+    customersSay: 'Lo Que Dicen Nuestros Clientes',
+    whatYouGetInside: 'Lo Que Encontrarás Dentro',
+    joinThousands: 'Únete a Miles de Personas',
+    keyBenefits: 'Beneficios Clave',
+    customerReviews: 'Opiniones de Clientes',
+    actNow: '¡No Esperes, Actúa Ahora!',
+    readyToStart: '¿Listo Para Empezar?',
+    whyYouWillLoveIt: 'Por Qué Te Va a Encantar',
+    theSolution: 'La Solución',
+    soundFamiliar: '¿Te Suena Familiar?',
+    pictureThis: 'Imagina Esto',
+    theProof: 'Las Pruebas',
+    weUnderstand: 'Te Entendemos',
+    yourPlan: 'Tu Plan',
+    freeDownload: 'Consigue Tu Descarga Gratis',
+    namePlaceholder: 'Escribe tu nombre',
+    emailPlaceholder: 'Escribe tu correo electrónico',
+    downloadFree: 'Descargar Ahora - 100% Gratis',
+    noSpam: 'Sin spam. Cancela cuando quieras.',
+    benefit: 'Beneficio',
+    productImageAlt: 'Producto'
+  },
+  de: {
+    commonQuestions: 'Häufige Fragen',
+    customersSay: 'Das Sagen Unsere Kunden',
+    whatYouGetInside: 'Das Erwartet Dich',
+    joinThousands: 'Schließ Dich Tausenden An',
+    keyBenefits: 'Die Wichtigsten Vorteile',
+    customerReviews: 'Kundenbewertungen',
+    actNow: 'Nicht Warten - Jetzt Handeln!',
+    readyToStart: 'Bereit Loszulegen?',
+    whyYouWillLoveIt: 'Warum Du Es Lieben Wirst',
+    theSolution: 'Die Lösung',
+    soundFamiliar: 'Kommt Dir Das Bekannt Vor?',
+    pictureThis: 'Stell Dir Vor',
+    theProof: 'Die Beweise',
+    weUnderstand: 'Wir Verstehen Dich',
+    yourPlan: 'Dein Plan',
+    freeDownload: 'Hol Dir Deinen Kostenlosen Download',
+    namePlaceholder: 'Dein Name',
+    emailPlaceholder: 'Deine E-Mail-Adresse',
+    downloadFree: 'Jetzt Herunterladen - 100% Kostenlos',
+    noSpam: 'Kein Spam. Jederzeit abmeldbar.',
+    benefit: 'Vorteil',
+    productImageAlt: 'Produkt'
+  },
+  pt: {
+    commonQuestions: 'Perguntas Frequentes',
+    customersSay: 'O Que Nossos Clientes Dizem',
+    whatYouGetInside: 'O Que Você Vai Receber',
+    joinThousands: 'Junte-se a Milhares de Pessoas',
+    keyBenefits: 'Principais Benefícios',
+    customerReviews: 'Avaliações de Clientes',
+    actNow: 'Não Espere - Aja Agora!',
+    readyToStart: 'Pronto Para Começar?',
+    whyYouWillLoveIt: 'Por Que Você Vai Adorar',
+    theSolution: 'A Solução',
+    soundFamiliar: 'Parece Familiar?',
+    pictureThis: 'Imagine Só',
+    theProof: 'As Provas',
+    weUnderstand: 'Nós Entendemos Você',
+    yourPlan: 'Seu Plano',
+    freeDownload: 'Receba Seu Download Gratuito',
+    namePlaceholder: 'Digite seu nome',
+    emailPlaceholder: 'Digite seu e-mail',
+    downloadFree: 'Baixar Agora - 100% Grátis',
+    noSpam: 'Sem spam. Cancele quando quiser.',
+    benefit: 'Benefício',
+    productImageAlt: 'Produto'
+  }
+};
+
+export const getPreviewStrings = (code: string | null | undefined): PreviewStrings =>
+  PREVIEW_STRINGS[getCopyLanguage(code).code];
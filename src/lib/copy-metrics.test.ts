@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { countSyllables, getMetricStatus, getSectionMetrics, measureTexts } from './copy-metrics';
+import { buildGeneratedCopy } from './copy-parsing';
+
+describe('countSyllables', () => {
+  it('counts vowel groups and drops a silent final e', () => {
+    expect(['cat', 'sleep', 'better', 'tonight', 'refreshed', 'make', 'quickly'].map(countSyllables))
+      .toEqual([1, 1, 2, 2, 2, 1, 2]);
+  });
+});
+
+describe('measureTexts', () => {
+  it('scores plain reader-focused copy', () => {
+    const values = measureTexts(['You will sleep well tonight. Your mornings get easy.']);
+    expect(values.sentenceLength).toBe(4.5);
+    expect(values.youFocus).toBe(100);
+    expect(values.powerWords).toBeCloseTo(11.1);
+    expect(values.readingGrade).toBeLessThan(4);
+  });
+
+  it('counts each field as at least one sentence and leaves out metrics it cannot compute', () => {
+    const values = measureTexts(['Fall asleep faster', 'Wake up refreshed'], { english: false });
+    expect(values).toEqual({ sentenceLength: 3 });
+  });
+
+  it('balances you against we', () => {
+    expect(measureTexts(['We built our formula so you can rest.']).youFocus).toBe(33);
+  });
+});
+
+describe('getSectionMetrics', () => {
+  it('checks the headline against the brand thresholds', () => {
+    const copy = buildGeneratedCopy({ headline: 'Sleep Better Tonight' }, null);
+    const metrics = getSectionMetrics(copy, 'headline', { thresholds: { headlineWords: { min: 2, max: 4 } } });
+
+    expect(metrics.find(metric => metric.id === 'headlineWords')).toMatchObject({ value: 3, status: 'good' });
+    expect(metrics.find(metric => metric.id === 'headlineChars')).toMatchObject({ value: 20, status: 'good' });
+    expect(getSectionMetrics(copy, 'headline').find(metric => metric.id === 'headlineWords')?.status).toBe('low');
+    expect(getSectionMetrics(copy, 'subheadline').some(metric => metric.id === 'headlineWords')).toBe(false);
+  });
+
+  it('reports which side of the range a value falls on', () => {
+    expect(getMetricStatus(5, { min: 6 })).toBe('low');
+    expect(getMetricStatus(14, { min: 6, max: 12 })).toBe('high');
+    expect(getMetricStatus(14, {})).toBe('good');
+  });
+});
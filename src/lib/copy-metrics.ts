@@ -0,0 +1,175 @@
+import type { GeneratedCopy } from '@/components/CopyGeneration';
+import { listCopyFields } from '@/lib/compliance';
+import type { CopySection } from '@/lib/project-dependencies';
+
+export type CopyMetricId = 'readingGrade' | 'sentenceLength' | 'youFocus' | 'powerWords' | 'headlineWords' | 'headlineChars';
+
+/** Acceptable range for a metric; either bound may be left open. */
+export interface MetricThreshold {
+  min?: number;
+  max?: number;
+}
+
+export type CopyMetricThresholds = Record<CopyMetricId, MetricThreshold>;
+
+export interface CopyMetricDefinition {
+  label: string;
+  description: string;
+  unit: string;
+  // Only scored on the headline
+  headlineOnly?: boolean;
+  // Depends on English syllables or word lists, so skipped for copy in other languages
+  englishOnly?: boolean;
+}
+
+export const COPY_METRICS: Record<CopyMetricId, CopyMetricDefinition> = {
+  readingGrade: {
+    label: 'Reading Grade',
+    description: 'Flesch-Kincaid grade level: the years of school needed to follow the text easily.',
+    unit: 'grade',
+    englishOnly: true
+  },
+  sentenceLength: {
+    label: 'Sentence Length',
+    description: 'Average words per sentence.',
+    unit: 'words'
+  },
+  youFocus: {
+    label: 'You-Focus',
+    description: 'Share of "you" and "your" among the pronouns that talk about the reader or the seller.',
+    unit: '%',
+    englishOnly: true
+  },
+  powerWords: {
+    label: 'Power Words',
+    description: 'Emotionally charged words per 100 words.',
+    unit: 'per 100',
+    englishOnly: true
+  },
+  headlineWords: {
+    label: 'Headline Words',
+    description: 'Words in the headline.',
+    unit: 'words',
+    headlineOnly: true
+  },
+  headlineChars: {
+    label: 'Headline Length',
+    description: 'Characters in the headline, which search results and social cards cut off past about 60-70.',
+    unit: 'chars',
+    headlineOnly: true
+  }
+};
+
+// Direct response rules of thumb; brand voices can override any of them
+export const DEFAULT_METRIC_THRESHOLDS: CopyMetricThresholds = {
+  readingGrade: { max: 8 },
+  sentenceLength: { max: 20 },
+  youFocus: { min: 60 },
+  powerWords: { min: 1, max: 8 },
+  headlineWords: { min: 6, max: 12 },
+  headlineChars: { max: 70 }
+};
+
+const POWER_WORDS = new Set([
+  'amazing', 'proven', 'free', 'instant', 'instantly', 'new', 'secret', 'guaranteed', 'easy', 'effortless',
+  'exclusive', 'powerful', 'breakthrough', 'discover', 'transform', 'ultimate', 'simple', 'fast', 'results',
+  'save', 'love', 'confidence', 'freedom', 'effortlessly', 'remarkable', 'stunning', 'boost', 'unlock',
+  'imagine', 'finally', 'now', 'today', 'limited', 'bonus', 'risk-free', 'skyrocket', 'essential', 'best',
+  'incredible', 'revolutionary', 'shocking', 'surprising', 'safe', 'trusted', 'unstoppable', 'joy', 'relief'
+]);
+
+const SECOND_PERSON = new Set(['you', 'your', 'yours', 'yourself', "you're", "you'll", "you've"]);
+const FIRST_PERSON = new Set(['we', 'our', 'ours', 'us', 'i', 'my', 'me', "we're", "we'll", "we've", "i'm"]);
+
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu;
+
+const toWords = (text: string) => (text.match(WORD_PATTERN) || []).map(word => word.toLowerCase().replace(/’/g, "'"));
+
+/** Vowel groups, less a silent final "e"; close enough for reading-level estimates. */
+export const countSyllables = (word: string): number => {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (!letters) return 0;
+  if (letters.length <= 3) return 1;
+  const groups = letters.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '').match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups?.length || 0);
+};
+
+// A field without end punctuation (a benefit bullet, a CTA) still counts as one sentence
+const countSentences = (text: string) =>
+  Math.max(1, text.split(/[.!?]+(?=\s|$)/).filter(part => /[\p{L}\p{N}]/u.test(part)).length);
+
+const round = (value: number, places = 1) => Math.round(value * 10 ** places) / 10 ** places;
+
+export type CopyMetricValues = Partial<Record<CopyMetricId, number>>;
+
+/**
+ * Scores a set of texts as one passage. Metrics that can't be computed, such
+ * as you-focus for text with no pronouns, are left out.
+ */
+export const measureTexts = (texts: string[], { english = true, headline = false } = {}): CopyMetricValues => {
+  const nonEmpty = texts.filter(text => text && text.trim());
+  const words = nonEmpty.flatMap(toWords);
+  if (words.length === 0) return {};
+
+  const sentences = nonEmpty.reduce((total, text) => total + countSentences(text), 0);
+  const values: CopyMetricValues = { sentenceLength: round(words.length / sentences) };
+
+  if (english) {
+    const syllables = words.reduce((total, word) => total + countSyllables(word), 0);
+    values.readingGrade = round(Math.max(0, 0.39 * (words.length / sentences) + 11.8 * (syllables / words.length) - 15.59));
+    values.powerWords = round((words.filter(word => POWER_WORDS.has(word)).length / words.length) * 100);
+    const you = words.filter(word => SECOND_PERSON.has(word)).length;
+    const we = words.filter(word => FIRST_PERSON.has(word)).length;
+    if (you + we > 0) values.youFocus = Math.round((you / (you + we)) * 100);
+  }
+
+  if (headline) {
+    values.headlineWords = words.length;
+    values.headlineChars = nonEmpty.join(' ').trim().length;
+  }
+
+  return values;
+};
+
+export type MetricStatus = 'good' | 'low' | 'high';
+
+export const getMetricStatus = (value: number, threshold: MetricThreshold | undefined): MetricStatus => {
+  if (threshold?.min !== undefined && value < threshold.min) return 'low';
+  if (threshold?.max !== undefined && value > threshold.max) return 'high';
+  return 'good';
+};
+
+export interface SectionMetric {
+  id: CopyMetricId;
+  value: number;
+  status: MetricStatus;
+  threshold: MetricThreshold;
+}
+
+/** The metrics for one section of the copy, each checked against the brand's thresholds or the defaults. */
+export const getSectionMetrics = (
+  copy: GeneratedCopy | null,
+  section: CopySection,
+  { thresholds, english = true }: { thresholds?: Partial<CopyMetricThresholds>; english?: boolean } = {}
+): SectionMetric[] => {
+  if (!copy) return [];
+  const texts = listCopyFields(copy).filter(field => field.section === section).map(field => field.text);
+  const values = measureTexts(texts, { english, headline: section === 'headline' });
+
+  return (Object.keys(COPY_METRICS) as CopyMetricId[])
+    .filter(id => values[id] !== undefined)
+    .map(id => {
+      const threshold = thresholds?.[id] || DEFAULT_METRIC_THRESHOLDS[id];
+      return { id, value: values[id]!, status: getMetricStatus(values[id]!, threshold), threshold };
+    });
+};
+
+export const formatMetricValue = (id: CopyMetricId, value: number) =>
+  COPY_METRICS[id].unit === '%' ? `${value}%` : `${value} ${COPY_METRICS[id].unit}`;
+
+export const formatThreshold = (id: CopyMetricId, { min, max }: MetricThreshold) => {
+  if (min !== undefined && max !== undefined) return `${formatMetricValue(id, min)} to ${formatMetricValue(id, max)}`;
+  if (min !== undefined) return `at least ${formatMetricValue(id, min)}`;
+  if (max !== undefined) return `at most ${formatMetricValue(id, max)}`;
+  return 'no target';
+};
@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyCopySections,
+  buildGeneratedCopy,
+  findAppliedVariant,
+  getSectionFragment,
+  normalizeGeneratedCopy,
+  parsePartialSection,
+  parseSectionResponse,
+  parseTranslatedCopy
+} from './copy-parsing';
+import type { GeneratedCopy } from '@/components/CopyGeneration';
+
+describe('parseSectionResponse', () => {
+  it('trims plain text sections', () => {
+    expect(parseSectionResponse('headline', '  Sleep Better Tonight \n')).toEqual({ headline: 'Sleep Better Tonight' });
+  });
+
+  it('uses a placeholder for empty text sections', () => {
+    expect(parseSectionResponse('urgency', '')).toEqual({ urgency: 'Generated urgency content' });
+  });
+
+  it('parses benefits from a bare array or a wrapping object', () => {
+    expect(parseSectionResponse('benefits', '["Fall asleep faster", "Wake up rested"]'))
+      .toEqual({ benefits: ['Fall asleep faster', 'Wake up rested'] });
+    expect(parseSectionResponse('benefits', '{"benefits": ["Fall asleep faster"]}'))
+      .toEqual({ benefits: ['Fall asleep faster'] });
+  });
+
+  it('reads JSON wrapped in a markdown fence', () => {
+    expect(parseSectionResponse('cta', 'Here you go:\n```json\n{"cta_options": ["Buy Now", "Try Free"]}\n```'))
+      .toEqual({ cta: ['Buy Now', 'Try Free'] });
+  });
+
+  it('falls back to the raw text when list JSON is invalid', () => {
+    expect(parseSectionResponse('cta', 'Start Sleeping Better')).toEqual({ cta: ['Start Sleeping Better'] });
+    expect(parseSectionResponse('benefits', 'Deeper sleep').benefits).toHaveLength(3);
+  });
+
+  it('keeps each objection with its response', () => {
+    const response = '{"objections": [{"objection": "Too expensive?", "response": "It costs less than a coffee a day."}, "Plain answer"]}';
+    expect(parseSectionResponse('objections', response)).toEqual({
+      objectionHandling: [
+        { objection: 'Too expensive?', response: 'It costs less than a coffee a day.' },
+        { objection: '', response: 'Plain answer' }
+      ]
+    });
+  });
+});
+
+describe('parsePartialSection', () => {
+  it('keeps partial text sections as-is and skips empty ones', () => {
+    expect(parsePartialSection('heroText', 'Wake up feeling ')).toEqual({ heroText: 'Wake up feeling' });
+    expect(parsePartialSection('headline', '  ')).toEqual({});
+  });
+
+  it('keeps only the closed items of a cut-off list', () => {
+    expect(parsePartialSection('benefits', '{"benefits": ["Fall asleep faster", "Wake up res'))
+      .toEqual({ benefits: ['Fall asleep faster'] });
+    expect(parsePartialSection('cta', '[')).toEqual({});
+  });
+
+  it('keeps finished objection pairs', () => {
+    const partial = '[{"objection": "Too expensive?", "response": "Less than a coffee a day."}, {"objection": "Does it';
+    expect(parsePartialSection('objections', partial)).toEqual({
+      objectionHandling: [{ objection: 'Too expensive?', response: 'Less than a coffee a day.' }]
+    });
+  });
+
+  it('keeps plain text answers to list prompts whole', () => {
+    expect(parsePartialSection('cta', 'Start Sleeping')).toEqual({ cta: ['Start Sleeping'] });
+  });
+});
+
+describe('buildGeneratedCopy', () => {
+  const previousCopy: GeneratedCopy = {
+    headline: 'Old headline',
+    subheadline: 'Old subheadline',
+    heroText: 'Old hero',
+    benefits: ['Old benefit'],
+    socialProof: 'Old proof',
+    cta: 'Old CTA',
+    ctaOptions: ['Old CTA', 'Old alternate'],
+    urgency: 'Old urgency',
+    objectionHandling: [{ objection: 'Old question?', response: 'Old response' }],
+    guarantee: 'Old guarantee'
+  };
+
+  it('merges regenerated sections into the previous copy', () => {
+    const copy = buildGeneratedCopy({ headline: 'New headline', cta: ['New CTA', 'Alt CTA'] }, previousCopy);
+
+    expect(copy.headline).toBe('New headline');
+    expect(copy.cta).toBe('New CTA');
+    expect(copy.ctaOptions).toEqual(['New CTA', 'Alt CTA']);
+    expect(copy.benefits).toEqual(['Old benefit']);
+  });
+
+  it('overlays streamed sections without filling placeholders', () => {
+    const copy = applyCopySections(previousCopy, { subheadline: 'Half a sen', cta: ['Buy'] });
+
+    expect(copy.subheadline).toBe('Half a sen');
+    expect(copy.cta).toBe('Buy');
+    expect(copy.headline).toBe('Old headline');
+  });
+
+  it('fills placeholders when there is no previous copy', () => {
+    const copy = buildGeneratedCopy({}, null);
+
+    expect(copy.headline).toBe('Generated Headline');
+    expect(copy.cta).toBe('Get Started Now');
+    expect(copy.objectionHandling).toEqual([{ objection: '', response: 'Objection handled' }]);
+  });
+
+  it('finds which variant a section currently shows', () => {
+    const variants = [getSectionFragment(previousCopy, 'cta'), { cta: ['Buy Now', 'Try Free'] }];
+
+    expect(findAppliedVariant(previousCopy, 'cta', variants)).toBe(0);
+    expect(findAppliedVariant(applyCopySections(previousCopy, variants[1]), 'cta', variants)).toBe(1);
+    expect(findAppliedVariant({ ...previousCopy, cta: 'Typed by hand' }, 'cta', variants)).toBe(-1);
+  });
+});
+
+describe('normalizeGeneratedCopy', () => {
+  it('upgrades copy saved with bare responses and a single CTA', () => {
+    const legacy = {
+      headline: 'Sleep better',
+      cta: 'Buy Now',
+      objectionHandling: ['It pays for itself.']
+    } as unknown as GeneratedCopy;
+
+    const copy = normalizeGeneratedCopy(legacy);
+    expect(copy.ctaOptions).toEqual(['Buy Now']);
+    expect(copy.objectionHandling).toEqual([{ objection: '', response: 'It pays for itself.' }]);
+  });
+
+  it('leaves current copy unchanged', () => {
+    const copy = buildGeneratedCopy({
+      cta: ['Buy Now', 'Try Free'],
+      objectionHandling: [{ objection: 'Too expensive?', response: 'No.' }]
+    }, null);
+    expect(normalizeGeneratedCopy(copy)).toEqual(copy);
+  });
+});
+
+describe('parseTranslatedCopy', () => {
+  const original = {
+    ...buildGeneratedCopy({
+      headline: 'Sleep better',
+      benefits: ['Rest', 'Focus'],
+      cta: ['Buy Now', 'Try Free']
+    }, null),
+    cta: 'Try Free'
+  };
+
+  it('keeps the primary CTA on the same option', () => {
+    const copy = parseTranslatedCopy(JSON.stringify({
+      headline: 'Duerme mejor',
+      ctaOptions: ['Compra ahora', 'Pruébalo gratis']
+    }), original);
+    expect(copy.headline).toBe('Duerme mejor');
+    expect(copy.cta).toBe('Pruébalo gratis');
+  });
+
+  it('keeps the original where the translation is missing or changed shape', () => {
+    const copy = parseTranslatedCopy('```json\n{"headline": "", "benefits": ["Descanso"]}\n```', original);
+    expect(copy.headline).toBe('Sleep better');
+    expect(copy.benefits).toEqual(['Rest', 'Focus']);
+  });
+});
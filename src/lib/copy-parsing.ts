@@ -0,0 +1,254 @@
+import type { CopyObjection, GeneratedCopy } from '@/components/CopyGeneration';
+import type { CopySection } from '@/lib/project-dependencies';
+import { extractJSON } from '@/utils/LLMProvider';
+
+// What each copy prompt produced before it is merged into GeneratedCopy
+export interface ParsedCopySections {
+  headline?: string;
+  subheadline?: string;
+  heroText?: string;
+  benefits?: string[];
+  socialProof?: string;
+  cta?: string[];
+  urgency?: string;
+  objectionHandling?: CopyObjection[];
+  guarantee?: string;
+}
+
+// Alternatives generated for a section, each holding just the fields that section fills
+export type CopyVariants = Partial<Record<CopySection, ParsedCopySections[]>>;
+
+const toText = (item: unknown): string =>
+  typeof item === 'string' ? item : JSON.stringify(item);
+
+// Models answer list prompts with a bare array or wrap it, e.g. {"benefits": [...]}
+const toList = (parsed: unknown, key: string): unknown[] => {
+  if (Array.isArray(parsed)) return parsed;
+  const nested = parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>)[key] : undefined;
+  return Array.isArray(nested) ? nested : [parsed];
+};
+
+/**
+ * Reads [{"objection": "...", "response": "..."}] items. Bare strings, and
+ * copy saved before objections were kept, become responses without a question.
+ */
+export const toObjections = (items: unknown[]): CopyObjection[] =>
+  items.map(item => {
+    if (item && typeof item === 'object' && 'response' in item) {
+      const { objection, response } = item as Record<string, unknown>;
+      return { objection: objection ? toText(objection) : '', response: toText(response) };
+    }
+    return { objection: '', response: toText(item) };
+  });
+
+/**
+ * Turns one raw completion into the GeneratedCopy fields it fills. List
+ * sections expect JSON but fall back to treating the text as a single item.
+ */
+export const parseSectionResponse = (stage: CopySection, response: string): ParsedCopySections => {
+  const text = response.trim();
+
+  if (stage === 'benefits' || stage === 'cta') {
+    const key = stage === 'cta' ? 'cta_options' : 'benefits';
+    try {
+      return { [stage]: toList(extractJSON(text), key).map(toText) };
+    } catch {
+      return {
+        [stage]: stage === 'benefits'
+          ? [text, 'Additional benefit', 'Another benefit']
+          : [text]
+      };
+    }
+  }
+
+  if (stage === 'objections') {
+    try {
+      return { objectionHandling: toObjections(toList(extractJSON(text), 'objections')) };
+    } catch {
+      return { objectionHandling: [{ objection: '', response: text || 'Standard objection response' }] };
+    }
+  }
+
+  return { [stage]: text || `Generated ${stage} content` };
+};
+
+const LIST_SECTIONS: CopySection[] = ['benefits', 'cta', 'objections'];
+
+// Complete JSON string literals inside an array
+const STRING_VALUE_PATTERN = /"((?:[^"\\]|\\.)*)"/g;
+const OBJECTION_PAIR_PATTERN = /"objection"\s*:\s*"((?:[^"\\]|\\.)*)"\s*,\s*"response"\s*:\s*"((?:[^"\\]|\\.)*)"/g;
+
+const decodeJSONString = (literal: string): string => {
+  try {
+    return JSON.parse(`"${literal}"`);
+  } catch {
+    return literal;
+  }
+};
+
+/**
+ * Like parseSectionResponse, but for text that may stop mid-way (a live
+ * stream, or one the writer stopped). List sections keep every item whose
+ * string has been closed so far instead of falling back to placeholders.
+ */
+export const parsePartialSection = (stage: CopySection, partial: string): ParsedCopySections => {
+  const text = partial.trim();
+  if (!LIST_SECTIONS.includes(stage)) {
+    return text ? { [stage]: text } : {};
+  }
+
+  try {
+    extractJSON(text);
+    return parseSectionResponse(stage, text);
+  } catch {
+    // A model that ignored the JSON instruction answers in plain text; keep it whole
+    const plainText = text && !/^[[{`]/.test(text) ? text : '';
+
+    if (stage === 'objections') {
+      const pairs = [...text.matchAll(OBJECTION_PAIR_PATTERN)]
+        .map(match => ({ objection: decodeJSONString(match[1]), response: decodeJSONString(match[2]) }))
+        .filter(pair => pair.response);
+      if (pairs.length > 0) return { objectionHandling: pairs };
+      return plainText ? { objectionHandling: [{ objection: '', response: plainText }] } : {};
+    }
+
+    // Skip a wrapping key such as {"benefits": [ so it is not read as an item
+    const arrayStart = text.indexOf('[');
+    const items = arrayStart >= 0
+      ? [...text.slice(arrayStart).matchAll(STRING_VALUE_PATTERN)].map(match => decodeJSONString(match[1])).filter(Boolean)
+      : [];
+    const list = items.length > 0 ? items : (plainText ? [plainText] : []);
+    return list.length > 0 ? { [stage]: list } : {};
+  }
+};
+
+/** Overlays the sections in `results` on top of `copy`. */
+export const applyCopySections = (copy: GeneratedCopy, results: ParsedCopySections): GeneratedCopy => {
+  const { cta, ...rest } = results;
+  return {
+    ...copy,
+    ...rest,
+    ...(cta?.length ? { cta: cta[0], ctaOptions: cta } : {})
+  };
+};
+
+/** The fields `section` fills in `copy`, in the shape a parsed response has. */
+export const getSectionFragment = (copy: GeneratedCopy, section: CopySection): ParsedCopySections => {
+  // The primary CTA leads so applying the fragment keeps it primary
+  if (section === 'cta') return { cta: [copy.cta, ...(copy.ctaOptions || []).filter(option => option !== copy.cta)] };
+  if (section === 'objections') return { objectionHandling: copy.objectionHandling };
+  return { [section]: copy[section] };
+};
+
+/** Index of the variant `copy` currently shows for `section`, or -1 once it was edited. */
+export const findAppliedVariant = (
+  copy: GeneratedCopy,
+  section: CopySection,
+  variants: ParsedCopySections[]
+): number => {
+  const current = JSON.stringify(getSectionFragment(copy, section));
+  return variants.findIndex(variant =>
+    JSON.stringify(getSectionFragment(applyCopySections(copy, variant), section)) === current
+  );
+};
+
+const emptySections = (sections: CopySection[]): ParsedCopySections =>
+  Object.assign({}, ...sections.map(section => {
+    if (section === 'benefits') return { benefits: [] };
+    if (section === 'objections') return { objectionHandling: [] };
+    // cta is the one section every framework keeps, so it is never omitted
+    return section === 'cta' ? {} : { [section]: '' };
+  }));
+
+// Sections a framework left empty stay empty when another section is regenerated
+const withPlaceholders = (
+  results: ParsedCopySections,
+  previousCopy: GeneratedCopy | null
+): GeneratedCopy => ({
+  headline: results.headline || (previousCopy?.headline ?? 'Generated Headline'),
+  subheadline: results.subheadline || (previousCopy?.subheadline ?? 'Generated Subheadline'),
+  heroText: results.heroText || (previousCopy?.heroText ?? 'Generated hero text'),
+  benefits: results.benefits || (previousCopy?.benefits ?? ['Generated benefit']),
+  socialProof: results.socialProof || (previousCopy?.socialProof ?? 'Generated social proof'),
+  cta: results.cta?.[0] || previousCopy?.cta || 'Get Started Now',
+  ctaOptions: results.cta || previousCopy?.ctaOptions || [previousCopy?.cta || 'Get Started Now'],
+  urgency: results.urgency || (previousCopy?.urgency ?? 'Limited time offer'),
+  objectionHandling: results.objectionHandling || (previousCopy?.objectionHandling ?? [{ objection: '', response: 'Objection handled' }]),
+  guarantee: results.guarantee || (previousCopy?.guarantee ?? 'Money back guarantee')
+});
+
+/**
+ * Assembles the final copy, keeping sections from `previousCopy` that were not
+ * part of this run and filling anything still missing with placeholders.
+ * `omitted` sections are left empty instead, for frameworks that skip them.
+ */
+export const buildGeneratedCopy = (
+  results: ParsedCopySections,
+  previousCopy: GeneratedCopy | null,
+  omitted: CopySection[] = []
+): GeneratedCopy => applyCopySections(withPlaceholders(results, previousCopy), emptySections(omitted));
+
+/**
+ * Brings copy saved before objections kept their question and before every
+ * CTA option was kept up to the current shape. Current copy passes through.
+ */
+export const normalizeGeneratedCopy = (copy: GeneratedCopy | null | undefined): GeneratedCopy | null => {
+  if (!copy) return null;
+  const cta = copy.cta || '';
+  return {
+    ...copy,
+    cta,
+    ctaOptions: Array.isArray(copy.ctaOptions) && copy.ctaOptions.length > 0 ? copy.ctaOptions : [cta],
+    objectionHandling: toObjections(Array.isArray(copy.objectionHandling) ? copy.objectionHandling : [])
+  };
+};
+
+/** Same upgrade for stored objection variants. */
+export const normalizeCopyVariants = (variants: CopyVariants | undefined): CopyVariants => {
+  if (!variants?.objections) return variants || {};
+  return {
+    ...variants,
+    objections: variants.objections.map(variant => ({
+      objectionHandling: toObjections(variant.objectionHandling || [])
+    }))
+  };
+};
+
+type CopyTextField = 'headline' | 'subheadline' | 'heroText' | 'socialProof' | 'cta' | 'urgency' | 'guarantee';
+
+/**
+ * Reads a translated copy object. Fields that are missing, empty or changed
+ * shape keep the original text, so a sloppy translation never drops a
+ * section. Throws if the response isn't JSON at all.
+ */
+export const parseTranslatedCopy = (content: string, original: GeneratedCopy): GeneratedCopy => {
+  const translated = extractJSON<Partial<Record<keyof GeneratedCopy, unknown>>>(content) || {};
+
+  const text = (field: CopyTextField): string => {
+    const value = translated[field];
+    return typeof value === 'string' && value.trim() ? value : original[field];
+  };
+  // Lists must line up item for item, or the CTA and variant bookkeeping would point at the wrong entries
+  const sameLength = (value: unknown, originalList: unknown[]): value is unknown[] =>
+    Array.isArray(value) && value.length === originalList.length;
+
+  const ctaOptions = sameLength(translated.ctaOptions, original.ctaOptions)
+    ? translated.ctaOptions.map(toText)
+    : original.ctaOptions;
+  const primaryIndex = original.ctaOptions.indexOf(original.cta);
+
+  return {
+    headline: text('headline'),
+    subheadline: text('subheadline'),
+    heroText: text('heroText'),
+    benefits: sameLength(translated.benefits, original.benefits) ? translated.benefits.map(toText) : original.benefits,
+    socialProof: text('socialProof'),
+    cta: primaryIndex >= 0 ? ctaOptions[primaryIndex] : text('cta'),
+    ctaOptions,
+    urgency: text('urgency'),
+    objectionHandling: sameLength(translated.objectionHandling, original.objectionHandling)
+      ? toObjections(translated.objectionHandling)
+      : original.objectionHandling,
+    guarantee: text('guarantee')
+  };
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { collectClassNames, purgeCss } from './css-purge';
+
+const CSS = `/* base */
+*, ::before, ::after { border-width: 0; }
+:root { --primary: 263 70% 50%; }
+.dark { --primary: 210 40% 98%; }
+.p-4 { padding: 1rem; }
+.p-8 { padding: 2rem; }
+.hover\\:bg-primary\\/90:hover { background-color: hsl(var(--primary) / 0.9); }
+.space-y-4 > :not([hidden]) ~ :not([hidden]) { margin-top: 1rem; }
+.group:hover .group-hover\\:underline, .unused .also-unused { text-decoration: underline; }
+.animate-spin { animation: spin 1s linear infinite; }
+@keyframes spin { to { transform: rotate(360deg); } }
+@keyframes pulse { 50% { opacity: .5; } }
+@media (min-width: 768px) {
+  .md\\:text-6xl { font-size: 3.75rem; }
+  .md\\:text-5xl { font-size: 3rem; }
+}
+@media (min-width: 1024px) { .lg\\:grid-cols-3 { grid-template-columns: repeat(3, minmax(0, 1fr)); } }
+.before\\:content-\\[\\'\\{\\'\\]::before { content: '{'; }`;
+
+const MARKUP = '<div class="p-4 space-y-4 group"><h1 class="md:text-6xl hover:bg-primary/90">Hi</h1>'
+  + '<span class="group-hover:underline animate-spin">.</span></div>';
+
+describe('collectClassNames', () => {
+  it('reads class attributes, decoding escaped characters', () => {
+    expect(Array.from(collectClassNames('<p class="a  b [&amp;_svg]:size-4"></p><i class="a"></i>')))
+      .toEqual(['a', 'b', '[&_svg]:size-4']);
+  });
+});
+
+describe('purgeCss', () => {
+  it('keeps base rules and rules whose classes are all used', () => {
+    const purged = purgeCss(CSS, MARKUP);
+
+    expect(purged).toContain('*,::before,::after{border-width: 0;}');
+    expect(purged).toContain(':root{--primary: 263 70% 50%;}');
+    expect(purged).toContain('.p-4{');
+    expect(purged).toContain('.hover\\:bg-primary\\/90:hover{');
+    expect(purged).toContain('.space-y-4 > :not([hidden]) ~ :not([hidden]){');
+    expect(purged).toContain('@media (min-width: 768px){.md\\:text-6xl{font-size: 3.75rem;}}');
+    expect(purged).not.toMatch(/\.dark|\.p-8|text-5xl|lg\\:grid-cols-3|content-/);
+  });
+
+  it('skips over escaped quotes and braces in selectors', () => {
+    expect(purgeCss(CSS, '<p class="before:content-[\'{\']"></p>')).toContain("::before{content: '{';}");
+  });
+
+  it('drops unused selectors from a list and unused keyframes', () => {
+    const purged = purgeCss(CSS, MARKUP);
+
+    expect(purged).toContain('.group:hover .group-hover\\:underline{text-decoration: underline;}');
+    expect(purged).toContain('@keyframes spin');
+    expect(purged).not.toContain('@keyframes pulse');
+    expect(purgeCss(CSS, '<p class="p-8"></p>')).not.toContain('@keyframes');
+  });
+});
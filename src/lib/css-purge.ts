@@ -0,0 +1,127 @@
+interface CssBlock {
+  // Selector or at-rule prelude, e.g. `.p-4` or `@media (min-width: 768px)`
+  prelude: string;
+  // Inside the braces; undefined for statements such as `@import url(...);`
+  body?: string;
+}
+
+const HTML_ENTITIES: Record<string, string> = { '&amp;': '&', '&quot;': '"', '&#x27;': "'", '&#39;': "'", '&lt;': '<', '&gt;': '>' };
+
+/** Every class name used in the markup, as written in the class attributes. */
+export const collectClassNames = (markup: string): Set<string> => {
+  const classNames = new Set<string>();
+  for (const match of markup.matchAll(/\sclass="([^"]*)"/g)) {
+    match[1]
+      .replace(/&(amp|quot|#x27|#39|lt|gt);/g, entity => HTML_ENTITIES[entity])
+      .split(/\s+/)
+      .filter(Boolean)
+      .forEach(className => classNames.add(className));
+  }
+  return classNames;
+};
+
+// Top-level rules and statements, skipping over nested braces, strings and comments
+const parseBlocks = (css: string): CssBlock[] => {
+  const source = css.replace(/\/\*[\s\S]*?\*\//g, '');
+  const blocks: CssBlock[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let preludeStart = 0;
+  let bodyStart = 0;
+  let prelude = '';
+
+  for (let index = 0; index < source.length; index++) {
+    const char = source[index];
+    // Escapes appear in strings and in selectors such as `.content-\[\'\{\'\]`
+    if (char === '\\') {
+      index++;
+    } else if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '{') {
+      if (depth === 0) {
+        prelude = source.slice(preludeStart, index).trim();
+        bodyStart = index + 1;
+      }
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) {
+        blocks.push({ prelude, body: source.slice(bodyStart, index) });
+        preludeStart = index + 1;
+      }
+    } else if (char === ';' && depth === 0) {
+      const statement = source.slice(preludeStart, index).trim();
+      if (statement) blocks.push({ prelude: statement });
+      preludeStart = index + 1;
+    }
+  }
+  return blocks;
+};
+
+// Commas that separate selectors, not the ones inside `:is(a, b)`
+const splitSelectorList = (selectorList: string): string[] => {
+  const selectors: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let index = 0; index < selectorList.length; index++) {
+    const char = selectorList[index];
+    if (char === '\\') index++;
+    else if (char === '(' || char === '[') depth++;
+    else if (char === ')' || char === ']') depth--;
+    else if (char === ',' && depth === 0) {
+      selectors.push(selectorList.slice(start, index).trim());
+      start = index + 1;
+    }
+  }
+  selectors.push(selectorList.slice(start).trim());
+  return selectors.filter(Boolean);
+};
+
+/**
+ * The classes an element tree must contain for the selector to match anything.
+ * Classes inside `:not()` are left out since they exclude rather than require.
+ */
+const getRequiredClasses = (selector: string): string[] =>
+  Array.from(selector.replace(/:not\((?:[^()]|\([^()]*\))*\)/g, '').matchAll(/\.((?:\\.|[\w-])+)/g))
+    .map(match => match[1].replace(/\\(.)/g, '$1'));
+
+const GROUPING_AT_RULES = /^@(media|supports|container|layer)\b/;
+const KEYFRAMES_AT_RULE = /^@(-webkit-)?keyframes\s+([\w-]+)/;
+
+const formatBlock = ({ prelude, body }: CssBlock) => body === undefined ? `${prelude};` : `${prelude}{${body.trim()}}`;
+
+const purgeBlocks = (blocks: CssBlock[], classNames: Set<string>): CssBlock[] =>
+  blocks.flatMap(block => {
+    if (block.body === undefined || block.prelude.startsWith('@')) {
+      if (block.body !== undefined && GROUPING_AT_RULES.test(block.prelude)) {
+        const inner = purgeBlocks(parseBlocks(block.body), classNames);
+        return inner.length > 0 ? [{ prelude: block.prelude, body: inner.map(formatBlock).join('') }] : [];
+      }
+      // @import, @font-face, @keyframes and the like; unused keyframes go in a second pass
+      return [block];
+    }
+
+    const selectors = splitSelectorList(block.prelude)
+      .filter(selector => getRequiredClasses(selector).every(className => classNames.has(className)));
+    return selectors.length > 0 ? [{ prelude: selectors.join(','), body: block.body }] : [];
+  });
+
+/**
+ * Drops every style rule that references a class the markup doesn't use,
+ * along with media queries left empty and keyframes no kept rule animates.
+ * Rules without classes, like the base styles and custom properties, stay.
+ */
+export const purgeCss = (css: string, markup: string): string => {
+  const kept = purgeBlocks(parseBlocks(css), collectClassNames(markup));
+  const rulesText = kept.filter(block => !KEYFRAMES_AT_RULE.test(block.prelude)).map(formatBlock).join('\n');
+
+  return kept
+    .filter(block => {
+      const name = block.prelude.match(KEYFRAMES_AT_RULE)?.[2];
+      return !name || new RegExp(`(^|[^\\w-])${name}($|[^\\w-])`).test(rulesText);
+    })
+    .map(formatBlock)
+    .join('\n');
+};
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { runDependencyGraph } from './dependency-graph';
+
+type Node = 'a' | 'b' | 'c' | 'd';
+
+// Resolves each node on demand so tests control the completion order
+const createControlledRun = () => {
+  const started: Node[] = [];
+  const pending = new Map<Node, { resolve: () => void; reject: (error: Error) => void }>();
+  let inFlight = 0;
+  let maxInFlight = 0;
+
+  const run = (node: Node) => new Promise<void>((resolve, reject) => {
+    started.push(node);
+    inFlight++;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    pending.set(node, {
+      resolve: () => {
+        inFlight--;
+        resolve();
+      },
+      reject: error => {
+        inFlight--;
+        reject(error);
+      }
+    });
+  });
+
+  const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  return { run, started, pending, flush, getMaxInFlight: () => maxInFlight };
+};
+
+describe('runDependencyGraph', () => {
+  it('starts independent nodes together and dependents once their inputs finish', async () => {
+    const { run, started, pending, flush } = createControlledRun();
+    const done = runDependencyGraph<Node>(['a', 'b', 'c'], { b: ['a'] }, run, { concurrency: 3 });
+
+    await flush();
+    expect(started).toEqual(['a', 'c']);
+
+    pending.get('a')!.resolve();
+    await flush();
+    expect(started).toEqual(['a', 'c', 'b']);
+
+    pending.get('b')!.resolve();
+    pending.get('c')!.resolve();
+    expect((await done).completed).toEqual(['a', 'b', 'c']);
+  });
+
+  it('never exceeds the concurrency cap', async () => {
+    const { run, pending, flush, getMaxInFlight } = createControlledRun();
+    const done = runDependencyGraph<Node>(['a', 'b', 'c', 'd'], {}, run, { concurrency: 2 });
+
+    for (let i = 0; i < 4; i++) {
+      await flush();
+      [...pending.values()].forEach(({ resolve }) => resolve());
+      pending.clear();
+    }
+
+    expect((await done).completed).toHaveLength(4);
+    expect(getMaxInFlight()).toBe(2);
+  });
+
+  it('skips everything downstream of a failure but finishes other branches', async () => {
+    const { run, pending, flush } = createControlledRun();
+    const done = runDependencyGraph<Node>(['a', 'b', 'c', 'd'], { b: ['a'], c: ['b'] }, run, { concurrency: 4 });
+
+    await flush();
+    pending.get('a')!.reject(new Error('boom'));
+    pending.get('d')!.resolve();
+
+    const result = await done;
+    expect(result.completed).toEqual(['d']);
+    expect(result.failed.map(({ node }) => node)).toEqual(['a']);
+    expect(result.skipped).toEqual(['b', 'c']);
+  });
+
+  it('treats dependencies outside the run as satisfied', async () => {
+    const { run, started, pending, flush } = createControlledRun();
+    const done = runDependencyGraph<Node>(['b'], { b: ['a'] }, run, { concurrency: 1 });
+
+    await flush();
+    expect(started).toEqual(['b']);
+    pending.get('b')!.resolve();
+    expect((await done).completed).toEqual(['b']);
+  });
+
+  it('stops launching new nodes once asked to stop', async () => {
+    const { run, pending, flush } = createControlledRun();
+    let stopped = false;
+    const done = runDependencyGraph<Node>(['a', 'b', 'c'], {}, run, { concurrency: 1, shouldStop: () => stopped });
+
+    await flush();
+    stopped = true;
+    pending.get('a')!.resolve();
+
+    const result = await done;
+    expect(result.completed).toEqual(['a']);
+    expect(result.skipped).toEqual(['b', 'c']);
+  });
+});
@@ -0,0 +1,84 @@
+export interface GraphRunOptions {
+  // Most nodes allowed in flight at once
+  concurrency: number;
+  // Checked before each launch; nodes not started yet are skipped once it returns true
+  shouldStop?: () => boolean;
+}
+
+export interface GraphRunResult<K extends string> {
+  completed: K[];
+  failed: Array<{ node: K; error: unknown }>;
+  // Never started, because an upstream node failed or the run was stopped
+  skipped: K[];
+}
+
+/**
+ * Runs every node once the dependencies it shares with `nodes` have completed,
+ * starting ready nodes in the order given. Dependencies outside `nodes` count
+ * as already satisfied. A failure skips everything downstream of the failed
+ * node while independent branches carry on.
+ */
+export const runDependencyGraph = <K extends string>(
+  nodes: K[],
+  dependencies: Partial<Record<K, K[]>>,
+  run: (node: K) => Promise<void>,
+  { concurrency, shouldStop }: GraphRunOptions
+): Promise<GraphRunResult<K>> => {
+  const limit = Math.max(1, Math.floor(concurrency) || 1);
+  const included = new Set(nodes);
+  const upstreamOf = (node: K) => (dependencies[node] || []).filter(dep => included.has(dep) && dep !== node);
+
+  const pending = [...new Set(nodes)];
+  const completed = new Set<K>();
+  const unavailable = new Set<K>();
+  const result: GraphRunResult<K> = { completed: [], failed: [], skipped: [] };
+  let active = 0;
+
+  const skip = (node: K) => {
+    pending.splice(pending.indexOf(node), 1);
+    unavailable.add(node);
+    result.skipped.push(node);
+  };
+
+  return new Promise(resolve => {
+    const launch = () => {
+      if (shouldStop?.()) {
+        [...pending].forEach(skip);
+      }
+
+      // Skipping one node can strand its own dependents, so repeat until nothing changes
+      let blocked = pending.filter(node => upstreamOf(node).some(dep => unavailable.has(dep)));
+      while (blocked.length > 0) {
+        blocked.forEach(skip);
+        blocked = pending.filter(node => upstreamOf(node).some(dep => unavailable.has(dep)));
+      }
+
+      for (const node of pending.filter(node => upstreamOf(node).every(dep => completed.has(dep)))) {
+        if (active >= limit) break;
+        pending.splice(pending.indexOf(node), 1);
+        active++;
+        run(node)
+          .then(() => {
+            completed.add(node);
+            result.completed.push(node);
+          })
+          .catch(error => {
+            unavailable.add(node);
+            result.failed.push({ node, error });
+          })
+          .finally(() => {
+            active--;
+            launch();
+          });
+      }
+
+      if (active === 0) {
+        // Anything left is part of a cycle and can never start
+        [...pending].forEach(skip);
+        resolve(result);
+      }
+    };
+
+    launch();
+  });
+};
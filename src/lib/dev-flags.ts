@@ -0,0 +1,11 @@
+const MOCK_PROVIDERS_STORAGE_KEY = 'mock_providers';
+
+/**
+ * Replays recorded scrapes and completions instead of calling Firecrawl,
+ * Apify or any LLM. Enable with `VITE_MOCK_PROVIDERS=true` in `.env.local`,
+ * or at runtime with `localStorage.setItem('mock_providers', 'true')`.
+ */
+export const isMockMode = (): boolean => {
+  if (import.meta.env.VITE_MOCK_PROVIDERS === 'true') return true;
+  return typeof localStorage !== 'undefined' && localStorage.getItem(MOCK_PROVIDERS_STORAGE_KEY) === 'true';
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { buildElementorTemplate, type ElementorElement } from './elementor';
+import type { PageSection } from './page-sections';
+
+const SECTIONS: PageSection[] = [
+  {
+    type: 'hero',
+    headline: 'Sleep Better',
+    subheadline: 'Tonight',
+    paragraphs: ['Intro'],
+    image: 'https://example.com/hero.jpg',
+    imageLayout: 'side',
+    imageAlt: 'Product',
+    overlay: 40,
+    cta: 'Buy Now'
+  },
+  { type: 'proof', heading: 'Reviews', lines: ['"Great" - Sam'], stars: true },
+  { type: 'offer', heading: 'Ready?', urgency: 'Today only', cta: 'Order', guarantee: '' }
+];
+
+const flatten = (elements: ElementorElement[]): ElementorElement[] =>
+  elements.flatMap(element => [element, ...flatten(element.elements)]);
+
+describe('buildElementorTemplate', () => {
+  it('builds one section per page section out of free widgets', () => {
+    const template = buildElementorTemplate('Sleep', SECTIONS);
+    expect(template).toMatchObject({ version: '0.4', title: 'Sleep', type: 'page' });
+    expect(template.content.map(section => section.elType)).toEqual(['section', 'section', 'section']);
+    expect(template.content[0].elements.map(column => column.settings._column_size)).toEqual([50, 50]);
+    expect(flatten(template.content).filter(element => element.widgetType).map(element => element.widgetType)).toEqual([
+      'heading', 'text-editor', 'text-editor', 'button', 'image',
+      'heading', 'text-editor', 'star-rating',
+      'heading', 'text-editor', 'button'
+    ]);
+  });
+
+  it('gives every element a unique id and is stable between runs', () => {
+    const template = buildElementorTemplate('Sleep', SECTIONS);
+    const ids = flatten(template.content).map(element => element.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(buildElementorTemplate('Sleep', SECTIONS)).toEqual(template);
+  });
+
+  it('escapes copy going into HTML settings', () => {
+    const template = buildElementorTemplate('Sleep', [{ type: 'story', paragraphs: ['5 < 6 & "quoted"'] }]);
+    expect(template.content[0].elements[0].elements[0].settings.editor).toBe('<p>5 &lt; 6 &amp; &quot;quoted&quot;</p>');
+  });
+});
@@ -0,0 +1,163 @@
+import {
+  PAGE_COLORS,
+  buildOptInFormHtml,
+  type BenefitsSection,
+  type HeroSection,
+  type ObjectionsSection,
+  type OfferSection,
+  type PageSection,
+  type ProofSection
+} from './page-sections';
+
+export interface ElementorElement {
+  id: string;
+  elType: 'section' | 'column' | 'widget';
+  widgetType?: string;
+  isInner: boolean;
+  settings: Record<string, unknown>;
+  elements: ElementorElement[];
+}
+
+/** The file Elementor writes from Templates → Saved Templates → Export, and reads back on import. */
+export interface ElementorTemplate {
+  version: string;
+  title: string;
+  type: 'page';
+  content: ElementorElement[];
+  page_settings: Record<string, unknown>;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const SECTION_PADDING = { unit: 'px', top: '64', right: '16', bottom: '64', left: '16', isLinked: false };
+
+/**
+ * The page as an Elementor template using only widgets from the free plugin,
+ * one section per page section. Element ids are sequential so the same page
+ * always exports the same file.
+ */
+export const buildElementorTemplate = (title: string, sections: PageSection[]): ElementorTemplate => {
+  let nextId = 0;
+  const id = () => (++nextId).toString(16).padStart(7, '0');
+
+  const widget = (widgetType: string, settings: Record<string, unknown>): ElementorElement =>
+    ({ id: id(), elType: 'widget', widgetType, isInner: false, settings, elements: [] });
+  const column = (size: number, elements: ElementorElement[]): ElementorElement =>
+    ({ id: id(), elType: 'column', isInner: false, settings: { _column_size: size, _inline_size: null }, elements });
+  const section = (settings: Record<string, unknown>, columns: ElementorElement[][]): ElementorElement => ({
+    id: id(),
+    elType: 'section',
+    isInner: false,
+    settings: { padding: SECTION_PADDING, ...settings },
+    elements: columns.map(elements => column(Math.round(100 / columns.length), elements))
+  });
+
+  const heading = (text: string, size: string, { align = 'center', color }: { align?: string; color?: string } = {}) =>
+    widget('heading', { title: escapeHtml(text), header_size: size, align, ...(color && { title_color: color }) });
+  const text = (paragraphs: string[], { align = 'center', color }: { align?: string; color?: string } = {}) => widget('text-editor', {
+    editor: paragraphs.map(paragraph => `<p>${escapeHtml(paragraph)}</p>`).join(''),
+    align,
+    ...(color && { text_color: color })
+  });
+  const button = (label: string, { inverted = false, align = 'center' } = {}) => widget('button', {
+    text: escapeHtml(label),
+    link: { url: '#', is_external: '', nofollow: '' },
+    align,
+    size: 'lg',
+    background_color: inverted ? PAGE_COLORS.primaryForeground : PAGE_COLORS.primary,
+    button_text_color: inverted ? PAGE_COLORS.primary : PAGE_COLORS.primaryForeground
+  });
+
+  const compact = (elements: (ElementorElement | false | '' | undefined)[]) => elements.filter(Boolean) as ElementorElement[];
+
+  const renderHero = (hero: HeroSection) => {
+    const background = hero.imageLayout === 'background' && !!hero.image;
+    const align = hero.imageLayout === 'background' ? 'center' : 'left';
+    const color = background ? PAGE_COLORS.primaryForeground : undefined;
+    const content = compact([
+      hero.headline && heading(hero.headline, 'h1', { align, color }),
+      hero.subheadline && text([hero.subheadline], { align, color }),
+      hero.paragraphs.length > 0 && text(hero.paragraphs.filter(Boolean), { align, color }),
+      // Left without a URL so the editor asks for the real video
+      hero.video && widget('video', { video_type: 'youtube', youtube_url: '' }),
+      hero.cta && button(hero.cta, { align }),
+      hero.optIn && widget('html', { html: buildOptInFormHtml(hero.optIn) })
+    ]);
+
+    if (hero.imageLayout === 'side') {
+      return section({}, [content, hero.image ? [widget('image', { image: { url: hero.image, id: '' }, image_size: 'large', caption_source: 'none' })] : []]);
+    }
+    return section(background ? {
+      background_background: 'classic',
+      background_image: { url: hero.image, id: '' },
+      background_position: 'center center',
+      background_size: 'cover',
+      background_overlay_background: 'classic',
+      background_overlay_color: '#000000',
+      background_overlay_opacity: { unit: 'px', size: hero.overlay / 100 },
+      height: 'min-height',
+      custom_height: { unit: 'vh', size: 100 },
+      content_position: 'middle'
+    } : {}, [content]);
+  };
+
+  const renderBenefits = (benefits: BenefitsSection) => section({}, [compact([
+    benefits.heading && heading(benefits.heading, 'h2'),
+    benefits.numbered
+      ? widget('text-editor', { editor: `<ol>${benefits.items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ol>` })
+      : widget('icon-list', {
+        icon_list: benefits.items.map(item => ({
+          _id: id(),
+          text: escapeHtml(item),
+          selected_icon: { value: 'fas fa-check-circle', library: 'fa-solid' }
+        })),
+        icon_color: PAGE_COLORS.primary
+      }),
+    benefits.cta && button(benefits.cta)
+  ])]);
+
+  const renderProof = (proof: ProofSection) => section({
+    background_background: 'classic',
+    background_color: PAGE_COLORS.muted
+  }, [compact([
+    heading(proof.heading, 'h2'),
+    text(proof.lines.filter(Boolean)),
+    proof.stars && widget('star-rating', { rating_scale: '5', rating: 5, align: 'center' })
+  ])]);
+
+  const renderObjections = (objections: ObjectionsSection) => section({}, [[
+    heading(objections.heading, 'h2'),
+    // Accordion opens its first item, as the preview does
+    widget('accordion', {
+      tabs: objections.items.map(item => ({
+        _id: id(),
+        tab_title: escapeHtml(item.objection || item.response),
+        tab_content: `<p>${escapeHtml(item.response)}</p>`
+      }))
+    })
+  ]]);
+
+  const renderOffer = (offer: OfferSection) => section({
+    background_background: 'classic',
+    background_color: PAGE_COLORS.primary
+  }, [compact([
+    heading(offer.heading, 'h2', { color: PAGE_COLORS.primaryForeground }),
+    offer.urgency && text([offer.urgency], { color: PAGE_COLORS.primaryForeground }),
+    offer.cta && button(offer.cta, { inverted: true }),
+    offer.guarantee && text([offer.guarantee], { color: PAGE_COLORS.primaryForeground })
+  ])]);
+
+  const content = sections.map(pageSection => {
+    switch (pageSection.type) {
+      case 'hero': return renderHero(pageSection);
+      case 'story': return section({}, [[text(pageSection.paragraphs.filter(Boolean), { align: 'left' })]]);
+      case 'benefits': return renderBenefits(pageSection);
+      case 'proof': return renderProof(pageSection);
+      case 'objections': return renderObjections(pageSection);
+      case 'offer': return renderOffer(pageSection);
+    }
+  });
+
+  return { version: '0.4', title, type: 'page', content, page_settings: {} };
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { checkGrounding, extractClaims } from './grounding';
+import { buildGeneratedCopy } from './copy-parsing';
+
+const SOURCE = `# ZenSleep Pro
+
+Fall asleep faster with our natural sleep formula.
+Wake up refreshed and ready to take on the day.
+
+Over 12,000 happy customers. Rated 4.8 out of 5.
+
+"I fell asleep within 20 minutes the first night" - Sarah K.
+
+Every order is covered by our 60-day money-back guarantee.`;
+
+const statusOf = (claims: ReturnType<typeof checkGrounding>, text: string) =>
+  claims.find(claim => claim.text === text)?.status;
+
+describe('extractClaims', () => {
+  it('takes benefits, quotes, guarantee sentences and sentences with figures', () => {
+    const copy = buildGeneratedCopy({
+      headline: 'Sleep Better Tonight',
+      benefits: ['Fall asleep faster', 'Wake up refreshed'],
+      socialProof: 'Join 12,000 sleepers. "I fell asleep within 20 minutes the first night" says Sarah.',
+      guarantee: 'Try it risk free. 60-day money-back guarantee.'
+    }, null);
+
+    expect(extractClaims(copy).map(claim => [claim.kind, claim.path, claim.text])).toEqual([
+      ['benefit', 'benefits.0', 'Fall asleep faster'],
+      ['benefit', 'benefits.1', 'Wake up refreshed'],
+      ['testimonial', 'socialProof', 'I fell asleep within 20 minutes the first night'],
+      ['statistic', 'socialProof', 'Join 12,000 sleepers.'],
+      ['guarantee', 'guarantee', 'Try it risk free.'],
+      ['guarantee', 'guarantee', '60-day money-back guarantee.']
+    ]);
+  });
+});
+
+describe('checkGrounding', () => {
+  it('labels claims by how closely the source states them', () => {
+    const copy = buildGeneratedCopy({
+      benefits: [
+        'Fall asleep faster with our natural sleep formula',
+        'Wake up feeling energized and refreshed',
+        'Lower your blood pressure naturally'
+      ]
+    }, null);
+    const claims = checkGrounding(copy, SOURCE);
+
+    expect(statusOf(claims, 'Fall asleep faster with our natural sleep formula')).toBe('supported');
+    expect(statusOf(claims, 'Wake up feeling energized and refreshed')).toBe('paraphrased');
+    expect(statusOf(claims, 'Lower your blood pressure naturally')).toBe('unsupported');
+    expect(claims[0].evidence).toBe('Fall asleep faster with our natural sleep formula.');
+  });
+
+  it('marks claims with figures the source never mentions as unsupported', () => {
+    const copy = buildGeneratedCopy({
+      socialProof: 'Over 12000 happy customers. Over 50,000 happy customers.',
+      guarantee: 'Every order is covered by our 90-day money-back guarantee.'
+    }, null);
+    const claims = checkGrounding(copy, SOURCE);
+
+    expect(statusOf(claims, 'Over 12000 happy customers.')).toBe('supported');
+    expect(statusOf(claims, 'Over 50,000 happy customers.')).toBe('unsupported');
+    const guarantee = claims.find(claim => claim.kind === 'guarantee');
+    expect(guarantee).toMatchObject({ status: 'unsupported', missingNumbers: ['90'] });
+  });
+
+  it('checks quoted testimonials against the source', () => {
+    const copy = buildGeneratedCopy({
+      socialProof: '"I fell asleep within 20 minutes the first night" and "This changed my whole life forever"'
+    }, null);
+    const claims = checkGrounding(copy, SOURCE);
+
+    const testimonials = claims.filter(claim => claim.kind === 'testimonial');
+    expect(testimonials.map(claim => claim.status)).toEqual(['supported', 'unsupported']);
+  });
+
+  it('returns nothing without a source page', () => {
+    const copy = buildGeneratedCopy({ benefits: ['Fall asleep faster'] }, null);
+    expect(checkGrounding(copy, '')).toEqual([]);
+    expect(checkGrounding(copy, undefined)).toEqual([]);
+  });
+});
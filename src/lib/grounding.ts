@@ -0,0 +1,161 @@
+import type { GeneratedCopy } from '@/components/CopyGeneration';
+import type { CopySection } from '@/lib/project-dependencies';
+
+export type GroundingStatus = 'supported' | 'paraphrased' | 'unsupported';
+
+export type ClaimKind = 'benefit' | 'statistic' | 'guarantee' | 'testimonial';
+
+export const CLAIM_KIND_LABELS: Record<ClaimKind, string> = {
+  benefit: 'Benefit',
+  statistic: 'Statistic',
+  guarantee: 'Guarantee',
+  testimonial: 'Testimonial'
+};
+
+export interface GroundedClaim {
+  kind: ClaimKind;
+  section: CopySection;
+  // Field the claim is in, addressed like compliance issues, e.g. `benefits.2`
+  path: string;
+  text: string;
+  status: GroundingStatus;
+  // Share of the claim's content words found in the best matching source span, 0-1
+  score: number;
+  // That span of the source, when anything matched
+  evidence?: string;
+  // Numbers in the claim that appear nowhere in the source
+  missingNumbers: string[];
+}
+
+// Share of content words a source span must cover
+const SUPPORTED_SCORE = 0.8;
+const PARAPHRASED_SCORE = 0.45;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'i', 'in', 'is', 'it',
+  'its', 'my', 'of', 'on', 'or', 'our', 'so', 'that', 'the', 'their', 'this', 'to', 'was', 'we', 'will', 'with',
+  'you', 'your', 'yours', 'can', 'get', 'just', 'more', 'than', 'very', 'into', 'all', 'every', 'any', 'no', 'not'
+]);
+
+// Crude suffix stripping so "sleeps", "sleeping" and "sleep" line up
+const stem = (word: string) => word.replace(/(ing|ed|es|s)$/, '') || word;
+
+// Thousands separators go first so "12,000" is one token, like "12000"
+const tokenize = (text: string): string[] =>
+  (text.toLowerCase().replace(/(\d),(?=\d)/g, '$1').match(/[\p{L}\p{N}]+/gu) || [])
+    .filter(word => !STOPWORDS.has(word))
+    .map(word => (/^\d/.test(word) ? word : stem(word)));
+
+// "12,000+" and "12000" are the same number; "4.8" keeps its decimal
+const extractNumbers = (text: string): string[] =>
+  (text.match(/\d[\d,]*(\.\d+)?/g) || []).map(number => number.replace(/,/g, ''));
+
+const normalize = (text: string) => text.toLowerCase().replace(/(\d),(?=\d)/g, '$1').replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// Same testimonial-length quotes the compliance check looks at
+const QUOTE_PATTERN = /["“]([^"”\n]{15,})["”]/g;
+
+const splitSentences = (text: string): string[] =>
+  text.split(/(?<=[.!?])\s+|\n+/).map(sentence => sentence.trim()).filter(sentence => sentence.length > 0);
+
+interface Claim {
+  kind: ClaimKind;
+  section: CopySection;
+  path: string;
+  text: string;
+}
+
+// Fields that can state figures outside the benefits and guarantee
+const STATISTIC_FIELDS: { section: CopySection; path: keyof GeneratedCopy }[] = [
+  { section: 'headline', path: 'headline' },
+  { section: 'subheadline', path: 'subheadline' },
+  { section: 'heroText', path: 'heroText' },
+  { section: 'socialProof', path: 'socialProof' },
+  { section: 'urgency', path: 'urgency' }
+];
+
+/** The checkable claims in the copy: every benefit, quote, guarantee sentence and sentence with a figure in it. */
+export const extractClaims = (copy: GeneratedCopy): Claim[] => {
+  const claims: Claim[] = (copy.benefits || [])
+    .filter(benefit => benefit.trim())
+    .map((text, index) => ({ kind: 'benefit', section: 'benefits', path: `benefits.${index}`, text }));
+
+  STATISTIC_FIELDS.forEach(({ section, path }) => {
+    const text = String(copy[path] || '');
+    for (const match of text.matchAll(QUOTE_PATTERN)) {
+      claims.push({ kind: 'testimonial', section, path, text: match[1].trim() });
+    }
+    // Quotes are checked whole above, so figures inside them aren't claimed twice
+    splitSentences(text.replace(QUOTE_PATTERN, ' '))
+      .filter(sentence => /\d/.test(sentence))
+      .forEach(sentence => claims.push({ kind: 'statistic', section, path, text: sentence }));
+  });
+
+  splitSentences(copy.guarantee || '').forEach(sentence =>
+    claims.push({ kind: 'guarantee', section: 'guarantee', path: 'guarantee', text: sentence })
+  );
+
+  return claims;
+};
+
+interface SourceSpan {
+  text: string;
+  tokens: Set<string>;
+}
+
+const buildSpans = (markdown: string): SourceSpan[] => {
+  const sentences = splitSentences(markdown.replace(/[#*_>`|[\]()]/g, ' '));
+  // Pairs of neighbouring sentences catch claims that merge two source sentences
+  const candidates = [...sentences, ...sentences.slice(1).map((sentence, index) => `${sentences[index]} ${sentence}`)];
+  return candidates.map(text => ({ text, tokens: new Set(tokenize(text)) }));
+};
+
+const scoreSpan = (claimTokens: string[], span: SourceSpan) =>
+  claimTokens.filter(token => span.tokens.has(token)).length / claimTokens.length;
+
+/**
+ * Labels each claim by how well the source page backs it. Verbatim text is
+ * supported; otherwise the best matching sentence (or pair of sentences)
+ * decides by how many of the claim's content words it shares. A figure the
+ * source never mentions makes the claim unsupported however well the words
+ * match, since a changed number is exactly the kind of drift this catches.
+ */
+export const checkGrounding = (copy: GeneratedCopy | null, markdown: string | null | undefined): GroundedClaim[] => {
+  if (!copy || !markdown?.trim()) return [];
+
+  const spans = buildSpans(markdown);
+  const normalizedSource = normalize(markdown);
+  const sourceNumbers = new Set(extractNumbers(markdown));
+
+  return extractClaims(copy).map(claim => {
+    const missingNumbers = extractNumbers(claim.text).filter(number => !sourceNumbers.has(number));
+    const claimTokens = tokenize(claim.text);
+
+    let best: SourceSpan | undefined;
+    let score = 0;
+    if (claimTokens.length > 0) {
+      spans.forEach(span => {
+        const spanScore = scoreSpan(claimTokens, span);
+        if (spanScore > score) {
+          best = span;
+          score = spanScore;
+        }
+      });
+    }
+
+    const isVerbatim = normalizedSource.includes(normalize(claim.text));
+    let status: GroundingStatus = 'unsupported';
+    if (missingNumbers.length === 0) {
+      if (isVerbatim || score >= SUPPORTED_SCORE) status = 'supported';
+      else if (score >= PARAPHRASED_SCORE) status = 'paraphrased';
+    }
+
+    return {
+      ...claim,
+      status,
+      score: isVerbatim ? 1 : score,
+      evidence: best?.text,
+      missingNumbers
+    };
+  });
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { buildGutenbergMarkup, buildGutenbergPattern } from './gutenberg';
+import type { PageSection } from './page-sections';
+
+const SECTIONS: PageSection[] = [
+  {
+    type: 'hero',
+    headline: 'Sleep <Better>',
+    subheadline: 'Tonight',
+    paragraphs: [],
+    image: 'https://example.com/hero.jpg?a=1&b=2',
+    imageLayout: 'background',
+    imageAlt: '',
+    overlay: 40,
+    cta: 'Get Started'
+  },
+  { type: 'benefits', heading: 'Key Benefits', items: ['Faster', 'Deeper'], numbered: true },
+  { type: 'objections', heading: 'Questions', items: [{ objection: 'Safe?', response: 'Yes.' }] }
+];
+
+const countBlocks = (markup: string) => ({
+  open: (markup.match(/<!-- wp:[a-z-]+/g) || []).length,
+  close: (markup.match(/<!-- \/wp:[a-z-]+ -->/g) || []).length
+});
+
+describe('buildGutenbergMarkup', () => {
+  it('uses core blocks and closes every one it opens', () => {
+    const markup = buildGutenbergMarkup(SECTIONS);
+    const { open, close } = countBlocks(markup);
+    expect(open).toBe(close);
+    expect(markup).toContain('<!-- wp:cover {"url":"https://example.com/hero.jpg?a=1\\u0026b=2","dimRatio":40');
+    expect(markup).toContain('<h1 class="wp-block-heading has-text-align-center">Sleep &lt;Better&gt;</h1>');
+    expect(markup).toContain('<!-- wp:list {"ordered":true} -->\n<ol class="wp-block-list"><!-- wp:list-item -->\n<li>Faster</li>');
+    expect(markup).toContain('<details class="wp-block-details" open><summary>Safe?</summary>');
+  });
+
+  it('escapes attribute JSON so it cannot end the block comment', () => {
+    const markup = buildGutenbergMarkup([{ ...SECTIONS[0], image: 'https://example.com/a-->b.jpg' } as PageSection]);
+    expect(markup).toContain('a\\u002d\\u002d\\u003eb.jpg');
+  });
+});
+
+describe('buildGutenbergPattern', () => {
+  it('wraps the markup in an unsynced pattern file', () => {
+    expect(buildGutenbergPattern('Sleep', SECTIONS)).toMatchObject({ __file: 'wp_block', title: 'Sleep', syncStatus: 'unsynced' });
+  });
+});
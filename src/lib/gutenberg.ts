@@ -0,0 +1,176 @@
+import {
+  PAGE_COLORS,
+  buildOptInFormHtml,
+  type BenefitsSection,
+  type HeroSection,
+  type ObjectionsSection,
+  type OfferSection,
+  type PageSection,
+  type ProofSection
+} from './page-sections';
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// The same escaping WordPress applies to block comment attributes, so `-->` can never end the comment early
+const serializeAttributes = (attributes: Record<string, unknown>) =>
+  JSON.stringify(attributes)
+    .replace(/--/g, '\\u002d\\u002d')
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e')
+    .replace(/&/g, '\\u0026')
+    .replace(/\\"/g, '\\u0022');
+
+const block = (name: string, attributes: Record<string, unknown>, html: string) => {
+  const comment = Object.keys(attributes).length > 0 ? `${name} ${serializeAttributes(attributes)}` : name;
+  return `<!-- wp:${comment} -->\n${html}\n<!-- /wp:${name} -->`;
+};
+
+// Wrapper blocks put their inner blocks between the opening and closing tags of their own markup
+const wrapper = (name: string, attributes: Record<string, unknown>, [open, close]: [string, string], inner: string[]) =>
+  block(name, attributes, `${open}${inner.join('\n\n')}${close}`);
+
+const heading = (text: string, level: number, { center = true } = {}) => {
+  const attributes = { ...(center && { textAlign: 'center' }), ...(level !== 2 && { level }) };
+  return block('heading', attributes, `<h${level} class="wp-block-heading${center ? ' has-text-align-center' : ''}">${escapeHtml(text)}</h${level}>`);
+};
+
+const paragraph = (text: string, { center = true, small = false } = {}) => {
+  const attributes = { ...(center && { align: 'center' }), ...(small && { fontSize: 'small' }) };
+  const classes = [center && 'has-text-align-center', small && 'has-small-font-size'].filter(Boolean).join(' ');
+  return block('paragraph', attributes, `<p${classes ? ` class="${classes}"` : ''}>${escapeHtml(text)}</p>`);
+};
+
+const buttons = (text: string, { outline = false, justify = 'center' } = {}) => {
+  const button = block(
+    'button',
+    outline ? { className: 'is-style-outline' } : {},
+    `<div class="wp-block-button${outline ? ' is-style-outline' : ''}"><a class="wp-block-button__link wp-element-button" href="#">${escapeHtml(text)}</a></div>`
+  );
+  return wrapper('buttons', { layout: { type: 'flex', justifyContent: justify } }, ['<div class="wp-block-buttons">', '</div>'], [button]);
+};
+
+const group = (inner: string[], { background, text }: { background?: string; text?: string } = {}) => {
+  const classes = ['wp-block-group', text && 'has-text-color', background && 'has-background'].filter(Boolean).join(' ');
+  const style = [text && `color:${text}`, background && `background-color:${background}`].filter(Boolean).join(';');
+  return wrapper(
+    'group',
+    {
+      ...((background || text) && { style: { color: { ...(text && { text }), ...(background && { background }) } } }),
+      layout: { type: 'constrained' }
+    },
+    [`<div class="${classes}"${style ? ` style="${style}"` : ''}>`, '</div>'],
+    inner
+  );
+};
+
+const list = (items: string[], ordered: boolean) => wrapper(
+  'list',
+  ordered ? { ordered: true } : {},
+  [ordered ? '<ol class="wp-block-list">' : '<ul class="wp-block-list">', ordered ? '</ol>' : '</ul>'],
+  items.map(item => block('list-item', {}, `<li>${escapeHtml(item)}</li>`))
+);
+
+const heroContent = (hero: HeroSection) => [
+  hero.headline && heading(hero.headline, 1, { center: hero.imageLayout === 'background' }),
+  hero.subheadline && paragraph(hero.subheadline, { center: hero.imageLayout === 'background' }),
+  ...hero.paragraphs.filter(Boolean).map(text => paragraph(text, { center: hero.imageLayout === 'background' })),
+  hero.video && block('video', {}, '<figure class="wp-block-video"></figure>'),
+  hero.cta && buttons(hero.cta, { justify: hero.imageLayout === 'background' ? 'center' : 'left' }),
+  hero.optIn && block('html', {}, buildOptInFormHtml(hero.optIn))
+].filter(Boolean) as string[];
+
+const renderHero = (hero: HeroSection) => {
+  if (hero.imageLayout === 'side') {
+    const column = (inner: string[]) => wrapper(
+      'column',
+      { verticalAlignment: 'center' },
+      ['<div class="wp-block-column is-vertically-aligned-center">', '</div>'],
+      inner
+    );
+    const image = hero.image && block(
+      'image',
+      { sizeSlug: 'large' },
+      `<figure class="wp-block-image size-large"><img src="${escapeHtml(hero.image)}" alt="${escapeHtml(hero.imageAlt)}"/></figure>`
+    );
+    return wrapper(
+      'columns',
+      { verticalAlignment: 'center' },
+      ['<div class="wp-block-columns are-vertically-aligned-center">', '</div>'],
+      [column(heroContent(hero)), column(image ? [image] : [])]
+    );
+  }
+
+  const inner = heroContent(hero);
+  if (!hero.image) return group(inner);
+  return wrapper(
+    'cover',
+    { url: hero.image, dimRatio: hero.overlay, overlayColor: 'black', minHeight: 100, minHeightUnit: 'vh', isDark: true },
+    [
+      `<div class="wp-block-cover is-dark" style="min-height:100vh"><span aria-hidden="true" class="wp-block-cover__background has-black-background-color has-background-dim-${hero.overlay} has-background-dim"></span>`
+        + `<img class="wp-block-cover__image-background" alt="" src="${escapeHtml(hero.image)}" data-object-fit="cover"/><div class="wp-block-cover__inner-container">`,
+      '</div></div>'
+    ],
+    inner
+  );
+};
+
+const renderBenefits = (section: BenefitsSection) => group([
+  section.heading && heading(section.heading, 2),
+  list(section.items, section.numbered),
+  section.cta && buttons(section.cta, { outline: true })
+].filter(Boolean) as string[]);
+
+const renderProof = (section: ProofSection) => group([
+  heading(section.heading, 2),
+  wrapper(
+    'quote',
+    {},
+    ['<blockquote class="wp-block-quote">', '</blockquote>'],
+    section.lines.filter(Boolean).map(line => paragraph(line, { center: false }))
+  ),
+  section.stars && paragraph('★★★★★')
+].filter(Boolean) as string[], { background: PAGE_COLORS.muted });
+
+const renderObjections = (section: ObjectionsSection) => group([
+  heading(section.heading, 2),
+  ...section.items.map((item, index) => item.objection
+    ? wrapper(
+      'details',
+      index === 0 ? { showContent: true } : {},
+      [`<details class="wp-block-details"${index === 0 ? ' open' : ''}><summary>${escapeHtml(item.objection)}</summary>`, '</details>'],
+      [paragraph(item.response, { center: false })]
+    )
+    : paragraph(item.response, { center: false }))
+]);
+
+const renderOffer = (section: OfferSection) => group([
+  heading(section.heading, 2),
+  section.urgency && paragraph(section.urgency),
+  section.cta && buttons(section.cta),
+  section.guarantee && paragraph(section.guarantee, { small: true })
+].filter(Boolean) as string[], { background: PAGE_COLORS.primary, text: PAGE_COLORS.primaryForeground });
+
+/**
+ * The page as Gutenberg block markup built from core blocks only, so it can
+ * be pasted into the code editor or imported as a pattern and then edited
+ * block by block. The video block is left empty for the real video.
+ */
+export const buildGutenbergMarkup = (sections: PageSection[]): string => sections.map(section => {
+  switch (section.type) {
+    case 'hero': return renderHero(section);
+    case 'story': return group(section.paragraphs.filter(Boolean).map(text => paragraph(text, { center: false })));
+    case 'benefits': return renderBenefits(section);
+    case 'proof': return renderProof(section);
+    case 'objections': return renderObjections(section);
+    case 'offer': return renderOffer(section);
+  }
+}).join('\n\n');
+
+/** A pattern file in the format WordPress exports and imports under Patterns → Import from JSON. */
+export const buildGutenbergPattern = (title: string, sections: PageSection[]) => ({
+  __file: 'wp_block',
+  title,
+  content: buildGutenbergMarkup(sections),
+  syncStatus: 'unsynced'
+});
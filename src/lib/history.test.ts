@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_HISTORY, pushCommand, type HistoryCommand } from './history';
+
+const command = (headline: string, previous: string, overrides: Partial<HistoryCommand> = {}): HistoryCommand => ({
+  label: 'Edit headline',
+  before: { generatedCopy: { headline: previous } } as HistoryCommand['before'],
+  after: { generatedCopy: { headline } } as HistoryCommand['after'],
+  timestamp: 0,
+  ...overrides
+});
+
+describe('pushCommand', () => {
+  it('merges commands with the same key inside the merge window into one undo step', () => {
+    const first = pushCommand(EMPTY_HISTORY, command('Sl', 'S', { mergeKey: 'headline', timestamp: 1000 }));
+    const second = pushCommand(first, command('Sle', 'Sl', { mergeKey: 'headline', timestamp: 1500 }));
+
+    expect(second.past).toHaveLength(1);
+    expect(second.past[0].before).toEqual({ generatedCopy: { headline: 'S' } });
+    expect(second.past[0].after).toEqual({ generatedCopy: { headline: 'Sle' } });
+    expect(second.past[0].timestamp).toBe(1500);
+  });
+
+  it('keeps separate steps for other keys, no key or a pause in typing', () => {
+    const start = pushCommand(EMPTY_HISTORY, command('Sl', 'S', { mergeKey: 'headline', timestamp: 1000 }));
+
+    expect(pushCommand(start, command('Sle', 'Sl', { mergeKey: 'cta', timestamp: 1100 })).past).toHaveLength(2);
+    expect(pushCommand(start, command('Sle', 'Sl', { timestamp: 1100 })).past).toHaveLength(2);
+    expect(pushCommand(start, command('Sle', 'Sl', { mergeKey: 'headline', timestamp: 2000 })).past).toHaveLength(2);
+  });
+
+  it('drops the oldest steps past the history limit', () => {
+    let state = EMPTY_HISTORY;
+    for (let index = 0; index < 105; index++) {
+      state = pushCommand(state, command(`Headline ${index}`, `Headline ${index - 1}`, { timestamp: index }));
+    }
+
+    expect(state.past).toHaveLength(100);
+    expect(state.past[0].after).toEqual({ generatedCopy: { headline: 'Headline 5' } });
+    expect(state.past[99].after).toEqual({ generatedCopy: { headline: 'Headline 104' } });
+  });
+
+  it('clears the redo stack when a new command comes in', () => {
+    const undone = { past: [], future: [command('Sleep', 'Sle')] };
+
+    expect(pushCommand(undone, command('Rest', 'Sle', { timestamp: 1 })).future).toEqual([]);
+    expect(pushCommand(
+      { past: [command('Sle', 'Sl', { mergeKey: 'headline', timestamp: 1000 })], future: [command('Sleep', 'Sle')] },
+      command('Sles', 'Sle', { mergeKey: 'headline', timestamp: 1200 })
+    ).future).toEqual([]);
+  });
+});
@@ -0,0 +1,51 @@
+import type { Project } from '@/utils/ProjectStore';
+
+export type ProjectChanges = Partial<Project>;
+
+export interface HistoryCommand {
+  label: string;
+  before: ProjectChanges;
+  after: ProjectChanges;
+  // Consecutive commands sharing a key (e.g. typing in one field) collapse into a single undo step
+  mergeKey?: string;
+  timestamp: number;
+}
+
+export interface HistoryState {
+  past: HistoryCommand[];
+  future: HistoryCommand[];
+}
+
+export interface ChangeDescription {
+  label: string;
+  mergeKey?: string;
+}
+
+export const EMPTY_HISTORY: HistoryState = { past: [], future: [] };
+
+const MAX_HISTORY = 100;
+const MERGE_WINDOW_MS = 1000;
+
+export const pickChanges = (project: Project, keys: string[]): ProjectChanges =>
+  Object.fromEntries(keys.map(key => [key, project[key as keyof Project]])) as ProjectChanges;
+
+export const pushCommand = (state: HistoryState, command: HistoryCommand): HistoryState => {
+  const last = state.past[state.past.length - 1];
+
+  if (
+    last &&
+    command.mergeKey &&
+    last.mergeKey === command.mergeKey &&
+    command.timestamp - last.timestamp < MERGE_WINDOW_MS
+  ) {
+    const merged: HistoryCommand = {
+      ...last,
+      before: { ...command.before, ...last.before },
+      after: { ...last.after, ...command.after },
+      timestamp: command.timestamp
+    };
+    return { past: [...state.past.slice(0, -1), merged], future: [] };
+  }
+
+  return { past: [...state.past, command].slice(-MAX_HISTORY), future: [] };
+};
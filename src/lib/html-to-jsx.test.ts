@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { htmlToJsx } from './html-to-jsx';
+
+describe('htmlToJsx', () => {
+  it('renames attributes, self-closes empty elements and camel-cases svg attributes', () => {
+    expect(htmlToJsx('<label for="email" class="block">Email</label><img src="a.png" alt=""/><svg viewBox="0 0 24 24" stroke-width="2"><path d="M0 0"></path></svg>'))
+      .toBe([
+        '<label htmlFor="email" className="block">Email</label>',
+        '<img src="a.png" alt="" />',
+        '<svg viewBox="0 0 24 24" strokeWidth="2">',
+        '  <path d="M0 0" />',
+        '</svg>'
+      ].join('\n'));
+  });
+
+  it('turns inline styles into objects without splitting data urls', () => {
+    expect(htmlToJsx('<div style="background-image:url(data:image/png;base64,AA);--gap:4px"></div>'))
+      .toBe("<div style={{ backgroundImage: 'url(data:image/png;base64,AA)', '--gap': '4px' }} />");
+  });
+
+  it('joins text React split with comments and escapes what JSX would misread', () => {
+    expect(htmlToJsx('<h3>Benefit<!-- --> <!-- -->1</h3><p>{ a &lt; b }</p><span> spaced </span>'))
+      .toBe([
+        '<h3>Benefit 1</h3>',
+        '<p>{"{ a < b }"}</p>',
+        '<span>{" spaced "}</span>'
+      ].join('\n'));
+  });
+
+  it('replaces tokens with expressions in text, attributes and styles', () => {
+    const paths = ['copy.headline', 'images.hero'];
+    const expressions = { pattern: /__lp\d+__/, resolve: (token: string) => paths[Number(token.slice(4, -2))] };
+    expect(htmlToJsx('<h1 title="__lp0__">Read: __lp0__</h1><img src="__lp1__" alt="Hero: __lp0__"/><div style="background-image:url(__lp1__)"></div>', { expressions }))
+      .toBe([
+        '<h1 title={copy.headline}>Read: {copy.headline}</h1>',
+        '<img src={images.hero} alt={`Hero: ${copy.headline}`} />',
+        '<div style={{ backgroundImage: `url(${images.hero})` }} />'
+      ].join('\n'));
+  });
+});
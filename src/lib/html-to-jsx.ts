@@ -0,0 +1,191 @@
+interface ElementNode {
+  type: 'element';
+  name: string;
+  attributes: [string, string | null][];
+  children: MarkupNode[];
+}
+
+interface TextNode {
+  type: 'text';
+  text: string;
+}
+
+type MarkupNode = ElementNode | TextNode;
+
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+const RENAMED_ATTRIBUTES: Record<string, string> = {
+  class: 'className',
+  for: 'htmlFor',
+  tabindex: 'tabIndex',
+  readonly: 'readOnly',
+  maxlength: 'maxLength',
+  autocomplete: 'autoComplete',
+  autofocus: 'autoFocus',
+  crossorigin: 'crossOrigin',
+  srcset: 'srcSet',
+  'xlink:href': 'xlinkHref'
+};
+
+// Rendered as `open=""`; JSX writes them bare
+const BOOLEAN_ATTRIBUTES = new Set(['open', 'disabled', 'checked', 'required', 'hidden', 'selected', 'multiple', 'readonly', 'autofocus']);
+
+const decodeEntities = (value: string) =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#x27;|&#39;/g, "'")
+    .replace(/&nbsp;/g, '\u00a0')
+    .replace(/&amp;/g, '&');
+
+const camelCase = (value: string) => value.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+
+const parseMarkup = (markup: string): MarkupNode[] => {
+  const root: ElementNode = { type: 'element', name: '#root', attributes: [], children: [] };
+  const stack: ElementNode[] = [root];
+
+  for (const [token] of markup.matchAll(/<!--[\s\S]*?-->|<\/?[a-zA-Z][^>]*>|[^<]+/g)) {
+    const parent = stack[stack.length - 1];
+    if (token.startsWith('<!--')) continue;
+    if (token.startsWith('</')) {
+      if (stack.length > 1) stack.pop();
+      continue;
+    }
+    if (!token.startsWith('<')) {
+      // React separates adjacent text with comments; join the pieces back up
+      const previous = parent.children[parent.children.length - 1];
+      if (previous?.type === 'text') previous.text += decodeEntities(token);
+      else parent.children.push({ type: 'text', text: decodeEntities(token) });
+      continue;
+    }
+
+    const name = token.match(/^<([a-zA-Z][\w-]*)/)![1];
+    const attributeText = token.slice(name.length + 1, token.endsWith('/>') ? -2 : -1);
+    const attributes = Array.from(
+      attributeText.matchAll(/([^\s=/]+)(?:="([^"]*)")?/g),
+      match => [match[1], match[2] === undefined ? null : decodeEntities(match[2])] as [string, string | null]
+    );
+    const element: ElementNode = { type: 'element', name, attributes, children: [] };
+    parent.children.push(element);
+    if (!token.endsWith('/>') && !VOID_ELEMENTS.has(name.toLowerCase())) stack.push(element);
+  }
+
+  return root.children;
+};
+
+/** Maps placeholder tokens in the markup back to the JSX expressions they stand for. */
+export interface JsxExpressions {
+  pattern: RegExp;
+  resolve: (token: string) => string;
+}
+
+const splitByTokens = (value: string, expressions?: JsxExpressions): { literal?: string; expression?: string }[] => {
+  if (!expressions) return [{ literal: value }];
+  const parts: { literal?: string; expression?: string }[] = [];
+  let cursor = 0;
+  for (const match of value.matchAll(new RegExp(expressions.pattern.source, 'g'))) {
+    if (match.index! > cursor) parts.push({ literal: value.slice(cursor, match.index) });
+    parts.push({ expression: expressions.resolve(match[0]) });
+    cursor = match.index! + match[0].length;
+  }
+  if (cursor < value.length) parts.push({ literal: value.slice(cursor) });
+  return parts;
+};
+
+// A JS expression for a string that may contain tokens: a plain literal, the bare expression, or a template literal
+const toStringExpression = (value: string, expressions?: JsxExpressions) => {
+  const parts = splitByTokens(value, expressions);
+  if (parts.length === 1 && parts[0].expression) return parts[0].expression;
+  if (parts.every(part => part.literal !== undefined)) return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  return `\`${parts.map(part => part.expression
+    ? `\${${part.expression}}`
+    : part.literal!.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${')).join('')}\``;
+};
+
+// Splits on semicolons outside parentheses, since data: URLs contain them
+const parseStyle = (style: string): [string, string][] => {
+  const declarations: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let index = 0; index < style.length; index++) {
+    if (style[index] === '(') depth++;
+    else if (style[index] === ')') depth--;
+    else if (style[index] === ';' && depth === 0) {
+      declarations.push(style.slice(start, index));
+      start = index + 1;
+    }
+  }
+  declarations.push(style.slice(start));
+  return declarations
+    .map(declaration => declaration.trim())
+    .filter(Boolean)
+    .map(declaration => {
+      const colon = declaration.indexOf(':');
+      return [declaration.slice(0, colon).trim(), declaration.slice(colon + 1).trim()];
+    });
+};
+
+const formatAttribute = ([name, value]: [string, string | null], expressions?: JsxExpressions): string => {
+  const lowerName = name.toLowerCase();
+  const jsxName = RENAMED_ATTRIBUTES[lowerName]
+    || (/^(data|aria)-/.test(lowerName) ? lowerName : camelCase(name));
+
+  if (value === null || (value === '' && BOOLEAN_ATTRIBUTES.has(lowerName))) return jsxName;
+
+  if (lowerName === 'style') {
+    const properties = parseStyle(value).map(([property, propertyValue]) => {
+      const key = property.startsWith('--') ? `'${property}'` : camelCase(property);
+      return `${key}: ${toStringExpression(propertyValue, expressions)}`;
+    });
+    return `style={{ ${properties.join(', ')} }}`;
+  }
+
+  const parts = splitByTokens(value, expressions);
+  if (parts.every(part => part.literal !== undefined) && !/["\\]/.test(value)) return `${jsxName}="${value}"`;
+  return `${jsxName}={${toStringExpression(value, expressions)}}`;
+};
+
+const formatText = (text: string, expressions?: JsxExpressions): string =>
+  splitByTokens(text, expressions)
+    .map((part, index, parts) => {
+      if (part.expression) return `{${part.expression}}`;
+      const literal = part.literal!;
+      // Characters JSX treats specially, and edge whitespace JSX would trim, go in a string expression
+      const trimmed = (index === 0 && /^\s/.test(literal)) || (index === parts.length - 1 && /\s$/.test(literal));
+      return /[{}<>]/.test(literal) || trimmed ? `{${JSON.stringify(literal)}}` : literal;
+    })
+    .join('');
+
+// Elements with only text inside stay on one line when they fit
+const INLINE_LIMIT = 100;
+
+const printNode = (node: MarkupNode, indent: string, expressions?: JsxExpressions): string[] => {
+  if (node.type === 'text') {
+    if (!node.text.trim() && !node.text.includes('\u00a0')) return node.text ? [`${indent}{${JSON.stringify(node.text)}}`] : [];
+    return [`${indent}${formatText(node.text, expressions)}`];
+  }
+
+  const attributes = node.attributes.map(attribute => formatAttribute(attribute, expressions));
+  const open = `<${node.name}${attributes.length > 0 ? ` ${attributes.join(' ')}` : ''}`;
+  if (node.children.length === 0) return [`${indent}${open} />`];
+
+  if (node.children.every(child => child.type === 'text')) {
+    const inline = `${indent}${open}>${node.children.map(child => formatText((child as TextNode).text, expressions)).join('')}</${node.name}>`;
+    if (inline.length <= INLINE_LIMIT) return [inline];
+  }
+
+  return [
+    `${indent}${open}>`,
+    ...node.children.flatMap(child => printNode(child, `${indent}  `, expressions)),
+    `${indent}</${node.name}>`
+  ];
+};
+
+/**
+ * Converts static markup, as renderToStaticMarkup produces it, into JSX:
+ * attributes renamed, inline styles turned into objects and any tokens
+ * matched by `expressions` replaced with the expressions they stand for.
+ */
+export const htmlToJsx = (markup: string, { indent = '', expressions }: { indent?: string; expressions?: JsxExpressions } = {}): string =>
+  parseMarkup(markup).flatMap(node => printNode(node, indent, expressions)).join('\n');
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import type { GeneratedCopy } from '@/components/CopyGeneration';
+import { getCtaPlacements, getPageSections } from './page-sections';
+
+const COPY: GeneratedCopy = {
+  headline: 'Sleep Better Tonight',
+  subheadline: 'A natural formula',
+  heroText: 'First.\nSecond.\nThird.\nFourth.',
+  benefits: ['Fall asleep faster', 'Wake up refreshed'],
+  socialProof: '"Best sleep in years" - Sam',
+  cta: 'Get Started',
+  ctaOptions: ['Get Started', 'Try It Free'],
+  urgency: 'Only 50 left',
+  objectionHandling: [{ objection: 'Is it safe?', response: 'Yes.' }, { objection: 'Unanswered', response: '' }],
+  guarantee: '60-day guarantee'
+};
+const IMAGES = { hero: 'https://example.com/hero.jpg', icons: [] };
+
+describe('getCtaPlacements', () => {
+  it('opens on the primary CTA and reuses alternates for later buttons', () => {
+    expect(getCtaPlacements(COPY)).toEqual({ hero: 'Get Started', middle: 'Try It Free', final: 'Try It Free' });
+  });
+});
+
+describe('getPageSections', () => {
+  it('lays out the video page like the preview', () => {
+    const sections = getPageSections({ pageType: 'vsl', generatedCopy: COPY, selectedImages: IMAGES });
+    expect(sections.map(section => section.type)).toEqual(['hero', 'story', 'benefits', 'proof', 'objections', 'offer']);
+    expect(sections[0]).toMatchObject({ imageLayout: 'background', video: true, cta: 'Get Started', paragraphs: [] });
+    expect(sections[4]).toMatchObject({ heading: 'Common Questions', items: [{ objection: 'Is it safe?', response: 'Yes.' }] });
+    expect(sections[5]).toMatchObject({ heading: "Don't Wait - Act Now!", cta: 'Try It Free', guarantee: '60-day guarantee' });
+  });
+
+  it('gives the lead magnet an opt-in form and no closing offer', () => {
+    const sections = getPageSections({ pageType: 'freebie', generatedCopy: COPY, selectedImages: IMAGES, language: 'es' });
+    expect(sections.map(section => section.type)).toEqual(['hero', 'benefits', 'proof', 'objections']);
+    expect(sections[0]).toMatchObject({ paragraphs: ['First.', 'Second.'], optIn: { title: 'Consigue Tu Descarga Gratis' } });
+    expect(sections[1]).toMatchObject({ heading: 'Lo Que Encontrarás Dentro' });
+  });
+
+  it('follows the framework block order and headings, and drops empty blocks', () => {
+    const sections = getPageSections({
+      pageType: 'product',
+      generatedCopy: { ...COPY, socialProof: '' },
+      selectedImages: IMAGES,
+      framework: 'pas'
+    });
+    expect(sections.map(section => section.type)).toEqual(['hero', 'objections', 'benefits', 'offer']);
+    expect(sections[0]).toMatchObject({ imageLayout: 'side', imageAlt: 'Product', paragraphs: ['First.', 'Second.', 'Third.'] });
+    expect(sections[1]).toMatchObject({ heading: 'Sound Familiar?' });
+    expect(sections[2]).toMatchObject({ heading: 'The Solution' });
+  });
+});
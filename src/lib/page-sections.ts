@@ -0,0 +1,190 @@
+import type { CopyObjection, GeneratedCopy } from '@/components/CopyGeneration';
+import type { LandingPageTemplateProps } from '@/components/LandingPageTemplate';
+import { getCopyFramework, type PreviewBlock } from './copy-frameworks';
+import { getPreviewStrings, type PreviewStringKey, type PreviewStrings } from './copy-languages';
+
+// The primary CTA opens the page; alternates take the later buttons so the page doesn't repeat itself
+export const getCtaPlacements = (copy: GeneratedCopy) => {
+  const alternates = (copy.ctaOptions || []).filter(option => option && option !== copy.cta);
+  return {
+    hero: copy.cta,
+    middle: alternates[0] || copy.cta,
+    final: alternates[1] || alternates[0] || copy.cta
+  };
+};
+
+// The light theme colours the preview renders with, as hex for page builders that don't take CSS variables
+export const PAGE_COLORS = {
+  primary: '#6b26d9',
+  primaryForeground: '#ffffff',
+  muted: '#f4f4f5',
+  text: '#09090b'
+};
+
+export interface OptInForm {
+  title: string;
+  namePlaceholder: string;
+  emailPlaceholder: string;
+  button: string;
+  note: string;
+}
+
+export interface HeroSection {
+  type: 'hero';
+  headline: string;
+  subheadline: string;
+  paragraphs: string[];
+  image: string;
+  // Behind the text under a dark overlay, or beside it
+  imageLayout: 'background' | 'side';
+  imageAlt: string;
+  overlay: number;
+  cta?: string;
+  optIn?: OptInForm;
+  // The video sales letter opens on a player; exports leave a slot for the real video
+  video?: boolean;
+}
+
+export interface StorySection {
+  type: 'story';
+  paragraphs: string[];
+}
+
+export interface BenefitsSection {
+  type: 'benefits';
+  heading?: string;
+  items: string[];
+  numbered: boolean;
+  cta?: string;
+}
+
+export interface ProofSection {
+  type: 'proof';
+  heading: string;
+  lines: string[];
+  stars: boolean;
+}
+
+export interface ObjectionsSection {
+  type: 'objections';
+  heading: string;
+  items: CopyObjection[];
+}
+
+/** The closing band: urgency, the last button and the guarantee as its small print. */
+export interface OfferSection {
+  type: 'offer';
+  heading: string;
+  urgency: string;
+  cta: string;
+  guarantee: string;
+}
+
+export type PageSection = HeroSection | StorySection | BenefitsSection | ProofSection | ObjectionsSection | OfferSection;
+
+export type PageSectionType = PageSection['type'];
+
+type PageType = 'vsl' | 'freebie' | 'product';
+
+// Headings each page type falls back to when the framework doesn't name the block
+const DEFAULT_HEADINGS: Record<PageType, Partial<Record<PreviewBlock, PreviewStringKey>>> = {
+  vsl: { proof: 'customersSay', objections: 'commonQuestions' },
+  freebie: { benefits: 'whatYouGetInside', proof: 'joinThousands', objections: 'commonQuestions' },
+  product: { benefits: 'keyBenefits', proof: 'customerReviews', objections: 'commonQuestions' }
+};
+
+const splitLines = (value?: string) => value ? value.split('\n') : [];
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** Page builders have no free form widget, so the opt-in ships as plain HTML for the site's email plugin to replace. */
+export const buildOptInFormHtml = (optIn: OptInForm): string => [
+  '<form class="landing-opt-in" action="#" method="post">',
+  `<h3>${escapeHtml(optIn.title)}</h3>`,
+  `<p><input type="text" name="name" placeholder="${escapeHtml(optIn.namePlaceholder)}" required></p>`,
+  `<p><input type="email" name="email" placeholder="${escapeHtml(optIn.emailPlaceholder)}" required></p>`,
+  `<p><button type="submit">${escapeHtml(optIn.button)}</button></p>`,
+  `<p><small>${escapeHtml(optIn.note)}</small></p>`,
+  '</form>'
+].join('\n');
+
+const buildOptIn = (strings: PreviewStrings): OptInForm => ({
+  title: strings.freeDownload,
+  namePlaceholder: strings.namePlaceholder,
+  emailPlaceholder: strings.emailPlaceholder,
+  button: strings.downloadFree,
+  note: strings.noSpam
+});
+
+/**
+ * The landing page as a list of sections, in the order and with the
+ * headings LandingPageTemplate renders them, for exporters that rebuild
+ * the page out of another tool's own blocks rather than our markup.
+ */
+export const getPageSections = ({ pageType, generatedCopy, selectedImages, framework, language }: LandingPageTemplateProps): PageSection[] => {
+  // Anything else renders as the video sales letter, as in the template
+  const type: PageType = pageType === 'freebie' || pageType === 'product' ? pageType : 'vsl';
+  const ctas = getCtaPlacements(generatedCopy);
+  const { layout } = getCopyFramework(framework);
+  const strings = getPreviewStrings(language);
+  const heroText = splitLines(generatedCopy.heroText);
+  const benefits = generatedCopy.benefits || [];
+  const numbered = layout.benefitsStyle === 'steps';
+  const getHeading = (block: PreviewBlock) => {
+    const key = layout.headings?.[block] || DEFAULT_HEADINGS[type][block];
+    return key ? strings[key] : undefined;
+  };
+
+  const hero: HeroSection = {
+    type: 'hero',
+    headline: generatedCopy.headline || '',
+    subheadline: generatedCopy.subheadline || '',
+    paragraphs: type === 'freebie' ? heroText.slice(0, 2) : type === 'product' ? heroText.slice(0, 3) : [],
+    image: selectedImages.hero || '',
+    imageLayout: type === 'product' ? 'side' : 'background',
+    imageAlt: type === 'product' ? strings.productImageAlt : '',
+    overlay: type === 'freebie' ? 30 : 40,
+    ...(type !== 'freebie' && { cta: ctas.hero }),
+    ...(type === 'freebie' && { optIn: buildOptIn(strings) }),
+    ...(type === 'vsl' && { video: true })
+  };
+
+  const blocks: Record<PreviewBlock, () => PageSection | null> = {
+    benefits: () => benefits.length === 0 ? null : {
+      type: 'benefits',
+      heading: getHeading('benefits'),
+      // The video page's grid stops at six; the step list shows them all
+      items: type === 'vsl' && !numbered ? benefits.slice(0, 6) : benefits,
+      numbered,
+      ...(type !== 'freebie' && { cta: ctas.middle })
+    },
+    proof: () => !generatedCopy.socialProof?.trim() ? null : {
+      type: 'proof',
+      heading: getHeading('proof')!,
+      lines: splitLines(generatedCopy.socialProof),
+      stars: type !== 'freebie'
+    },
+    objections: () => {
+      const items = (generatedCopy.objectionHandling || []).filter(item => item.response);
+      return items.length === 0 ? null : { type: 'objections', heading: getHeading('objections')!, items };
+    }
+  };
+
+  const sections: PageSection[] = [hero];
+  if (type === 'vsl' && heroText.length > 0) sections.push({ type: 'story', paragraphs: heroText });
+  layout.blockOrder.forEach(block => {
+    const section = blocks[block]();
+    if (section) sections.push(section);
+  });
+  if (type !== 'freebie') {
+    sections.push({
+      type: 'offer',
+      heading: type === 'product' ? strings.readyToStart : strings.actNow,
+      urgency: generatedCopy.urgency || '',
+      cta: ctas.final,
+      guarantee: generatedCopy.guarantee || ''
+    });
+  }
+  return sections;
+};
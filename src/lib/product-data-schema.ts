@@ -0,0 +1,71 @@
+import { z } from 'zod';
+import type { ProductData } from '@/utils/ContentAnalyzer';
+import { extractJSON } from '@/utils/LLMProvider';
+
+const text = z.string().trim().min(1, 'must be a non-empty string (use "MISSING" if unknown)');
+const textList = z.array(z.string().trim().min(1));
+
+/** Runtime mirror of the ProductData interface, used to check model output. */
+export const productDataSchema = z.object({
+  dreamOutcome: z.object({
+    mainBenefit: text,
+    secondaryBenefits: textList,
+    targetAudience: text,
+    emotionalOutcome: text
+  }),
+  perceivedLikelihood: z.object({
+    testimonials: textList,
+    socialProofNumbers: textList,
+    guarantees: textList
+  }),
+  timeDelay: z.object({
+    deliveryTimeframe: text,
+    resultsTimeframe: text
+  }),
+  effortSacrifice: z.object({
+    difficultyLevel: z.number().int().min(1).max(10),
+    prerequisites: textList,
+    easeOfUse: text
+  }),
+  productInfo: z.object({
+    name: text,
+    category: z.enum(['software', 'physical', 'service', 'info', 'health']),
+    industry: text,
+    pricePoint: z.enum(['low', 'medium', 'high', 'premium'])
+  }),
+  extractionQuality: z.object({
+    completenessScore: z.number().min(0).max(1),
+    confidenceLevel: z.enum(['high', 'medium', 'low']),
+    missingFields: z.array(z.string())
+  })
+});
+
+export interface ProductDataParseResult {
+  // Null whenever `errors` is non-empty
+  data: ProductData | null;
+  errors: string[];
+}
+
+/**
+ * Parses and validates a raw completion. Each error names the offending path
+ * so the list can be sent back to the model verbatim.
+ */
+export const parseProductData = (content: string): ProductDataParseResult => {
+  let json: unknown;
+  try {
+    json = extractJSON(content);
+  } catch {
+    return { data: null, errors: ['The response was not valid JSON. Return only a single JSON object.'] };
+  }
+
+  const result = productDataSchema.safeParse(json);
+  if (result.success) {
+    // The tsconfig is not strict, so zod infers every field as optional
+    return { data: result.data as ProductData, errors: [] };
+  }
+
+  return {
+    data: null,
+    errors: result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+  };
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { getInvalidation } from './project-dependencies';
+import { buildGeneratedCopy } from './copy-parsing';
+import type { ProductData } from '@/utils/ContentAnalyzer';
+import { ProjectStore, type Project } from '@/utils/ProjectStore';
+
+const productData = {
+  productInfo: { name: 'Sleep Well', category: 'health' },
+  perceivedLikelihood: { testimonials: ['Best sleep in years. - Ana'] }
+} as ProductData;
+
+const project: Project = {
+  ...ProjectStore.createProject(),
+  productData,
+  generatedCopy: buildGeneratedCopy({ headline: 'Sleep Through the Night', socialProof: '"Best sleep in years." - Ana' }, null)
+};
+
+describe('getInvalidation', () => {
+  it('marks only social proof stale when the source testimonials change', () => {
+    const changes = {
+      productData: { ...productData, perceivedLikelihood: { ...productData.perceivedLikelihood, testimonials: [] } }
+    };
+    expect(getInvalidation(project, changes).staleCopySections).toEqual(['socialProof']);
+  });
+
+  it('marks every section stale when the product they all describe changes', () => {
+    const changes = { productData: { ...productData, productInfo: { ...productData.productInfo, name: 'Rest Easy' } } };
+    expect(getInvalidation(project, changes).staleCopySections).toHaveLength(9);
+  });
+});
@@ -0,0 +1,133 @@
+import type { Project } from '@/utils/ProjectStore';
+import type { SelectedImages } from '@/components/ImageSelection';
+
+export type CopySection =
+  | 'headline'
+  | 'subheadline'
+  | 'heroText'
+  | 'benefits'
+  | 'socialProof'
+  | 'cta'
+  | 'urgency'
+  | 'objections'
+  | 'guarantee';
+
+export type ImageSlot = keyof SelectedImages;
+
+export const COPY_SECTIONS: CopySection[] = [
+  'headline', 'subheadline', 'heroText', 'benefits',
+  'socialProof', 'cta', 'urgency', 'objections', 'guarantee'
+];
+
+export const COPY_SECTION_LABELS: Record<CopySection, string> = {
+  headline: 'Headline',
+  subheadline: 'Subheadline',
+  heroText: 'Hero Text',
+  benefits: 'Benefits',
+  socialProof: 'Social Proof',
+  cta: 'Call to Action',
+  urgency: 'Urgency',
+  objections: 'Objections',
+  guarantee: 'Guarantee'
+};
+
+export const IMAGE_SLOT_LABELS: Record<ImageSlot, string> = {
+  hero: 'Hero',
+  product: 'Product',
+  testimonial: 'Testimonial',
+  background: 'Background',
+  icons: 'Icons'
+};
+
+// Upstream project fields (dot paths) that every copy prompt reads through its shared product context
+const PRODUCT_CONTEXT_INPUTS = [
+  'productData.productInfo.name',
+  'productData.productInfo.category',
+  'productData.dreamOutcome.mainBenefit',
+  'productData.dreamOutcome.targetAudience',
+  'productData.dreamOutcome.emotionalOutcome',
+  'selectedPageType'
+];
+
+// Every copy prompt is also shaped by the framework, brand voice and language instructions
+const COPY_PROMPT_INPUTS = [...PRODUCT_CONTEXT_INPUTS, 'copyFramework', 'brandVoiceId', 'copyLanguage'];
+
+export const COPY_SECTION_INPUTS: Record<CopySection, string[]> = {
+  headline: COPY_PROMPT_INPUTS,
+  subheadline: COPY_PROMPT_INPUTS,
+  heroText: COPY_PROMPT_INPUTS,
+  benefits: COPY_PROMPT_INPUTS,
+  // The social proof prompt also lists the testimonials it may quote
+  socialProof: [...COPY_PROMPT_INPUTS, 'productData.perceivedLikelihood.testimonials'],
+  cta: COPY_PROMPT_INPUTS,
+  urgency: COPY_PROMPT_INPUTS,
+  objections: COPY_PROMPT_INPUTS,
+  guarantee: COPY_PROMPT_INPUTS
+};
+
+// Sections whose prompt builds on another section's generated text
+export const COPY_SECTION_DEPENDENCIES: Partial<Record<CopySection, CopySection[]>> = {
+  subheadline: ['headline'],
+  urgency: ['cta']
+};
+
+// Mirrors what ImageSelection uses to pick placeholders and build generation prompts
+export const IMAGE_SLOT_INPUTS: Record<ImageSlot, string[]> = {
+  hero: ['productData.productInfo.category', 'productData.dreamOutcome.targetAudience', 'selectedPageType'],
+  product: ['productData.productInfo.name', 'productData.productInfo.category'],
+  testimonial: ['productData.productInfo.category'],
+  background: ['productData.productInfo.category'],
+  icons: ['productData.productInfo.category']
+};
+
+const readPath = (source: unknown, path: string): unknown =>
+  path.split('.').reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    source
+  );
+
+const getChangedInputs = (project: Project, changes: Partial<Project>): Set<string> => {
+  const next = { ...project, ...changes };
+  const inputs = new Set([...Object.values(COPY_SECTION_INPUTS).flat(), ...Object.values(IMAGE_SLOT_INPUTS).flat()]);
+  const changed = new Set<string>();
+
+  inputs.forEach(path => {
+    if (JSON.stringify(readPath(project, path)) !== JSON.stringify(readPath(next, path))) {
+      changed.add(path);
+    }
+  });
+
+  return changed;
+};
+
+/**
+ * Works out which downstream copy sections and image slots an upstream change
+ * (new product data, different page type) invalidates. The result is merged
+ * with anything already marked stale so it can be spread into the same update.
+ */
+export const getInvalidation = (
+  project: Project,
+  changes: Partial<Project>
+): Pick<Project, 'staleCopySections' | 'staleImageSlots'> => {
+  const changed = getChangedInputs(project, changes);
+  const dependsOnChange = (inputs: string[]) => inputs.some(input => changed.has(input));
+
+  const staleCopySections = new Set(project.staleCopySections || []);
+  if (project.generatedCopy) {
+    COPY_SECTIONS
+      .filter(section => dependsOnChange(COPY_SECTION_INPUTS[section]))
+      .forEach(section => staleCopySections.add(section));
+  }
+
+  const staleImageSlots = new Set(project.staleImageSlots || []);
+  if (project.selectedImages) {
+    (Object.keys(IMAGE_SLOT_INPUTS) as ImageSlot[])
+      .filter(slot => dependsOnChange(IMAGE_SLOT_INPUTS[slot]))
+      .forEach(slot => staleImageSlots.add(slot));
+  }
+
+  return {
+    staleCopySections: COPY_SECTIONS.filter(section => staleCopySections.has(section)),
+    staleImageSlots: [...staleImageSlots]
+  };
+};
@@ -0,0 +1,54 @@
+import type { Project } from '@/utils/ProjectStore';
+
+export type ProjectStep = 'url-input' | 'data-review' | 'page-type' | 'copy-generation' | 'image-selection' | 'preview';
+
+// `slug` is the last path segment of the step's route: /projects/:id/:slug
+export const PROJECT_STEPS: Array<{ step: ProjectStep; label: string; slug: string }> = [
+  { step: 'url-input', label: 'URL Analysis', slug: 'analyze' },
+  { step: 'data-review', label: 'Data Review', slug: 'review' },
+  { step: 'page-type', label: 'Page Type', slug: 'page-type' },
+  { step: 'copy-generation', label: 'Copy Generation', slug: 'copy' },
+  { step: 'image-selection', label: 'Images', slug: 'images' },
+  { step: 'preview', label: 'Preview', slug: 'preview' }
+];
+
+export const getStepLabel = (step: ProjectStep): string =>
+  PROJECT_STEPS.find(item => item.step === step)?.label || step;
+
+export const getStepIndex = (step: ProjectStep): number =>
+  PROJECT_STEPS.findIndex(item => item.step === step);
+
+export const getStepFromSlug = (slug: string | undefined): ProjectStep | null =>
+  PROJECT_STEPS.find(item => item.slug === slug)?.step || null;
+
+export const getStepPath = (projectId: string, step: ProjectStep): string => {
+  const slug = PROJECT_STEPS.find(item => item.step === step)?.slug || PROJECT_STEPS[0].slug;
+  return `/projects/${projectId}/${slug}`;
+};
+
+// A step can be opened once everything it renders from has been produced upstream
+export const getReachableSteps = (project: Project | null): ProjectStep[] => {
+  const steps: ProjectStep[] = ['url-input'];
+  if (!project?.productData) return steps;
+
+  steps.push('data-review', 'page-type');
+  if (!project.selectedPageType) return steps;
+
+  steps.push('copy-generation');
+  if (!project.generatedCopy) return steps;
+
+  steps.push('image-selection');
+  if (!project.selectedImages) return steps;
+
+  steps.push('preview');
+  return steps;
+};
+
+export const isStepReachable = (project: Project | null, step: ProjectStep): boolean =>
+  getReachableSteps(project).includes(step);
+
+// Where a guard sends someone whose target step is missing its prerequisites
+export const getEarliestIncompleteStep = (project: Project | null): ProjectStep => {
+  const steps = getReachableSteps(project);
+  return steps[steps.length - 1];
+};
@@ -0,0 +1,135 @@
+import { COPY_FRAMEWORKS, getFrameworkSections, getSectionTemplateId } from '@/lib/copy-frameworks';
+import { COPY_SECTION_LABELS } from '@/lib/project-dependencies';
+import type { PromptTemplate } from '@/lib/prompt-templates';
+
+export const PROMPT_TEMPLATE_IDS = {
+  analysisSystem: 'analysis.system',
+  analysisUser: 'analysis.user',
+  copySystem: 'copy.system',
+  copyContext: 'copy.context',
+  copyLanguage: 'copy.language',
+  copyTranslate: 'copy.translate'
+} as const;
+
+const ANALYSIS_USER_TEMPLATE = `EXTRACT LANDING PAGE DATA from this content for Alex Hormozi's Value Equation:
+
+Content: {{content}}
+
+RETURN STRUCTURED JSON WITH EXACTLY THIS FORMAT:
+{
+  "dreamOutcome": {
+    "mainBenefit": "primary transformation or outcome",
+    "secondaryBenefits": ["benefit1", "benefit2", "benefit3"],
+    "targetAudience": "specific audience description",
+    "emotionalOutcome": "emotional transformation"
+  },
+  "perceivedLikelihood": {
+    "testimonials": ["testimonial1", "testimonial2"],
+    "socialProofNumbers": ["metric1", "metric2"],
+    "guarantees": ["guarantee1", "guarantee2"]
+  },
+  "timeDelay": {
+    "deliveryTimeframe": "how quickly they get access",
+    "resultsTimeframe": "how quickly they see results"
+  },
+  "effortSacrifice": {
+    "difficultyLevel": 5,
+    "prerequisites": ["requirement1", "requirement2"],
+    "easeOfUse": "description of ease"
+  },
+  "productInfo": {
+    "name": "product name",
+    "category": "software|physical|service|info|health",
+    "industry": "industry name",
+    "pricePoint": "low|medium|high|premium"
+  },
+  "extractionQuality": {
+    "completenessScore": 0.8,
+    "confidenceLevel": "high|medium|low",
+    "missingFields": ["field1", "field2"]
+  }
+}
+
+Mark missing data as "MISSING" - do not fabricate information.
+Provide confidence scores based on data availability.
+Ensure all fields are present in the response.`;
+
+const COPY_CONTEXT_TEMPLATE = `Product: {{productInfo.name}}
+Category: {{productInfo.category}}
+Page Type: {{pageType}}
+Main Benefit: {{dreamOutcome.mainBenefit}}
+Target Audience: {{dreamOutcome.targetAudience}}
+Emotional Outcome: {{dreamOutcome.emotionalOutcome}}`;
+
+const COPY_TRANSLATE_TEMPLATE = `Translate this landing page copy into {{language.name}} ({{language.nativeName}}):
+- Keep the meaning, tone and persuasive intent; adapt idioms instead of translating word for word
+- Keep product names, brand terms and numbers unchanged
+- Return the same JSON object with exactly the same keys and the same number of items in every array
+- Translate only the values, never the keys
+
+{{copy}}`;
+
+type DefaultPromptTemplate = Omit<PromptTemplate, 'isDefault' | 'savedAt' | 'isOutdated'>;
+
+/**
+ * The built-in prompts. Bump a template's version whenever its body changes
+ * here, so copy written with the old wording can still be told apart.
+ */
+export const DEFAULT_PROMPT_TEMPLATES: DefaultPromptTemplate[] = [
+  {
+    id: PROMPT_TEMPLATE_IDS.analysisSystem,
+    name: 'Analysis: System',
+    group: 'analysis',
+    version: 1,
+    body: 'You are an expert at analyzing marketing content and extracting structured data. Always return valid JSON responses.'
+  },
+  {
+    id: PROMPT_TEMPLATE_IDS.analysisUser,
+    name: 'Analysis: Extraction',
+    group: 'analysis',
+    description: 'Must keep asking for the exact JSON shape; the response is validated against it.',
+    version: 1,
+    body: ANALYSIS_USER_TEMPLATE
+  },
+  {
+    id: PROMPT_TEMPLATE_IDS.copySystem,
+    name: 'Copy: System',
+    group: 'copy',
+    version: 1,
+    body: 'You are an expert direct response copywriter. For JSON responses, return valid JSON. For text responses, return plain text.'
+  },
+  {
+    id: PROMPT_TEMPLATE_IDS.copyContext,
+    name: 'Copy: Product Context',
+    group: 'copy',
+    description: 'Added to every section prompt, after the section instructions.',
+    version: 1,
+    body: COPY_CONTEXT_TEMPLATE
+  },
+  {
+    id: PROMPT_TEMPLATE_IDS.copyLanguage,
+    name: 'Copy: Language',
+    group: 'copy',
+    description: 'Added to every section prompt when the page is not in English.',
+    version: 1,
+    body: 'Write all copy in {{language.name}} ({{language.nativeName}}), the way a native copywriter would write it rather than as a translation. Keep any JSON keys in English.'
+  },
+  {
+    id: PROMPT_TEMPLATE_IDS.copyTranslate,
+    name: 'Copy: Translate Page',
+    group: 'copy',
+    description: 'Translates finished copy. The response must be the same JSON object.',
+    version: 1,
+    body: COPY_TRANSLATE_TEMPLATE
+  },
+  ...Object.values(COPY_FRAMEWORKS).flatMap(framework =>
+    getFrameworkSections(framework).map(section => ({
+      id: getSectionTemplateId(framework.id, section),
+      name: `${framework.name}: ${COPY_SECTION_LABELS[section]}`,
+      group: 'copy' as const,
+      description: `${framework.name} instructions for the ${COPY_SECTION_LABELS[section].toLowerCase()}. The output format is added automatically.`,
+      version: framework.sections.find(item => item.section === section)?.version || 1,
+      body: framework.sections.find(item => item.section === section)?.instructions || ''
+    }))
+  )
+];
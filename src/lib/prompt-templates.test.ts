@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import {
+  findUnknownVariables,
+  formatTemplateRef,
+  isCurrentTemplateVersion,
+  listTemplateVariables,
+  listVariablePaths,
+  renderPromptTemplate,
+  type PromptTemplate
+} from './prompt-templates';
+
+const variables = {
+  productInfo: { name: 'Sleep Well' },
+  dreamOutcome: { secondaryBenefits: ['calm', 'focus'] },
+  pageType: 'vsl'
+};
+
+describe('renderPromptTemplate', () => {
+  it('fills nested paths and joins arrays', () => {
+    expect(renderPromptTemplate('{{ productInfo.name }} for {{pageType}}: {{dreamOutcome.secondaryBenefits}}', variables))
+      .toBe('Sleep Well for vsl: calm, focus');
+  });
+
+  it('renders unknown paths empty and does not expand placeholders inside values', () => {
+    expect(renderPromptTemplate('[{{missing.path}}] {{name}}', { name: '{{pageType}}', pageType: 'vsl' }))
+      .toBe('[] {{pageType}}');
+  });
+});
+
+describe('template variables', () => {
+  it('lists placeholders once and flags the unknown ones', () => {
+    const body = '{{productInfo.name}} {{productInfo.name}} {{productInfo.price}}';
+    expect(listTemplateVariables(body)).toEqual(['productInfo.name', 'productInfo.price']);
+    expect(findUnknownVariables(body, variables)).toEqual(['productInfo.price']);
+  });
+
+  it('lists leaf paths, treating arrays as values', () => {
+    expect(listVariablePaths(variables)).toEqual(['productInfo.name', 'dreamOutcome.secondaryBenefits', 'pageType']);
+  });
+});
+
+describe('template versions', () => {
+  const saved: PromptTemplate = {
+    id: 'copy.hormozi.socialProof', name: 'Social Proof', group: 'copy', version: 2, body: 'Edited', isDefault: false, savedAt: 1700000000000, isOutdated: false
+  };
+
+  it('tells a saved edit apart from a built-in with the same number', () => {
+    const builtInRef = { id: saved.id, version: 2, savedAt: 0 };
+    expect(isCurrentTemplateVersion(builtInRef, saved)).toBe(false);
+    expect(isCurrentTemplateVersion({ id: saved.id, version: 2, savedAt: saved.savedAt }, saved)).toBe(true);
+    expect(formatTemplateRef(builtInRef)).toBe('copy.hormozi.socialProof built-in v2');
+  });
+
+  it('matches refs recorded before save times by number', () => {
+    expect(isCurrentTemplateVersion({ id: saved.id, version: 2 }, saved)).toBe(true);
+    expect(isCurrentTemplateVersion({ id: saved.id, version: 1 }, saved)).toBe(false);
+  });
+});
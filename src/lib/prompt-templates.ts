@@ -0,0 +1,87 @@
+export type PromptTemplateGroup = 'analysis' | 'copy';
+
+/** A prompt with `{{path.to.value}}` placeholders, filled in from the variables at send time. */
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  group: PromptTemplateGroup;
+  // Shown in the editor, e.g. the framework a section template belongs to
+  description?: string;
+  version: number;
+  body: string;
+  // Whether `body` is the built-in text rather than a saved edit
+  isDefault: boolean;
+  // When the edit in use was saved; 0 for the built-in text
+  savedAt: number;
+  // The edit in use was saved over an older built-in text than the current one
+  isOutdated: boolean;
+}
+
+export interface PromptTemplateVersion {
+  version: number;
+  body: string;
+  savedAt: number;
+  // Built-in version the edit was saved over. Saves from before it was recorded were all made over v1
+  baseVersion?: number;
+}
+
+/** Which template, at which version, wrote a piece of output. */
+export interface PromptTemplateRef {
+  id: string;
+  version: number;
+  // Saved edits and built-ins are numbered apart and can share a number; this says which text it was, 0 for the built-in.
+  // Missing on refs recorded before it was
+  savedAt?: number;
+}
+
+export type PromptVariables = Record<string, unknown>;
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+const lookup = (variables: PromptVariables, path: string): unknown =>
+  path.split('.').reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    variables
+  );
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.map(formatValue).filter(Boolean).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * Replaces every `{{path}}` with its value. Unknown paths render empty and
+ * values are inserted as-is, so text from the product data can't inject
+ * placeholders of its own.
+ */
+export const renderPromptTemplate = (body: string, variables: PromptVariables): string =>
+  body.replace(VARIABLE_PATTERN, (_, path: string) => formatValue(lookup(variables, path)));
+
+/** Placeholder paths in the order they first appear. */
+export const listTemplateVariables = (body: string): string[] =>
+  [...new Set(Array.from(body.matchAll(VARIABLE_PATTERN), match => match[1]))];
+
+export const findUnknownVariables = (body: string, variables: PromptVariables): string[] =>
+  listTemplateVariables(body).filter(path => lookup(variables, path) === undefined);
+
+/** Every leaf path a template could use, for the editor's variable list. */
+export const listVariablePaths = (variables: PromptVariables, prefix = ''): string[] =>
+  Object.entries(variables).flatMap(([key, value]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    return value && typeof value === 'object' && !Array.isArray(value)
+      ? listVariablePaths(value as PromptVariables, path)
+      : [path];
+  });
+
+export const formatTemplateVersion = ({ version, savedAt }: Omit<PromptTemplateRef, 'id'>): string =>
+  savedAt === 0 ? `built-in v${version}` : `v${version}`;
+
+export const formatTemplateRef = (ref: PromptTemplateRef): string => `${ref.id} ${formatTemplateVersion(ref)}`;
+
+/** Whether `ref` names the text `template` holds now. Refs without `savedAt` can only be matched by number. */
+export const isCurrentTemplateVersion = (ref: PromptTemplateRef, template: PromptTemplate): boolean =>
+  ref.id === template.id
+  && ref.version === template.version
+  && (ref.savedAt === undefined || ref.savedAt === template.savedAt);
@@ -0,0 +1,52 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { describe, expect, it } from 'vitest';
+import type { GeneratedCopy } from '@/components/CopyGeneration';
+import { LandingPageTemplate } from '@/components/LandingPageTemplate';
+import { htmlToJsx } from './html-to-jsx';
+import { buildPropPlaceholders } from './react-export';
+
+const COPY: GeneratedCopy = {
+  headline: 'Sleep Better Tonight',
+  subheadline: 'A natural formula',
+  heroText: 'First paragraph.\nSecond paragraph.',
+  benefits: ['Fall asleep faster', 'Wake up refreshed'],
+  socialProof: '',
+  cta: 'Get Started',
+  ctaOptions: ['Get Started', 'Try It Free'],
+  urgency: '',
+  objectionHandling: [{ objection: 'Is it safe?', response: 'Yes.' }, { objection: 'Unanswered', response: '' }],
+  guarantee: '60-day guarantee'
+};
+const IMAGES = { hero: 'https://images.unsplash.com/photo-1?w=800&h=600', icons: [] };
+
+describe('buildPropPlaceholders', () => {
+  it('splits multi-line copy and keeps empty values out of the props', () => {
+    const { copy, images } = buildPropPlaceholders(COPY, IMAGES);
+    expect(copy.heroText).toEqual(['First paragraph.', 'Second paragraph.']);
+    expect(copy.objections).toEqual([{ objection: 'Is it safe?', response: 'Yes.' }, { objection: 'Unanswered', response: '' }]);
+    expect(images).toEqual(IMAGES);
+  });
+
+  it('keeps the option matching the primary CTA equal to it', () => {
+    const { tokenCopy } = buildPropPlaceholders(COPY, IMAGES);
+    expect(tokenCopy.ctaOptions[0]).toBe(tokenCopy.cta);
+    expect(tokenCopy.ctaOptions[1]).not.toBe(tokenCopy.cta);
+  });
+
+  it('renders every page type to JSX that reads the copy from props', () => {
+    const { tokenCopy, tokenImages, expressions } = buildPropPlaceholders(COPY, IMAGES);
+    (['vsl', 'freebie', 'product'] as const).forEach(pageType => {
+      const jsx = htmlToJsx(renderToStaticMarkup(createElement(LandingPageTemplate, {
+        pageType,
+        generatedCopy: tokenCopy,
+        selectedImages: tokenImages
+      })), { expressions });
+
+      expect(jsx).not.toMatch(/__lp\d+__|class=/);
+      expect(jsx).toContain('{copy.headline}');
+      expect(jsx).toContain('images.hero');
+      expect(jsx).not.toContain('Sleep Better Tonight');
+    });
+  });
+});
@@ -0,0 +1,251 @@
+import type { CopyObjection, GeneratedCopy } from '@/components/CopyGeneration';
+import type { SelectedImages } from '@/components/ImageSelection';
+import type { JsxExpressions } from './html-to-jsx';
+
+/**
+ * The copy as the exported component takes it. Multi-line fields are split
+ * into the paragraphs or lines the page renders separately.
+ */
+export interface ExportedCopy {
+  headline: string;
+  subheadline: string;
+  heroText: string[];
+  benefits: string[];
+  socialProof: string[];
+  cta: string;
+  ctaOptions: string[];
+  urgency: string;
+  guarantee: string;
+  objections: CopyObjection[];
+}
+
+export interface ExportedImages {
+  hero: string;
+  product?: string;
+  testimonial?: string;
+  background?: string;
+  icons: string[];
+}
+
+export interface PropPlaceholders {
+  copy: ExportedCopy;
+  images: ExportedImages;
+  // Render the template with these; every string in them is a token for a prop
+  tokenCopy: GeneratedCopy;
+  tokenImages: SelectedImages;
+  expressions: JsxExpressions;
+}
+
+const splitLines = (value?: string) => value ? value.split('\n') : [];
+
+/**
+ * Stand-ins for the copy and images that render as tokens the JSX converter
+ * turns back into `copy.*` and `images.*` expressions. Empty values stay
+ * empty so the template leaves out the same sections it would for the real
+ * page, and list items map to props by position.
+ */
+export const buildPropPlaceholders = (generatedCopy: GeneratedCopy, selectedImages: SelectedImages): PropPlaceholders => {
+  const paths: string[] = [];
+  const token = (value: string | undefined, path: string) => {
+    if (!value) return value || '';
+    paths.push(path);
+    return `__lp${paths.length - 1}__`;
+  };
+
+  const copy: ExportedCopy = {
+    headline: generatedCopy.headline || '',
+    subheadline: generatedCopy.subheadline || '',
+    heroText: splitLines(generatedCopy.heroText),
+    benefits: generatedCopy.benefits || [],
+    socialProof: splitLines(generatedCopy.socialProof),
+    cta: generatedCopy.cta || '',
+    ctaOptions: generatedCopy.ctaOptions || [],
+    urgency: generatedCopy.urgency || '',
+    guarantee: generatedCopy.guarantee || '',
+    objections: (generatedCopy.objectionHandling || []).map(({ objection, response }) => ({ objection, response }))
+  };
+  const images: ExportedImages = {
+    hero: selectedImages.hero || '',
+    ...(selectedImages.product && { product: selectedImages.product }),
+    ...(selectedImages.testimonial && { testimonial: selectedImages.testimonial }),
+    ...(selectedImages.background && { background: selectedImages.background }),
+    icons: selectedImages.icons || []
+  };
+
+  const ctaToken = token(copy.cta, 'copy.cta');
+  const tokenCopy: GeneratedCopy = {
+    headline: token(copy.headline, 'copy.headline'),
+    subheadline: token(copy.subheadline, 'copy.subheadline'),
+    heroText: copy.heroText.map((line, index) => token(line, `copy.heroText[${index}]`)).join('\n'),
+    benefits: copy.benefits.map((benefit, index) => token(benefit, `copy.benefits[${index}]`)),
+    socialProof: copy.socialProof.map((line, index) => token(line, `copy.socialProof[${index}]`)).join('\n'),
+    cta: ctaToken,
+    // The option matching the primary CTA has to stay equal to it, or the template would show it twice
+    ctaOptions: copy.ctaOptions.map((option, index) => option === copy.cta ? ctaToken : token(option, `copy.ctaOptions[${index}]`)),
+    urgency: token(copy.urgency, 'copy.urgency'),
+    guarantee: token(copy.guarantee, 'copy.guarantee'),
+    objectionHandling: copy.objections.map((item, index) => ({
+      objection: token(item.objection, `copy.objections[${index}].objection`),
+      response: token(item.response, `copy.objections[${index}].response`)
+    }))
+  };
+  const tokenImages: SelectedImages = {
+    hero: token(images.hero, 'images.hero'),
+    product: token(images.product, 'images.product') || undefined,
+    testimonial: token(images.testimonial, 'images.testimonial') || undefined,
+    background: token(images.background, 'images.background') || undefined,
+    icons: images.icons.map((icon, index) => token(icon, `images.icons[${index}]`))
+  };
+
+  return {
+    copy,
+    images,
+    tokenCopy,
+    tokenImages,
+    expressions: {
+      pattern: /__lp\d+__/,
+      resolve: value => paths[Number(value.slice(4, -2))]
+    }
+  };
+};
+
+const COPY_TYPES = `export interface LandingPageCopy {
+  headline: string;
+  subheadline: string;
+  // One entry per paragraph
+  heroText: string[];
+  benefits: string[];
+  // One entry per line
+  socialProof: string[];
+  cta: string;
+  ctaOptions: string[];
+  urgency: string;
+  guarantee: string;
+  objections: { objection: string; response: string }[];
+}
+
+export interface LandingPageImages {
+  hero: string;
+  product?: string;
+  testimonial?: string;
+  background?: string;
+  icons: string[];
+}
+
+export interface LandingPageProps {
+  copy: LandingPageCopy;
+  images: LandingPageImages;
+}`;
+
+/** `LandingPage.tsx`: the typed props and the page markup as a dependency-free component. */
+export const buildComponentSource = (jsx: string): string => `${COPY_TYPES}
+
+/**
+ * An exported landing page. Lists are laid out by position: the page shows
+ * as many benefits, lines and objections as it was exported with, so add
+ * markup here before adding items to the copy.
+ */
+export function LandingPage({ copy, images }: LandingPageProps) {
+  return (
+${jsx}
+  );
+}
+
+export default LandingPage;
+`;
+
+/** `content.ts`: the exported copy and images, ready to pass straight to the component. */
+export const buildContentSource = (copy: ExportedCopy, images: ExportedImages): string =>
+  `import type { LandingPageCopy, LandingPageImages } from './LandingPage';
+
+export const copy: LandingPageCopy = ${JSON.stringify(copy, null, 2)};
+
+export const images: LandingPageImages = ${JSON.stringify(images, null, 2)};
+`;
+
+/** The rest of a minimal Vite + React + TypeScript project around the component, keyed by path. */
+export const buildViteScaffold = ({ name, title, language }: { name: string; title: string; language: string }): Record<string, string> => ({
+  'package.json': `${JSON.stringify({
+    name,
+    private: true,
+    version: '0.0.0',
+    type: 'module',
+    scripts: {
+      dev: 'vite',
+      build: 'tsc && vite build',
+      preview: 'vite preview'
+    },
+    dependencies: {
+      react: '^18.3.1',
+      'react-dom': '^18.3.1'
+    },
+    devDependencies: {
+      '@types/react': '^18.3.3',
+      '@types/react-dom': '^18.3.0',
+      '@vitejs/plugin-react': '^4.3.1',
+      typescript: '^5.5.3',
+      vite: '^5.4.1'
+    }
+  }, null, 2)}
+`,
+  'vite.config.ts': `import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+
+export default defineConfig({
+  plugins: [react()]
+});
+`,
+  'tsconfig.json': `${JSON.stringify({
+    compilerOptions: {
+      target: 'ES2020',
+      lib: ['ES2020', 'DOM', 'DOM.Iterable'],
+      module: 'ESNext',
+      moduleResolution: 'bundler',
+      jsx: 'react-jsx',
+      strict: true,
+      noEmit: true,
+      skipLibCheck: true,
+      isolatedModules: true
+    },
+    include: ['src']
+  }, null, 2)}
+`,
+  'index.html': `<!DOCTYPE html>
+<html lang="${language}">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${title.replace(/&/g, '&amp;').replace(/</g, '&lt;')}</title>
+  </head>
+  <body>
+    <div id="root"></div>
+    <script type="module" src="/src/main.tsx"></script>
+  </body>
+</html>
+`,
+  'src/main.tsx': `import { StrictMode } from 'react';
+import { createRoot } from 'react-dom/client';
+import { LandingPage } from './LandingPage';
+import { copy, images } from './content';
+import './landing-page.css';
+
+createRoot(document.getElementById('root')!).render(
+  <StrictMode>
+    <LandingPage copy={copy} images={images} />
+  </StrictMode>
+);
+`,
+  'README.md': `# ${title || name}
+
+A landing page exported as a React component.
+
+\`\`\`sh
+npm install
+npm run dev
+\`\`\`
+
+- \`src/LandingPage.tsx\` is the page. It only needs React, so it can be copied into an existing Next.js or Vite app.
+- \`src/content.ts\` holds the copy and image URLs passed to it as props.
+- \`src/landing-page.css\` is the compiled CSS for the classes the page uses. Import it once, or drop it if your app already runs Tailwind.
+`
+});
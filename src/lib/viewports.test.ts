@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { getPageSlices } from './viewports';
+
+describe('getPageSlices', () => {
+  it('cuts the page into screen-high slices', () => {
+    expect(getPageSlices(2000, 800)).toEqual([
+      { y: 0, height: 800 },
+      { y: 800, height: 800 },
+      { y: 1600, height: 400 }
+    ]);
+  });
+
+  it('merges a sliver at the bottom into the last page', () => {
+    expect(getPageSlices(1700, 800)).toEqual([
+      { y: 0, height: 800 },
+      { y: 800, height: 900 }
+    ]);
+    expect(getPageSlices(100, 800)).toEqual([{ y: 0, height: 100 }]);
+  });
+});
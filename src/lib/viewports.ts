@@ -0,0 +1,37 @@
+export type ViewMode = 'desktop' | 'tablet' | 'mobile';
+
+export interface Viewport {
+  label: string;
+  // CSS pixels; height is one screen, which is also one page of a PDF export
+  width: number;
+  height: number;
+}
+
+export const VIEWPORTS: Record<ViewMode, Viewport> = {
+  desktop: { label: 'Desktop', width: 1280, height: 800 },
+  tablet: { label: 'Tablet', width: 768, height: 1024 },
+  mobile: { label: 'Mobile', width: 375, height: 812 }
+};
+
+export interface PageSlice {
+  y: number;
+  height: number;
+}
+
+/**
+ * Cuts a full-page screenshot into page-sized slices, top to bottom. A last
+ * slice shorter than `minLastPage` is merged into the previous page instead
+ * of leaving a nearly empty page at the end of the document.
+ */
+export const getPageSlices = (totalHeight: number, pageHeight: number, minLastPage = pageHeight / 5): PageSlice[] => {
+  const slices: PageSlice[] = [];
+  for (let y = 0; y < totalHeight; y += pageHeight) {
+    slices.push({ y, height: Math.min(pageHeight, totalHeight - y) });
+  }
+  const last = slices[slices.length - 1];
+  if (slices.length > 1 && last.height < minLastPage) {
+    slices.pop();
+    slices[slices.length - 1].height += last.height;
+  }
+  return slices;
+};
@@ -1,54 +1,162 @@
-import { useState } from 'react';
+import { useEffect } from 'react';
+import { Link, Navigate, useNavigate, useParams } from 'react-router-dom';
 import { URLProcessor } from '@/components/URLProcessor';
 import { DataReview } from '@/components/DataReview';
 import { PageTypeSelector } from '@/components/PageTypeSelector';
-import { CopyGeneration } from '@/components/CopyGeneration';
-import { ImageSelection } from '@/components/ImageSelection';
+import { CopyGeneration, type CopyChange, type GeneratedCopy } from '@/components/CopyGeneration';
+import { ImageSelection, type ImageChange, type SelectedImages } from '@/components/ImageSelection';
 import { LandingPagePreview } from '@/components/LandingPagePreview';
+import { HistoryToolbar } from '@/components/HistoryToolbar';
+import { Button } from '@/components/ui/button';
+import { useProject } from '@/hooks/use-project';
+import { useProjectHistory } from '@/hooks/use-project-history';
+import { useToast } from '@/hooks/use-toast';
+import type { Project, SourceContent } from '@/utils/ProjectStore';
+import { ProjectBundle } from '@/utils/ProjectBundle';
+import type { ProductData } from '@/utils/ContentAnalyzer';
+import {
+  PROJECT_STEPS,
+  getEarliestIncompleteStep,
+  getReachableSteps,
+  getStepFromSlug,
+  getStepPath,
+  isStepReachable,
+  type ProjectStep
+} from '@/lib/project-steps';
+import { getInvalidation, type CopySection, type ImageSlot } from '@/lib/project-dependencies';
+import type { ChangeDescription } from '@/lib/history';
+import type { CopyFrameworkId } from '@/lib/copy-frameworks';
+import type { CopyLanguage } from '@/lib/copy-languages';
+import { Download, FolderOpen, Loader2 } from 'lucide-react';
 import heroImage from '@/assets/hero-image.jpg';
 
-type Step = 'url-input' | 'data-review' | 'page-type' | 'copy-generation' | 'image-selection' | 'preview';
-
 const Index = () => {
-  const [currentStep, setCurrentStep] = useState<Step>('url-input');
-  const [productData, setProductData] = useState<any>(null);
-  const [selectedPageType, setSelectedPageType] = useState<string>('');
-  const [generatedCopy, setGeneratedCopy] = useState<any>(null);
-  const [selectedImages, setSelectedImages] = useState<any>(null);
+  const { id, step: stepSlug } = useParams<{ id: string; step: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { project, isLoading, notFound, lastSavedAt, updateProject, persistProject } = useProject(id);
+  const history = useProjectHistory(project, updateProject);
+
+  const routeStep = getStepFromSlug(stepSlug);
+  const currentStep: ProjectStep = routeStep || 'url-input';
+  const productData = project?.productData;
+  const selectedPageType = project?.selectedPageType || '';
+  const generatedCopy = project?.generatedCopy;
+  const selectedImages = project?.selectedImages;
+  const staleCopySections = project?.staleCopySections || [];
+  const staleImageSlots = project?.staleImageSlots || [];
+  const reachableSteps = getReachableSteps(project);
+  const isStepAllowed = !project || isStepReachable(project, currentStep);
+  // The project the route names has loaded, rather than the one open before it
+  const isRouteProject = !!id && project?.id === id;
+
+  // Remember the last visited step so the dashboard can resume there
+  useEffect(() => {
+    if (project && isRouteProject && routeStep && isStepAllowed && project.currentStep !== routeStep) {
+      updateProject({ currentStep: routeStep });
+    }
+  }, [project, isRouteProject, routeStep, isStepAllowed, updateProject]);
+
+  const goToStep = async (step: ProjectStep, changes: Partial<Project> = {}) => {
+    try {
+      const saved = await persistProject({ ...changes, currentStep: step });
+      navigate(getStepPath(saved.id, step));
+    } catch (error) {
+      console.error('Failed to save project:', error);
+      toast({
+        title: "Save Failed",
+        description: "Your progress could not be saved in this browser.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Changing an upstream input keeps downstream work but flags what it affects
+  const withInvalidation = (changes: Partial<Project>): Partial<Project> =>
+    project ? { ...changes, ...getInvalidation(project, changes) } : changes;
 
-  const handleURLProcessed = (data: any) => {
+  const openStep = (step: ProjectStep) => {
+    if (project && id && isStepReachable(project, step)) {
+      navigate(getStepPath(id, step));
+    }
+  };
+
+  const handleURLProcessed = (data: ProductData, sourceContent: SourceContent) => {
     console.log('handleURLProcessed called with data:', data);
-    setProductData(data);
-    console.log('Setting currentStep to data-review');
-    setCurrentStep('data-review');
+    console.log('Navigating to data-review');
+    goToStep('data-review', withInvalidation({ productData: data, sourceContent }));
+  };
+
+  const handleDataChanged = (data: ProductData, change: ChangeDescription) => {
+    history.execute(withInvalidation({ productData: data }), change);
   };
 
   const handleDataConfirmed = () => {
-    setCurrentStep('page-type');
+    goToStep('page-type');
+  };
+
+  const handlePageTypeSelected = (type: string, framework: CopyFrameworkId) => {
+    goToStep('copy-generation', withInvalidation({ selectedPageType: type, copyFramework: framework }));
+  };
+
+  const handleBrandVoiceChanged = (brandVoiceId: string | null) => {
+    history.execute(withInvalidation({ brandVoiceId }), { label: 'Change brand voice' });
+  };
+
+  const handleLanguageChanged = (copyLanguage: CopyLanguage) => {
+    history.execute(withInvalidation({ copyLanguage }), { label: 'Change language' });
   };
 
-  const handlePageTypeSelected = (type: string) => {
-    setSelectedPageType(type);
-    setCurrentStep('copy-generation');
+  const handleStaleCopyResolved = (sections: CopySection[]) => {
+    updateProject({ staleCopySections: staleCopySections.filter(section => !sections.includes(section)) });
   };
 
-  const handleCopyGenerated = (copy: any) => {
-    setGeneratedCopy(copy);
-    setCurrentStep('image-selection');
+  const handleImagesChanged = (images: SelectedImages, change?: ImageChange) => {
+    if (!change) {
+      updateProject({ selectedImages: images });
+      return;
+    }
+
+    const { resolvedSlots, ...description } = change;
+    history.execute({
+      selectedImages: images,
+      ...(resolvedSlots && { staleImageSlots: staleImageSlots.filter(slot => !resolvedSlots.includes(slot)) })
+    }, description);
+  };
+
+  const handleStaleImagesResolved = (slots: ImageSlot[]) => {
+    updateProject({ staleImageSlots: staleImageSlots.filter(slot => !slots.includes(slot)) });
+  };
+
+  const handleCopyChanged = (copy: GeneratedCopy, change: CopyChange) => {
+    const { resolvedSections, lockedSections, variants, promptVersions, language, ...description } = change;
+    history.execute({
+      generatedCopy: copy,
+      ...(resolvedSections && {
+        staleCopySections: staleCopySections.filter(section => !resolvedSections.includes(section))
+      }),
+      ...(lockedSections && { lockedCopySections: lockedSections }),
+      ...(variants && { copyVariants: variants }),
+      ...(promptVersions && { copyPromptVersions: promptVersions }),
+      ...(language && { copyLanguage: language })
+    }, description);
   };
 
-  const handleImagesSelected = (images: any) => {
-    setSelectedImages(images);
-    setCurrentStep('preview');
+  const handleCopyGenerated = (copy: GeneratedCopy) => {
+    goToStep('image-selection', { generatedCopy: copy });
   };
 
-  const handleProjectComplete = () => {
-    // Could reset state or navigate to dashboard
-    setCurrentStep('url-input');
-    setProductData(null);
-    setSelectedPageType('');
-    setGeneratedCopy(null);
-    setSelectedImages(null);
+  const handleImagesSelected = (images: SelectedImages) => {
+    goToStep('preview', { selectedImages: images });
+  };
+
+  const handleProjectComplete = async () => {
+    try {
+      await persistProject({ completedAt: Date.now() });
+    } catch (error) {
+      console.error('Failed to save completed project:', error);
+    }
+    navigate('/projects');
   };
 
   const renderCurrentStep = () => {
@@ -56,14 +164,33 @@ const Index = () => {
       case 'url-input':
         return <URLProcessor onProcessingComplete={handleURLProcessed} />;
       case 'data-review':
-        return <DataReview data={productData} onConfirm={handleDataConfirmed} />;
+        return <DataReview data={productData} onDataChange={handleDataChanged} onConfirm={handleDataConfirmed} />;
       case 'page-type':
-        return <PageTypeSelector onSelect={handlePageTypeSelected} />;
+        return (
+          <PageTypeSelector
+            initialType={selectedPageType}
+            initialFramework={project?.copyFramework}
+            onSelect={handlePageTypeSelected}
+          />
+        );
       case 'copy-generation':
         return (
           <CopyGeneration 
             productData={productData}
             pageType={selectedPageType}
+            generatedCopy={generatedCopy}
+            staleSections={staleCopySections}
+            lockedSections={project?.lockedCopySections}
+            variants={project?.copyVariants}
+            promptVersions={project?.copyPromptVersions}
+            brandVoiceId={project?.brandVoiceId}
+            framework={project?.copyFramework}
+            language={project?.copyLanguage}
+            sourceMarkdown={project?.sourceContent?.markdown}
+            onBrandVoiceChange={handleBrandVoiceChanged}
+            onLanguageChange={handleLanguageChanged}
+            onCopyChange={handleCopyChanged}
+            onStaleResolved={handleStaleCopyResolved}
             onComplete={handleCopyGenerated}
           />
         );
@@ -73,6 +200,10 @@ const Index = () => {
             productData={productData}
             pageType={selectedPageType}
             generatedCopy={generatedCopy}
+            images={selectedImages}
+            staleSlots={staleImageSlots}
+            onImagesChange={handleImagesChanged}
+            onStaleResolved={handleStaleImagesResolved}
             onComplete={handleImagesSelected}
           />
         );
@@ -83,6 +214,9 @@ const Index = () => {
             pageType={selectedPageType}
             generatedCopy={generatedCopy}
             selectedImages={selectedImages}
+            framework={project?.copyFramework}
+            language={project?.copyLanguage}
+            onEditCopy={() => goToStep('copy-generation')}
             onComplete={handleProjectComplete}
           />
         );
@@ -91,6 +225,20 @@ const Index = () => {
     }
   };
 
+  if (notFound) {
+    return <Navigate to="/projects" replace />;
+  }
+
+  // Unknown or missing step segment: resume where the project left off
+  if (id && project && isRouteProject && !routeStep) {
+    return <Navigate to={getStepPath(id, isStepReachable(project, project.currentStep) ? project.currentStep : getEarliestIncompleteStep(project))} replace />;
+  }
+
+  // Deep link to a step whose prerequisites are missing
+  if (id && project && isRouteProject && !isStepAllowed) {
+    return <Navigate to={getStepPath(id, getEarliestIncompleteStep(project))} replace />;
+  }
+
   return (
     <div className="min-h-screen bg-background">
       {/* Hero Section */}
@@ -102,6 +250,40 @@ const Index = () => {
         <div className="absolute inset-0 bg-gradient-to-br from-background via-background/80 to-transparent" />
         
         <div className="relative container mx-auto px-4 py-16">
+          <div className="flex justify-end items-center gap-3 mb-4">
+            {project?.productData && (
+              <HistoryToolbar
+                canUndo={history.canUndo}
+                canRedo={history.canRedo}
+                undoLabel={history.undoLabel}
+                redoLabel={history.redoLabel}
+                snapshots={project.snapshots || []}
+                onUndo={history.undo}
+                onRedo={history.redo}
+                onCreateSnapshot={history.createSnapshot}
+                onRestoreSnapshot={history.restoreSnapshot}
+                onDeleteSnapshot={history.deleteSnapshot}
+              />
+            )}
+            {lastSavedAt && (
+              <span className="text-xs text-muted-foreground">
+                Saved {new Date(lastSavedAt).toLocaleTimeString()}
+              </span>
+            )}
+            {project?.productData && (
+              <Button variant="outline" size="sm" onClick={() => ProjectBundle.download(project)}>
+                <Download className="w-4 h-4 mr-2" />
+                Export Project
+              </Button>
+            )}
+            <Button asChild variant="outline" size="sm">
+              <Link to="/projects">
+                <FolderOpen className="w-4 h-4 mr-2" />
+                My Projects
+              </Link>
+            </Button>
+          </div>
+
           <div className="text-center space-y-6 mb-12">
             <h1 className="text-4xl md:text-6xl font-bold bg-gradient-primary bg-clip-text text-transparent">
               AI Landing Page Generator
@@ -114,40 +296,58 @@ const Index = () => {
           {/* Progress Indicator */}
           <div className="flex justify-center mb-8">
             <div className="flex items-center space-x-4">
-              {[
-                { step: 'url-input', label: 'URL Analysis' },
-                { step: 'data-review', label: 'Data Review' },
-                { step: 'page-type', label: 'Page Type' },
-                { step: 'copy-generation', label: 'Copy Generation' },
-                { step: 'image-selection', label: 'Images' },
-                { step: 'preview', label: 'Preview' }
-              ].map((item, index) => (
-                <div key={item.step} className="flex items-center">
-                  <div
-                    className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-medium transition-all ${
-                      currentStep === item.step
-                        ? 'bg-primary text-primary-foreground'
-                        : ['url-input', 'data-review', 'page-type', 'copy-generation', 'image-selection', 'preview'].indexOf(currentStep) > index
-                        ? 'bg-success text-white'
-                        : 'bg-muted text-muted-foreground'
-                    }`}
-                  >
-                    {index + 1}
+              {PROJECT_STEPS.map((item, index) => {
+                const isReachable = reachableSteps.includes(item.step);
+                const isComplete = isReachable && index < reachableSteps.length - 1;
+                const hasStaleWork =
+                  (item.step === 'copy-generation' && staleCopySections.length > 0) ||
+                  (item.step === 'image-selection' && staleImageSlots.length > 0);
+
+                return (
+                  <div key={item.step} className="flex items-center">
+                    <button
+                      type="button"
+                      onClick={() => openStep(item.step)}
+                      disabled={!isReachable || currentStep === item.step}
+                      className="flex items-center disabled:cursor-default enabled:hover:opacity-80"
+                      title={hasStaleWork ? `${item.label} needs review after upstream changes` : item.label}
+                    >
+                      <div
+                        className={`relative w-8 h-8 rounded-full flex items-center justify-center text-sm font-medium transition-all ${
+                          currentStep === item.step
+                            ? 'bg-primary text-primary-foreground'
+                            : isComplete
+                            ? 'bg-success text-white'
+                            : 'bg-muted text-muted-foreground'
+                        }`}
+                      >
+                        {index + 1}
+                        {hasStaleWork && (
+                          <span className="absolute -top-1 -right-1 w-3 h-3 rounded-full bg-warning border-2 border-background" />
+                        )}
+                      </div>
+                      <span className="ml-2 text-sm text-muted-foreground hidden md:block">
+                        {item.label}
+                      </span>
+                    </button>
+                    {index < PROJECT_STEPS.length - 1 && (
+                      <div className="w-8 h-px bg-muted mx-4" />
+                    )}
                   </div>
-                  <span className="ml-2 text-sm text-muted-foreground hidden md:block">
-                    {item.label}
-                  </span>
-                  {index < 5 && (
-                    <div className="w-8 h-px bg-muted mx-4" />
-                  )}
-                </div>
-              ))}
+                );
+              })}
             </div>
           </div>
 
           {/* Current Step Content */}
           <div className="max-w-4xl mx-auto">
-            {renderCurrentStep()}
+            {isLoading || !project ? (
+              <div className="flex justify-center py-16">
+                <Loader2 className="w-8 h-8 animate-spin text-primary" />
+              </div>
+            ) : (
+              renderCurrentStep()
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,243 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { ProjectStore, type Project } from '@/utils/ProjectStore';
+import { ProjectBundle } from '@/utils/ProjectBundle';
+import { getReachableSteps, getStepIndex, getStepLabel, getStepPath, PROJECT_STEPS, type ProjectStep } from '@/lib/project-steps';
+import { FolderOpen, Loader2, Plus, Trash2, ArrowRight, CheckCircle, Download, Upload } from 'lucide-react';
+
+const pageTypeLabels: Record<string, string> = {
+  vsl: 'Video Sales Letter',
+  freebie: 'Lead Magnet Page',
+  product: 'Product Showcase'
+};
+
+const Projects = () => {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    ProjectStore.listProjects()
+      .then(setProjects)
+      .catch(error => {
+        console.error('Failed to load projects:', error);
+        toast({
+          title: "Could Not Load Projects",
+          description: "Your browser blocked access to saved projects.",
+          variant: "destructive"
+        });
+      })
+      .finally(() => setIsLoading(false));
+  }, [toast]);
+
+  const openProject = (project: Project, step?: ProjectStep) => {
+    navigate(getStepPath(project.id, step || project.currentStep));
+  };
+
+  const importProject = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = await ProjectBundle.readFile(file);
+      const saved = await ProjectStore.saveProject(imported);
+      setProjects(prev => [saved, ...prev]);
+      toast({
+        title: "Project Imported",
+        description: `${saved.name} is ready to open.`,
+      });
+    } catch (error) {
+      console.error('Failed to import project:', error);
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "The project file could not be read.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const deleteProject = async (project: Project) => {
+    try {
+      await ProjectStore.deleteProject(project.id);
+      setProjects(prev => prev.filter(p => p.id !== project.id));
+      toast({
+        title: "Project Deleted",
+        description: `${project.name} has been removed.`,
+      });
+    } catch (error) {
+      console.error('Failed to delete project:', error);
+      toast({
+        title: "Delete Failed",
+        description: "The project could not be deleted. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-16">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-12">
+          <div className="space-y-2">
+            <h1 className="text-4xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+              My Projects
+            </h1>
+            <p className="text-muted-foreground">
+              Every analysis, copy draft and image selection is saved automatically in this browser
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <input
+              ref={importInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={importProject}
+            />
+            <Button variant="outline" size="lg" onClick={() => importInputRef.current?.click()}>
+              <Upload className="w-4 h-4 mr-2" />
+              Import
+            </Button>
+            <Button asChild variant="hero" size="lg">
+              <Link to="/">
+                <Plus className="w-4 h-4 mr-2" />
+                New Project
+              </Link>
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : projects.length === 0 ? (
+          <Card className="p-12 text-center bg-gradient-surface border-primary/20">
+            <FolderOpen className="w-12 h-12 mx-auto text-primary mb-4" />
+            <h2 className="text-xl font-semibold mb-2">No saved projects yet</h2>
+            <p className="text-muted-foreground mb-6">
+              Analyze an affiliate URL to start your first landing page project.
+            </p>
+            <Button asChild variant="outline">
+              <Link to="/">Start a Project</Link>
+            </Button>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {projects.map((project) => {
+              const reachableSteps = getReachableSteps(project);
+              const stepNumber = getStepIndex(project.currentStep) + 1;
+
+              return (
+                <Card key={project.id} className="p-6 bg-gradient-surface border-primary/20 shadow-card space-y-4">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <h3 className="text-lg font-semibold">{project.name}</h3>
+                      <p className="text-xs text-muted-foreground">
+                        Updated {formatDistanceToNow(project.updatedAt, { addSuffix: true })}
+                      </p>
+                    </div>
+                    {project.completedAt ? (
+                      <Badge className="bg-success text-white">
+                        <CheckCircle className="w-3 h-3 mr-1" />
+                        Complete
+                      </Badge>
+                    ) : (
+                      <Badge variant="secondary">
+                        Step {stepNumber}/{PROJECT_STEPS.length}
+                      </Badge>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-2 text-sm">
+                    <div>
+                      <span className="font-medium">Category:</span>
+                      <p className="text-muted-foreground">{project.productData?.productInfo.category || '—'}</p>
+                    </div>
+                    <div>
+                      <span className="font-medium">Page Type:</span>
+                      <p className="text-muted-foreground">{pageTypeLabels[project.selectedPageType] || '—'}</p>
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Button className="w-full" onClick={() => openProject(project)}>
+                      Continue at {getStepLabel(project.currentStep)}
+                      <ArrowRight className="w-4 h-4 ml-2" />
+                    </Button>
+
+                    <div className="flex gap-2">
+                      <Select onValueChange={(step) => openProject(project, step as ProjectStep)}>
+                        <SelectTrigger className="flex-1">
+                          <SelectValue placeholder="Open at step..." />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {PROJECT_STEPS.map(({ step, label }) => (
+                            <SelectItem key={step} value={step} disabled={!reachableSteps.includes(step)}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        aria-label={`Export ${project.name}`}
+                        onClick={() => ProjectBundle.download(project)}
+                      >
+                        <Download className="w-4 h-4" />
+                      </Button>
+
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="outline" size="icon" aria-label={`Delete ${project.name}`}>
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete {project.name}?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              The scraped data, generated copy and image selections for this project will be permanently removed.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => deleteProject(project)}>Delete</AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </div>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Projects;
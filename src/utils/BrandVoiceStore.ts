@@ -0,0 +1,49 @@
+import { createBrandVoiceProfile, type BrandVoiceProfile } from '@/lib/brand-voice';
+
+/**
+ * Brand voice profiles shared by every project in this browser, so one voice
+ * can be reused across pages. Projects only keep the id of the one they use.
+ */
+export class BrandVoiceStore {
+  private static STORAGE_KEY = 'brand_voice_profiles';
+  // Lets every mounted hook pick up a save made elsewhere in the app
+  static CHANGE_EVENT = 'brand-voice-profiles-changed';
+
+  static listProfiles(): BrandVoiceProfile[] {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      const profiles: BrandVoiceProfile[] = stored ? JSON.parse(stored) : [];
+      // Fill in fields added after a profile was saved
+      return profiles.map(profile => ({ ...createBrandVoiceProfile(profile.name), ...profile }));
+    } catch {
+      return [];
+    }
+  }
+
+  static getProfile(id: string | null | undefined): BrandVoiceProfile | null {
+    if (!id) return null;
+    return this.listProfiles().find(profile => profile.id === id) || null;
+  }
+
+  static saveProfile(profile: BrandVoiceProfile): BrandVoiceProfile {
+    const saved = { ...profile, name: profile.name.trim() || 'Untitled Voice', updatedAt: Date.now() };
+    const profiles = this.listProfiles();
+    const index = profiles.findIndex(item => item.id === profile.id);
+    if (index >= 0) {
+      profiles[index] = saved;
+    } else {
+      profiles.push(saved);
+    }
+    this.writeProfiles(profiles);
+    return saved;
+  }
+
+  static deleteProfile(id: string): void {
+    this.writeProfiles(this.listProfiles().filter(profile => profile.id !== id));
+  }
+
+  private static writeProfiles(profiles: BrandVoiceProfile[]): void {
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(profiles));
+    window.dispatchEvent(new Event(this.CHANGE_EVENT));
+  }
+}
@@ -0,0 +1,99 @@
+import JSZip from 'jszip';
+import { HTMLExporter } from './HTMLExporter';
+import type { LandingPageTemplateProps } from '@/components/LandingPageTemplate';
+import {
+  buildFaviconSvg,
+  collectImageUrls,
+  describeImageSource,
+  getImageExtension,
+  rewriteAssetUrls,
+  type BundledAsset,
+  type BundleManifest,
+  type HotlinkedAsset
+} from '@/lib/asset-bundle';
+import { getCopyLanguage } from '@/lib/copy-languages';
+import { downloadBlob, slugify } from '@/lib/download';
+
+const STYLESHEET_PATH = 'styles.css';
+const FAVICON_PATH = 'assets/favicon.svg';
+
+export interface BundleExportResult {
+  blob: Blob;
+  manifest: BundleManifest;
+}
+
+/**
+ * Packs a landing page into a ZIP that can be uploaded to any static host:
+ * index.html, its stylesheet, every image it shows copied into assets/, and
+ * a manifest recording where each image came from and under what license.
+ */
+export class BundleExporter {
+  private static async fetchImage(url: string): Promise<Blob> {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return response.blob();
+  }
+
+  static async buildBundle(page: LandingPageTemplateProps, name: string): Promise<BundleExportResult> {
+    const zip = new JSZip();
+    const body = HTMLExporter.renderBody(page);
+    const paths = new Map<string, string>();
+    const assets: BundledAsset[] = [];
+    const hotlinked: HotlinkedAsset[] = [];
+    let firstImage: Blob | null = null;
+
+    // One at a time: a page has a handful of images and some hosts rate-limit parallel requests
+    for (const url of collectImageUrls(body)) {
+      try {
+        const image = await this.fetchImage(url);
+        const path = `assets/image-${assets.length + 1}.${getImageExtension(url, image.type)}`;
+        zip.file(path, image);
+        firstImage = firstImage || image;
+        paths.set(url, path);
+        assets.push({ path, sourceUrl: url, bytes: image.size, ...describeImageSource(url) });
+      } catch (error) {
+        hotlinked.push({ sourceUrl: url, reason: error instanceof Error ? error.message : String(error), ...describeImageSource(url) });
+      }
+    }
+
+    // Social cards use the first image on the page, normally the hero
+    let ogImage: string | undefined;
+    if (firstImage) {
+      ogImage = `assets/og-image.${assets[0].path.split('.').pop()}`;
+      zip.file(ogImage, firstImage);
+    }
+
+    const localBody = rewriteAssetUrls(body, paths);
+    zip.file(STYLESHEET_PATH, HTMLExporter.buildStylesheet(localBody));
+    zip.file(FAVICON_PATH, buildFaviconSvg(name));
+    zip.file('index.html', HTMLExporter.buildDocument(page, {
+      body: localBody,
+      stylesheetHref: STYLESHEET_PATH,
+      faviconHref: FAVICON_PATH,
+      ogImage
+    }));
+
+    const manifest: BundleManifest = {
+      generator: 'landingenie',
+      exportedAt: new Date().toISOString(),
+      page: {
+        title: page.generatedCopy.headline || '',
+        language: getCopyLanguage(page.language).code,
+        pageType: page.pageType,
+        framework: page.framework
+      },
+      files: ['index.html', STYLESHEET_PATH, FAVICON_PATH, ...(ogImage ? [ogImage] : []), ...assets.map(asset => asset.path), 'manifest.json'],
+      assets,
+      hotlinked
+    };
+    zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+
+    return { blob: await zip.generateAsync({ type: 'blob' }), manifest };
+  }
+
+  static async download(page: LandingPageTemplateProps, name: string): Promise<BundleManifest> {
+    const { blob, manifest } = await this.buildBundle(page, name);
+    downloadBlob(blob, `${slugify(name)}.zip`);
+    return manifest;
+  }
+}
@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ContentAnalyzer } from './ContentAnalyzer';
+import { LLMService } from './LLMService';
+import recordedScrapes from '@/fixtures/scrapes.json';
+import recordedCompletions from '@/fixtures/completions.json';
+
+const recordedAnalysis = recordedCompletions[0].completion as Record<string, Record<string, unknown>>;
+
+describe('ContentAnalyzer.fallbackAnalysis', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('extracts product details from a recorded sales page', () => {
+    const [page] = recordedScrapes;
+    const data = ContentAnalyzer.fallbackAnalysis(page.markdown, page.metadata);
+
+    expect(data.productInfo.name).toBe('ZenSleep Pro');
+    expect(data.dreamOutcome.targetAudience).toContain('busy professionals');
+    expect(data.perceivedLikelihood.testimonials).toHaveLength(2);
+    expect(data.perceivedLikelihood.socialProofNumbers).toContain('12,000+ customers');
+    expect(data.perceivedLikelihood.guarantees.length).toBeGreaterThan(0);
+    expect(data.timeDelay.deliveryTimeframe).toBe('within 24 hours');
+    expect(data.extractionQuality.missingFields).toEqual([]);
+    expect(data.extractionQuality.confidenceLevel).toBe('high');
+  });
+
+  it('flags missing proof and lowers confidence for empty content', () => {
+    const data = ContentAnalyzer.fallbackAnalysis('', { title: 'Unknown' });
+
+    expect(data.perceivedLikelihood.testimonials).toEqual([]);
+    expect(data.extractionQuality.missingFields).toEqual(['testimonials', 'socialProof', 'guarantees']);
+    expect(data.extractionQuality.completenessScore).toBeLessThan(0.7);
+    expect(data.extractionQuality.confidenceLevel).toBe('medium');
+  });
+
+  it('always returns valid category and price point values', () => {
+    const data = ContentAnalyzer.fallbackAnalysis('Just some text', { title: 'Widget' });
+
+    expect(['software', 'physical', 'service', 'info', 'health']).toContain(data.productInfo.category);
+    expect(['low', 'medium', 'high', 'premium']).toContain(data.productInfo.pricePoint);
+    expect(data.extractionQuality.completenessScore).toBeLessThanOrEqual(1);
+  });
+});
+
+describe('ContentAnalyzer.analyzeContent', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  it('uses the recorded completion in mock mode', async () => {
+    vi.stubEnv('VITE_MOCK_PROVIDERS', 'true');
+    const [page] = recordedScrapes;
+
+    const data = await ContentAnalyzer.analyzeContent(page);
+
+    expect(data.dreamOutcome.mainBenefit).toBe('Fall asleep in 20 minutes and wake up refreshed');
+    expect(data.effortSacrifice.difficultyLevel).toBe(2);
+    expect(data.extractionQuality.confidenceLevel).toBe('high');
+  });
+
+  it('sends validation errors back to the model and accepts the repaired JSON', async () => {
+    const invalid = { ...recordedAnalysis, productInfo: { ...recordedAnalysis.productInfo, category: 'supplement' } };
+    const chat = vi.spyOn(LLMService, 'chat')
+      .mockResolvedValueOnce(JSON.stringify(invalid))
+      .mockResolvedValueOnce(JSON.stringify(recordedAnalysis));
+
+    const data = await ContentAnalyzer.analyzeContent(recordedScrapes[0]);
+
+    expect(chat).toHaveBeenCalledTimes(2);
+    expect(chat.mock.calls[0][2]).toEqual({ jsonMode: true });
+    const repairRequest = chat.mock.calls[1][1];
+    expect(repairRequest).toHaveLength(4);
+    expect(repairRequest[2]).toEqual({ role: 'assistant', content: JSON.stringify(invalid) });
+    expect(repairRequest[3].content).toContain('productInfo.category');
+    expect(data.productInfo.category).toBe('health');
+  });
+
+  it('falls back to heuristics when repairs keep failing', async () => {
+    const chat = vi.spyOn(LLMService, 'chat').mockResolvedValue('Sorry, I cannot help with that.');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const data = await ContentAnalyzer.analyzeContent(recordedScrapes[0]);
+
+    expect(chat).toHaveBeenCalledTimes(3);
+    expect(chat.mock.calls[1][1][3].content).toContain('not valid JSON');
+    expect(data.productInfo.name).toBe('ZenSleep Pro');
+    expect(data.dreamOutcome.emotionalOutcome).toBe('improved confidence and well-being');
+  });
+});
@@ -1,3 +1,10 @@
+import { LLMService } from './LLMService';
+import type { LLMMessage } from './LLMProvider';
+import { PromptTemplateStore } from './PromptTemplateStore';
+import { parseProductData } from '@/lib/product-data-schema';
+import { PROMPT_TEMPLATE_IDS } from '@/lib/prompt-template-defaults';
+import { renderPromptTemplate } from '@/lib/prompt-templates';
+
 export interface ProductData {
   // Core Value Equation Components (Alex Hormozi Framework)
   dreamOutcome: {
@@ -38,6 +45,9 @@ export interface ProductData {
 }
 
 export class ContentAnalyzer {
+  // Follow-up requests that quote validation errors back to the model
+  private static MAX_REPAIR_ATTEMPTS = 2;
+
   static async analyzeContent(scrapedData: any): Promise<ProductData> {
     console.log('ContentAnalyzer received data:', {
       type: typeof scrapedData,
@@ -57,101 +67,63 @@ export class ContentAnalyzer {
 
     const { markdown = '', metadata = {} } = scrapedData;
     
-    const analysisPrompt = `
-      EXTRACT LANDING PAGE DATA from this content for Alex Hormozi's Value Equation:
-      
-      Content: ${JSON.stringify({ markdown: markdown.substring(0, 8000), metadata })}
-      
-      RETURN STRUCTURED JSON WITH EXACTLY THIS FORMAT:
-      {
-        "dreamOutcome": {
-          "mainBenefit": "primary transformation or outcome",
-          "secondaryBenefits": ["benefit1", "benefit2", "benefit3"],
-          "targetAudience": "specific audience description",
-          "emotionalOutcome": "emotional transformation"
-        },
-        "perceivedLikelihood": {
-          "testimonials": ["testimonial1", "testimonial2"],
-          "socialProofNumbers": ["metric1", "metric2"],
-          "guarantees": ["guarantee1", "guarantee2"]
-        },
-        "timeDelay": {
-          "deliveryTimeframe": "how quickly they get access",
-          "resultsTimeframe": "how quickly they see results"
-        },
-        "effortSacrifice": {
-          "difficultyLevel": 5,
-          "prerequisites": ["requirement1", "requirement2"],
-          "easeOfUse": "description of ease"
-        },
-        "productInfo": {
-          "name": "product name",
-          "category": "software|physical|service|info|health",
-          "industry": "industry name",
-          "pricePoint": "low|medium|high|premium"
-        },
-        "extractionQuality": {
-          "completenessScore": 0.8,
-          "confidenceLevel": "high|medium|low",
-          "missingFields": ["field1", "field2"]
-        }
-      }
-      
-      Mark missing data as "MISSING" - do not fabricate information.
-      Provide confidence scores based on data availability.
-      Ensure all fields are present in the response.
-    `;
+    const analysisPrompt = renderPromptTemplate(this.getTemplateBody(PROMPT_TEMPLATE_IDS.analysisUser), {
+      content: JSON.stringify({ markdown: markdown.substring(0, 8000), metadata })
+    });
 
     try {
-      // Try OpenRouter first if available, then Perplexity as fallback
-      let structuredData;
-      
-      try {
-        const { OpenRouterService } = await import('./OpenRouterService');
-        const apiKey = OpenRouterService.getApiKey();
-        console.log('Checking OpenRouter API key availability:', !!apiKey);
-        
-        if (apiKey) {
-          console.log('Using OpenRouter for content analysis');
-          // Use a more capable model for better extraction
-          structuredData = await OpenRouterService.analyzeContent(analysisPrompt, 'anthropic/claude-3.5-sonnet');
-          console.log('OpenRouter analysis completed successfully');
-        } else {
-          console.log('OpenRouter API key not found');
-          throw new Error('OpenRouter API key not available');
-        }
-      } catch (openRouterError) {
-        console.log('OpenRouter failed, trying Perplexity:', openRouterError);
-        try {
-          const { PerplexityService } = await import('./PerplexityService');
-          const apiKey = PerplexityService.getApiKey();
-          console.log('Checking Perplexity API key availability:', !!apiKey);
-          
-          if (apiKey) {
-            console.log('Using Perplexity for content analysis');
-            structuredData = await PerplexityService.analyzeContent(analysisPrompt);
-            console.log('Perplexity analysis completed successfully');
-          } else {
-            console.log('Perplexity API key not found');
-            throw new Error('No AI service available');
-          }
-        } catch (perplexityError) {
-          console.log('Both AI services failed, using enhanced fallback');
-          throw new Error('All AI services failed');
-        }
+      const structuredData = await this.requestValidatedData(analysisPrompt);
+      if (structuredData) {
+        console.log('AI analysis successful, completeness score:', structuredData.extractionQuality.completenessScore);
+        return structuredData;
       }
-      
-      // Validate and ensure all required fields
-      const validatedData = this.validateAndCleanData(structuredData);
-      console.log('AI analysis successful, completeness score:', validatedData.extractionQuality.completenessScore);
-      return validatedData;
+      console.warn('AI output still invalid after repair attempts, falling back to enhanced extraction');
     } catch (error) {
       console.error('AI analysis failed, falling back to enhanced extraction:', error);
-      return this.fallbackAnalysis(markdown, metadata);
     }
+    return this.fallbackAnalysis(markdown, metadata);
+  }
+
+  /**
+   * Asks for ProductData in JSON mode and checks it against the schema. Invalid
+   * output is sent back with the validation errors so the model can correct
+   * it; returns null if it is still invalid after the last repair attempt.
+   */
+  private static async requestValidatedData(analysisPrompt: string): Promise<ProductData | null> {
+    const messages: LLMMessage[] = [
+      {
+        role: 'system',
+        content: this.getTemplateBody(PROMPT_TEMPLATE_IDS.analysisSystem)
+      },
+      { role: 'user', content: analysisPrompt }
+    ];
+
+    for (let attempt = 0; attempt <= this.MAX_REPAIR_ATTEMPTS; attempt++) {
+      // Providers are tried in the configured priority order
+      const content = await LLMService.chat('analysis', messages, { jsonMode: true });
+      const result = parseProductData(content);
+      if (result.data) {
+        return result.data;
+      }
+
+      console.log(`AI analysis failed validation (attempt ${attempt + 1}):`, result.errors);
+      messages.push(
+        { role: 'assistant', content },
+        {
+          role: 'user',
+          content: `Your JSON did not match the required format:\n${result.errors.map(error => `- ${error}`).join('\n')}\n\nReturn the complete corrected JSON object only, with every field present.`
+        }
+      );
+    }
+
+    return null;
+  }
+
+  private static getTemplateBody(id: string): string {
+    return PromptTemplateStore.getTemplate(id)?.body || '';
   }
 
-  private static validateAndCleanData(data: any): ProductData {
+  static validateAndCleanData(data: any): ProductData {
     // Ensure all required fields exist with defaults
     return {
       dreamOutcome: {
@@ -188,7 +160,7 @@ export class ContentAnalyzer {
     };
   }
 
-  private static fallbackAnalysis(markdown: string, metadata: any): ProductData {
+  static fallbackAnalysis(markdown: string, metadata: any): ProductData {
     console.log('Running enhanced fallback analysis on content length:', markdown.length);
     
     const productName = this.extractProductName(markdown, metadata.title);
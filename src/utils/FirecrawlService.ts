@@ -1269,11 +1269,11 @@ export class FirecrawlService {
 
   static generateMissingDataSuggestions(data: ExtractedMarketingData, category: string): {
     headlines: string[];
-    testimonials: string[];
     benefits: string[];
     ctas: string[];
     guarantees: string[];
   } {
+    // No testimonial suggestions: copy may only quote customers the source page actually quotes
     const suggestions = {
       health: {
         headlines: [
@@ -1283,13 +1283,6 @@ export class FirecrawlService {
           'Natural Health Revolution',
           'Reclaim Your Vitality Today'
         ],
-        testimonials: [
-          '"This changed my life completely!"',
-          '"I feel 20 years younger!"',
-          '"Results in just 2 weeks!"',
-          '"My doctor was amazed!"',
-          '"Best investment I ever made!"'
-        ],
         benefits: [
           'Boost energy levels naturally',
           'Improve overall health',
@@ -1319,13 +1312,6 @@ export class FirecrawlService {
           'Scale Your Business Fast',
           'Proven Profit Strategies'
         ],
-        testimonials: [
-          '"Increased sales by 300%!"',
-          '"Best business decision ever!"',
-          '"ROI in first month!"',
-          '"Game-changing strategies!"',
-          '"Transformed my business!"'
-        ],
         benefits: [
           'Increase revenue quickly',
           'Streamline operations',
@@ -1355,13 +1341,6 @@ export class FirecrawlService {
           'Revolutionary Breakthrough',
           'Change Your Life Forever'
         ],
-        testimonials: [
-          '"Absolutely life-changing!"',
-          '"Results beyond expectations!"',
-          '"Highly recommended!"',
-          '"Worth every penny!"',
-          '"Amazing transformation!"'
-        ],
         benefits: [
           'Proven results',
           'Easy to use',
@@ -1389,7 +1368,6 @@ export class FirecrawlService {
     
     return {
       headlines: data.headlines.length === 0 ? categoryData.headlines : [],
-      testimonials: data.testimonials.length === 0 ? categoryData.testimonials : [],
       benefits: data.benefits.length < 3 ? categoryData.benefits : [],
       ctas: data.ctas.length === 0 ? categoryData.ctas : [],
       guarantees: data.guarantees.length === 0 ? categoryData.guarantees : []
@@ -0,0 +1,80 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { LandingPageTemplate, type LandingPageTemplateProps } from '@/components/LandingPageTemplate';
+import { getCopyLanguage } from '@/lib/copy-languages';
+import { purgeCss } from '@/lib/css-purge';
+import { downloadBlob, slugify } from '@/lib/download';
+// The app's compiled Tailwind build, which covers every class the templates use
+import appStylesheet from '@/index.css?inline';
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export interface HTMLDocumentOptions {
+  // Markup from renderBody, when the caller has already rewritten it
+  body?: string;
+  // Link this stylesheet instead of inlining the CSS
+  stylesheetHref?: string;
+  faviconHref?: string;
+  // Social card image; relative paths only resolve once the page is deployed
+  ogImage?: string;
+}
+
+/**
+ * Turns a landing page into a single standalone HTML file: the template
+ * rendered to static markup with only the CSS it uses inlined, so the page
+ * needs no React, no Tailwind CDN and no build step to deploy.
+ */
+export class HTMLExporter {
+  /** The page body as static markup, wrapped the way the live preview wraps it. */
+  static renderBody(page: LandingPageTemplateProps): string {
+    return renderToStaticMarkup(
+      createElement('div', { className: 'min-h-screen bg-white' }, createElement(LandingPageTemplate, page))
+    );
+  }
+
+  /** Only the app CSS the markup uses. */
+  static buildStylesheet(body: string): string {
+    return purgeCss(appStylesheet, body);
+  }
+
+  static buildDocument(page: LandingPageTemplateProps, options: HTMLDocumentOptions = {}): string {
+    const body = options.body ?? this.renderBody(page);
+    const { headline, subheadline } = page.generatedCopy;
+    const head = [
+      '<meta charset="UTF-8">',
+      '<meta name="viewport" content="width=device-width, initial-scale=1.0">',
+      `<title>${escapeHtml(headline || '')}</title>`,
+      subheadline && `<meta name="description" content="${escapeHtml(subheadline)}">`,
+      `<meta property="og:title" content="${escapeHtml(headline || '')}">`,
+      subheadline && `<meta property="og:description" content="${escapeHtml(subheadline)}">`,
+      options.ogImage && `<meta property="og:image" content="${escapeHtml(options.ogImage)}">`,
+      options.faviconHref && `<link rel="icon" href="${escapeHtml(options.faviconHref)}">`,
+      options.stylesheetHref
+        ? `<link rel="stylesheet" href="${escapeHtml(options.stylesheetHref)}">`
+        : `<style>\n${this.buildStylesheet(body)}\n</style>`
+    ].filter(Boolean);
+
+    return `<!DOCTYPE html>
+<html lang="${getCopyLanguage(page.language).code}">
+<head>
+${head.join('\n')}
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+  }
+
+  /** Markup and its CSS without the document around it, for a funnel builder's custom HTML element. */
+  static buildEmbed(page: LandingPageTemplateProps): string {
+    const body = this.renderBody(page);
+    return `<style>\n${this.buildStylesheet(body)}\n</style>\n${body}\n`;
+  }
+
+  static download(page: LandingPageTemplateProps, name: string): void {
+    const blob = new Blob([this.buildDocument(page)], { type: 'text/html;charset=utf-8' });
+    downloadBlob(blob, `${slugify(name)}.html`);
+  }
+}
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { IntelligentScraper } from './IntelligentScraper';
+import { FirecrawlService } from './FirecrawlService';
+import { ApifyService } from './ApifyService';
+import recordedScrapes from '@/fixtures/scrapes.json';
+
+const [page] = recordedScrapes;
+
+describe('IntelligentScraper.scrapeURL', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  it('uses Firecrawl for standard pages and unwraps its raw page data', async () => {
+    // IntelligentScraper only reads the raw page, not Firecrawl's own analysis
+    const firecrawl = vi.spyOn(FirecrawlService, 'scrapeWebsite').mockResolvedValue({
+      success: true,
+      data: { raw: page }
+    } as unknown as Awaited<ReturnType<typeof FirecrawlService.scrapeWebsite>>);
+    const apify = vi.spyOn(ApifyService, 'scrapeWebsite');
+
+    const result = await IntelligentScraper.scrapeURL(page.url);
+
+    expect(firecrawl).toHaveBeenCalledWith(page.url);
+    expect(apify).not.toHaveBeenCalled();
+    expect(result.success).toBe(true);
+    expect(result.method).toBe('firecrawl');
+    expect(result.data.markdown).toBe(page.markdown);
+    expect(result.qualityScore).toBe(1);
+  });
+
+  it('routes affiliate links to Apify', async () => {
+    const apify = vi.spyOn(ApifyService, 'scrapeWebsite').mockResolvedValue({
+      success: true,
+      data: { productName: 'ZenSleep Pro', headlines: ['Sleep better'], testimonials: ['Great'] }
+    });
+
+    const result = await IntelligentScraper.scrapeURL('https://vendor.hop.clickbank.net/?hop=affiliate');
+
+    expect(apify).toHaveBeenCalled();
+    expect(result.method).toBe('apify');
+    expect(result.qualityScore).toBeCloseTo(0.4);
+  });
+
+  it('falls back to Apify when Firecrawl fails', async () => {
+    vi.spyOn(FirecrawlService, 'scrapeWebsite').mockResolvedValue({ success: false, error: 'Timed out' });
+    vi.spyOn(ApifyService, 'scrapeWebsite').mockResolvedValue({ success: true, data: { headlines: ['Sleep better'] } });
+
+    const result = await IntelligentScraper.scrapeURL(page.url);
+
+    expect(result.success).toBe(true);
+    expect(result.method).toBe('apify-fallback');
+  });
+
+  it('reports the primary error when every service fails', async () => {
+    vi.spyOn(FirecrawlService, 'scrapeWebsite').mockResolvedValue({ success: false, error: 'Timed out' });
+    vi.spyOn(ApifyService, 'scrapeWebsite').mockResolvedValue({ success: false, error: 'No token' });
+
+    const result = await IntelligentScraper.scrapeURL(page.url, 'firecrawl');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Timed out');
+    expect(result.qualityScore).toBeUndefined();
+  });
+
+  it('returns a failed result instead of throwing', async () => {
+    vi.spyOn(FirecrawlService, 'scrapeWebsite').mockRejectedValue(new Error('Network down'));
+
+    const result = await IntelligentScraper.scrapeURL(page.url);
+
+    expect(result).toMatchObject({ success: false, error: 'Network down', method: 'failed' });
+  });
+
+  it('replays recorded scrapes in mock mode', async () => {
+    vi.stubEnv('VITE_MOCK_PROVIDERS', 'true');
+    const firecrawl = vi.spyOn(FirecrawlService, 'scrapeWebsite');
+
+    const result = await IntelligentScraper.scrapeURL('https://anything.example.org/offer');
+
+    expect(firecrawl).not.toHaveBeenCalled();
+    expect(result.success).toBe(true);
+    expect(result.data.markdown).toBe(page.markdown);
+    expect(result.data.metadata.sourceURL).toBe('https://anything.example.org/offer');
+  });
+});
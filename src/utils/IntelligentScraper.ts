@@ -1,8 +1,18 @@
 
 import { FirecrawlService } from './FirecrawlService';
 import { ApifyService } from './ApifyService';
+import { MockScraper } from './MockScraper';
+import { isMockMode } from '@/lib/dev-flags';
 
-interface ScrapingResult {
+interface ScraperBackend {
+  scrapeWebsite(url: string): Promise<{ success: boolean; data?: unknown; error?: string }>;
+}
+
+// FirecrawlService wraps the page under `raw` next to its own analysis
+const unwrapFirecrawlData = (data: unknown) =>
+  (data as { raw?: unknown } | undefined)?.raw || data;
+
+export interface ScrapingResult {
   success: boolean;
   data?: any;
   error?: string;
@@ -21,6 +31,13 @@ interface URLAnalysis {
 }
 
 export class IntelligentScraper {
+  // Mock mode swaps both services for recorded Firecrawl output
+  private static getBackends(): Record<'firecrawl' | 'apify', ScraperBackend> {
+    return isMockMode()
+      ? { firecrawl: MockScraper, apify: MockScraper }
+      : { firecrawl: FirecrawlService, apify: ApifyService };
+  }
+
   static analyzeURL(url: string): URLAnalysis {
     const domain = new URL(url).hostname;
     
@@ -74,16 +91,17 @@ export class IntelligentScraper {
     }
 
     console.log(`Using ${service} for ${url} (${analysis.reasoning})`);
+    const backends = this.getBackends();
 
     try {
       let result: ScrapingResult;
 
       // Try primary service
       if (service === 'firecrawl') {
-        const firecrawlResult = await FirecrawlService.scrapeWebsite(url);
+        const firecrawlResult = await backends.firecrawl.scrapeWebsite(url);
         result = {
           success: firecrawlResult.success,
-          data: firecrawlResult.data?.raw || firecrawlResult.data,
+          data: unwrapFirecrawlData(firecrawlResult.data),
           error: firecrawlResult.error,
           method: 'firecrawl',
           cost: 0.01
@@ -95,7 +113,7 @@ export class IntelligentScraper {
           dataKeys: result.data ? Object.keys(result.data) : 'none'
         });
       } else {
-        const apifyResult = await ApifyService.scrapeWebsite(url);
+        const apifyResult = await backends.apify.scrapeWebsite(url);
         result = {
           success: apifyResult.success,
           data: apifyResult.data,
@@ -110,7 +128,7 @@ export class IntelligentScraper {
         console.log(`${service} failed, trying fallback...`);
         
         if (service === 'firecrawl') {
-          const apifyResult = await ApifyService.scrapeWebsite(url);
+          const apifyResult = await backends.apify.scrapeWebsite(url);
           if (apifyResult.success) {
             result = {
               success: true,
@@ -120,7 +138,7 @@ export class IntelligentScraper {
             };
           }
         } else {
-          const firecrawlResult = await FirecrawlService.scrapeWebsite(url);
+          const firecrawlResult = await backends.firecrawl.scrapeWebsite(url);
           console.log('Firecrawl fallback result:', { 
             success: firecrawlResult.success, 
             hasData: !!firecrawlResult.data,
@@ -129,7 +147,7 @@ export class IntelligentScraper {
           if (firecrawlResult.success) {
             result = {
               success: true,
-              data: firecrawlResult.data?.raw || firecrawlResult.data,
+              data: unwrapFirecrawlData(firecrawlResult.data),
               method: 'firecrawl-fallback',
               cost: 0.01
             };
@@ -0,0 +1,229 @@
+export type LLMProviderId = 'openrouter' | 'perplexity' | 'local';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequestOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  // Ask for a JSON object response where the provider supports it
+  jsonMode?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface LLMModel {
+  id: string;
+  name: string;
+  description: string;
+}
+
+/**
+ * Common surface for every chat model backend. ContentAnalyzer and
+ * CopyGeneration never talk to a provider directly; they go through
+ * LLMService, which picks providers by priority and falls back on errors.
+ */
+export interface LLMProvider {
+  id: string;
+  name: string;
+  defaultModel: string;
+  saveApiKey(apiKey: string): void;
+  getApiKey(): string | null;
+  isConfigured(): boolean;
+  testApiKey(apiKey: string): Promise<boolean>;
+  chat(messages: LLMMessage[], options?: LLMRequestOptions): Promise<string>;
+  chatJSON<T = unknown>(messages: LLMMessage[], options?: LLMRequestOptions): Promise<T>;
+  streamChat(messages: LLMMessage[], options?: LLMRequestOptions): AsyncGenerator<string>;
+  listModels(): Promise<LLMModel[]>;
+}
+
+interface ChatCompletionResponse {
+  choices: Array<{
+    message: {
+      content: string;
+    };
+  }>;
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string;
+    };
+  }>;
+}
+
+// Models often wrap JSON in markdown fences or add a sentence before it
+export const extractJSON = <T = unknown>(content: string): T => {
+  const trimmed = content.trim();
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/);
+    const candidate = fenced ? fenced[1] : trimmed.slice(
+      Math.min(...['{', '['].map(char => trimmed.indexOf(char)).filter(index => index >= 0)),
+      Math.max(trimmed.lastIndexOf('}'), trimmed.lastIndexOf(']')) + 1
+    );
+    return JSON.parse(candidate);
+  }
+};
+
+/**
+ * Shared implementation for providers that speak the OpenAI chat completions
+ * protocol. Adapters only describe their endpoint, headers and model list.
+ */
+export abstract class OpenAICompatibleProvider implements LLMProvider {
+  abstract id: LLMProviderId;
+  abstract name: string;
+  abstract defaultModel: string;
+  protected abstract apiKeyStorageKey: string;
+  protected abstract baseUrl: string;
+
+  protected temperature = 0.2;
+  protected maxTokens = 2000;
+  protected requiresApiKey = true;
+  // Whether the endpoint accepts `response_format: { type: 'json_object' }`
+  protected supportsJsonMode = true;
+
+  // An empty key removes the stored one, so clearing the field stops requests to the provider
+  saveApiKey(apiKey: string): void {
+    if (apiKey) localStorage.setItem(this.apiKeyStorageKey, apiKey);
+    else localStorage.removeItem(this.apiKeyStorageKey);
+  }
+
+  getApiKey(): string | null {
+    return localStorage.getItem(this.apiKeyStorageKey);
+  }
+
+  isConfigured(): boolean {
+    return !!this.getApiKey();
+  }
+
+  protected getHeaders(apiKey: string): Record<string, string> {
+    return {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+    };
+  }
+
+  // Provider-specific request fields (sampling penalties, search toggles, ...)
+  protected getExtraBody(): Record<string, unknown> {
+    return {};
+  }
+
+  protected abstract getStaticModels(): LLMModel[];
+
+  async listModels(): Promise<LLMModel[]> {
+    return this.getStaticModels();
+  }
+
+  async testApiKey(apiKey: string): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: this.getHeaders(apiKey),
+        body: JSON.stringify({
+          model: this.defaultModel,
+          messages: [{ role: 'user', content: 'Test message' }],
+          max_tokens: 10,
+          temperature: this.temperature
+        }),
+      });
+
+      return response.ok;
+    } catch (error) {
+      console.error(`Error testing ${this.name} API key:`, error);
+      return false;
+    }
+  }
+
+  private async request(messages: LLMMessage[], options: LLMRequestOptions, stream: boolean): Promise<Response> {
+    const apiKey = this.getApiKey();
+    if (!apiKey && this.requiresApiKey) {
+      throw new Error(`${this.name} API key not found`);
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.getHeaders(apiKey || ''),
+      signal: options.signal,
+      body: JSON.stringify({
+        ...this.getExtraBody(),
+        model: options.model || this.defaultModel,
+        messages,
+        temperature: options.temperature ?? this.temperature,
+        max_tokens: options.maxTokens ?? this.maxTokens,
+        ...(options.jsonMode && this.supportsJsonMode && { response_format: { type: 'json_object' } }),
+        stream
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`${this.name} API error: ${response.statusText || response.status}`);
+    }
+
+    return response;
+  }
+
+  async chat(messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<string> {
+    const response = await this.request(messages, options, false);
+    const data: ChatCompletionResponse = await response.json();
+
+    if (!data.choices || data.choices.length === 0) {
+      throw new Error(`No response from ${this.name} API`);
+    }
+
+    return data.choices[0].message.content;
+  }
+
+  async chatJSON<T = unknown>(messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<T> {
+    const content = await this.chat(messages, { ...options, jsonMode: true });
+    try {
+      return extractJSON<T>(content);
+    } catch {
+      throw new Error(`${this.name} returned invalid JSON`);
+    }
+  }
+
+  async *streamChat(messages: LLMMessage[], options: LLMRequestOptions = {}): AsyncGenerator<string> {
+    const response = await this.request(messages, options, true);
+    if (!response.body) {
+      throw new Error(`${this.name} did not return a stream`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          const payload = line.trim();
+          if (!payload.startsWith('data:')) continue;
+
+          const data = payload.slice(5).trim();
+          if (data === '[DONE]') return;
+
+          try {
+            const chunk: ChatCompletionChunk = JSON.parse(data);
+            const token = chunk.choices?.[0]?.delta?.content;
+            if (token) yield token;
+          } catch {
+            // Keep-alive comments and partial frames are safe to skip
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+}
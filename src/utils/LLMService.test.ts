@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LLMService } from './LLMService';
+
+const messages = [{ role: 'user' as const, content: 'Analyze this page' }];
+
+describe('LLMService fallback', () => {
+  beforeEach(() => {
+    const storage = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+      removeItem: (key: string) => storage.delete(key)
+    });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    LLMService.getProvider('local').saveBaseUrl('http://localhost:11434/v1');
+    LLMService.getProvider('openrouter').saveApiKey('sk-test');
+    LLMService.saveProviderOrder(['local', 'openrouter', 'perplexity']);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('falls back to a cloud provider when the local model fails', async () => {
+    vi.spyOn(LLMService.getProvider('local'), 'chat').mockRejectedValue(new Error('connection refused'));
+    const cloud = vi.spyOn(LLMService.getProvider('openrouter'), 'chat').mockResolvedValue('from the cloud');
+
+    await expect(LLMService.chat('analysis', messages)).resolves.toBe('from the cloud');
+    expect(cloud).toHaveBeenCalledTimes(1);
+  });
+
+  it('never calls a cloud provider in local-only mode', async () => {
+    LLMService.saveLocalOnly(true);
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('connection refused')));
+    const cloud = vi.spyOn(LLMService.getProvider('openrouter'), 'chat');
+    const cloudStream = vi.spyOn(LLMService.getProvider('openrouter'), 'streamChat');
+
+    await expect(LLMService.chat('analysis', messages)).rejects.toThrow('Local Model: connection refused');
+    await expect(LLMService.streamChat('copy', messages).next()).rejects.toThrow('connection refused');
+    expect(cloud).not.toHaveBeenCalled();
+    expect(cloudStream).not.toHaveBeenCalled();
+    expect(LLMService.getConfiguredProviders().map(provider => provider.id)).toEqual(['local']);
+  });
+
+  it('forgets a cloud key when its field is cleared', () => {
+    LLMService.getProvider('openrouter').saveApiKey('');
+    expect(LLMService.getProvider('openrouter').isConfigured()).toBe(false);
+    expect(localStorage.getItem('openrouter_api_key')).toBeNull();
+  });
+});
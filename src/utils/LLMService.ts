@@ -0,0 +1,188 @@
+import type { LLMMessage, LLMProvider, LLMProviderId, LLMRequestOptions } from './LLMProvider';
+import { OpenRouterProvider } from './OpenRouterProvider';
+import { PerplexityProvider } from './PerplexityProvider';
+import { LocalLLMProvider } from './LocalLLMProvider';
+import { MockLLMProvider } from './MockLLMProvider';
+import { isMockMode } from '@/lib/dev-flags';
+
+export type LLMTask = 'analysis' | 'copy';
+
+export const LLM_TASK_LABELS: Record<LLMTask, string> = {
+  analysis: 'Content Analysis',
+  copy: 'Copywriting'
+};
+
+type TaskModels = Partial<Record<LLMTask, Partial<Record<LLMProviderId, string>>>>;
+
+// Models each task used before they were configurable
+const DEFAULT_TASK_MODELS: TaskModels = {
+  analysis: { openrouter: 'anthropic/claude-3.5-sonnet' },
+  copy: { openrouter: 'anthropic/claude-3.5-sonnet' }
+};
+
+export const DEFAULT_COPY_CONCURRENCY = 3;
+export const MAX_COPY_CONCURRENCY = 9;
+
+const PROVIDERS = {
+  openrouter: new OpenRouterProvider(),
+  perplexity: new PerplexityProvider(),
+  local: new LocalLLMProvider()
+} satisfies Record<LLMProviderId, LLMProvider>;
+
+const mockProvider = new MockLLMProvider();
+
+interface ProviderCandidate {
+  provider: LLMProvider;
+  model: string;
+}
+
+export class LLMService {
+  private static PROVIDER_ORDER_STORAGE_KEY = 'llm_provider_order';
+  private static TASK_MODELS_STORAGE_KEY = 'llm_task_models';
+  private static COPY_CONCURRENCY_STORAGE_KEY = 'llm_copy_concurrency';
+  private static LOCAL_ONLY_STORAGE_KEY = 'llm_local_only';
+
+  private static readJSON<T>(key: string, fallback: T): T {
+    try {
+      const stored = localStorage.getItem(key);
+      return stored ? JSON.parse(stored) : fallback;
+    } catch {
+      return fallback;
+    }
+  }
+
+  static getProvider<T extends LLMProviderId>(id: T): (typeof PROVIDERS)[T] {
+    return PROVIDERS[id];
+  }
+
+  static getProviders(): LLMProvider[] {
+    return this.getProviderOrder().map(id => PROVIDERS[id]);
+  }
+
+  /** Fallback order; providers added after the order was saved go last. */
+  static getProviderOrder(): LLMProviderId[] {
+    const known = Object.keys(PROVIDERS) as LLMProviderId[];
+    const saved = this.readJSON<LLMProviderId[]>(this.PROVIDER_ORDER_STORAGE_KEY, [])
+      .filter(id => known.includes(id));
+    return [...saved, ...known.filter(id => !saved.includes(id))];
+  }
+
+  static saveProviderOrder(order: LLMProviderId[]): void {
+    localStorage.setItem(this.PROVIDER_ORDER_STORAGE_KEY, JSON.stringify(order));
+  }
+
+  /** Whether page content may only go to the local model, with no cloud fallback. */
+  static isLocalOnly(): boolean {
+    return this.readJSON<boolean>(this.LOCAL_ONLY_STORAGE_KEY, false) === true;
+  }
+
+  static saveLocalOnly(localOnly: boolean): void {
+    localStorage.setItem(this.LOCAL_ONLY_STORAGE_KEY, JSON.stringify(localOnly));
+  }
+
+  // Providers requests may go to: every one in fallback order, or only the local model
+  private static getAllowedProviderIds(): LLMProviderId[] {
+    return this.isLocalOnly() ? ['local'] : this.getProviderOrder();
+  }
+
+  static getConfiguredProviders(): LLMProvider[] {
+    if (isMockMode()) return [mockProvider];
+    return this.getAllowedProviderIds().map(id => PROVIDERS[id]).filter(provider => provider.isConfigured());
+  }
+
+  static hasConfiguredProvider(): boolean {
+    return this.getConfiguredProviders().length > 0;
+  }
+
+  // Configured providers in priority order, each with the model chosen for the task
+  private static getCandidates(task: LLMTask): ProviderCandidate[] {
+    if (isMockMode()) {
+      return [{ provider: mockProvider, model: mockProvider.defaultModel }];
+    }
+
+    const candidates = this.getAllowedProviderIds()
+      .filter(id => PROVIDERS[id].isConfigured())
+      .map(id => ({ provider: PROVIDERS[id] as LLMProvider, model: this.getTaskModel(task, id) }));
+
+    if (candidates.length === 0) {
+      throw new Error('No AI service available');
+    }
+    return candidates;
+  }
+
+  static getTaskModel(task: LLMTask, providerId: LLMProviderId): string {
+    const saved = this.readJSON<TaskModels>(this.TASK_MODELS_STORAGE_KEY, {});
+    return saved[task]?.[providerId] || DEFAULT_TASK_MODELS[task]?.[providerId] || PROVIDERS[providerId].defaultModel;
+  }
+
+  static saveTaskModel(task: LLMTask, providerId: LLMProviderId, model: string): void {
+    const saved = this.readJSON<TaskModels>(this.TASK_MODELS_STORAGE_KEY, {});
+    saved[task] = { ...saved[task], [providerId]: model };
+    localStorage.setItem(this.TASK_MODELS_STORAGE_KEY, JSON.stringify(saved));
+  }
+
+  /** How many copy sections may be requested at the same time. */
+  static getCopyConcurrency(): number {
+    const saved = this.readJSON<number>(this.COPY_CONCURRENCY_STORAGE_KEY, DEFAULT_COPY_CONCURRENCY);
+    return Number.isInteger(saved) && saved >= 1 ? Math.min(saved, MAX_COPY_CONCURRENCY) : DEFAULT_COPY_CONCURRENCY;
+  }
+
+  static saveCopyConcurrency(concurrency: number): void {
+    localStorage.setItem(this.COPY_CONCURRENCY_STORAGE_KEY, JSON.stringify(concurrency));
+  }
+
+  /**
+   * Runs a request against each configured provider in priority order until
+   * one succeeds, using the model chosen for the task on that provider.
+   */
+  private static async withFallback<T>(
+    task: LLMTask,
+    run: (provider: LLMProvider, model: string) => Promise<T>
+  ): Promise<T> {
+    const errors: string[] = [];
+    for (const { provider, model } of this.getCandidates(task)) {
+      try {
+        console.log(`Using ${provider.name} (${model}) for ${task}`);
+        return await run(provider, model);
+      } catch (error) {
+        if (error instanceof DOMException && error.name === 'AbortError') throw error;
+        console.log(`${provider.name} failed for ${task}:`, error);
+        errors.push(`${provider.name}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    throw new Error(`All AI services failed (${errors.join('; ')})`);
+  }
+
+  static chat(task: LLMTask, messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<string> {
+    return this.withFallback(task, (provider, model) => provider.chat(messages, { ...options, model }));
+  }
+
+  static chatJSON<T = unknown>(task: LLMTask, messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<T> {
+    return this.withFallback(task, (provider, model) => provider.chatJSON<T>(messages, { ...options, model }));
+  }
+
+  /**
+   * Streams from the first provider that starts responding. Once tokens have
+   * been yielded a failure is rethrown, since the caller already rendered them.
+   */
+  static async *streamChat(task: LLMTask, messages: LLMMessage[], options: LLMRequestOptions = {}): AsyncGenerator<string> {
+    let lastError: unknown;
+    for (const { provider, model } of this.getCandidates(task)) {
+      let started = false;
+      try {
+        for await (const token of provider.streamChat(messages, { ...options, model })) {
+          started = true;
+          yield token;
+        }
+        return;
+      } catch (error) {
+        if (started || (error instanceof DOMException && error.name === 'AbortError')) throw error;
+        console.log(`${provider.name} stream failed for ${task}:`, error);
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  }
+}
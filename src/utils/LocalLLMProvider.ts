@@ -0,0 +1,77 @@
+import { OpenAICompatibleProvider, type LLMModel } from './LLMProvider';
+
+interface OpenAIModelsResponse {
+  data: Array<{
+    id: string;
+    owned_by?: string;
+  }>;
+}
+
+/**
+ * Any self-hosted server exposing the OpenAI chat completions API (Ollama,
+ * llama.cpp server, LM Studio, vLLM). Requests never leave the configured
+ * base URL, and the API key is optional since most local servers ignore it.
+ */
+export class LocalLLMProvider extends OpenAICompatibleProvider {
+  id = 'local' as const;
+  name = 'Local Model';
+  defaultModel = 'llama3.1';
+  protected apiKeyStorageKey = 'local_llm_api_key';
+  protected requiresApiKey = false;
+  private baseUrlStorageKey = 'local_llm_base_url';
+
+  // Local models are slower to answer long prompts, but there is no per-token cost
+  protected maxTokens = 4000;
+
+  protected get baseUrl(): string {
+    return (this.getBaseUrl() || '').replace(/\/+$/, '');
+  }
+
+  saveBaseUrl(baseUrl: string): void {
+    if (baseUrl) localStorage.setItem(this.baseUrlStorageKey, baseUrl);
+    else localStorage.removeItem(this.baseUrlStorageKey);
+  }
+
+  getBaseUrl(): string | null {
+    return localStorage.getItem(this.baseUrlStorageKey);
+  }
+
+  isConfigured(): boolean {
+    return !!this.getBaseUrl();
+  }
+
+  protected getHeaders(apiKey: string): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+    return headers;
+  }
+
+  async listModels(): Promise<LLMModel[]> {
+    if (!this.isConfigured()) return [];
+
+    try {
+      const response = await fetch(`${this.baseUrl}/models`, {
+        headers: this.getHeaders(this.getApiKey() || '')
+      });
+      if (!response.ok) {
+        throw new Error(`Local model server error: ${response.statusText}`);
+      }
+
+      const { data }: OpenAIModelsResponse = await response.json();
+      return data.map(model => ({
+        id: model.id,
+        name: model.id,
+        description: model.owned_by || ''
+      }));
+    } catch (error) {
+      console.error('Error loading local models:', error);
+      return [];
+    }
+  }
+
+  protected getStaticModels(): LLMModel[] {
+    return [];
+  }
+}
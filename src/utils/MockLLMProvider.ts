@@ -0,0 +1,71 @@
+import type { LLMMessage, LLMModel, LLMProvider, LLMRequestOptions } from './LLMProvider';
+import { extractJSON } from './LLMProvider';
+import recordedCompletions from '@/fixtures/completions.json';
+
+interface RecordedCompletion {
+  // Substring of the last user message that identifies the prompt
+  match: string;
+  // Raw completion text, or a JSON value for structured prompts
+  completion: unknown;
+}
+
+/**
+ * Replays saved completions so the pipeline runs without any LLM key.
+ * Responses are picked by the first fixture whose `match` appears in the
+ * prompt, which keeps output identical from run to run.
+ */
+export class MockLLMProvider implements LLMProvider {
+  id = 'mock';
+  name = 'Recorded Fixtures';
+  defaultModel = 'recorded';
+
+  constructor(private completions: RecordedCompletion[] = recordedCompletions) {}
+
+  saveApiKey(): void {}
+
+  getApiKey(): string | null {
+    return 'mock';
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async testApiKey(): Promise<boolean> {
+    return true;
+  }
+
+  private findCompletion(messages: LLMMessage[]): string {
+    const prompt = [...messages].reverse().find(message => message.role === 'user')?.content || '';
+    const recorded = this.completions.find(item => prompt.includes(item.match));
+    if (!recorded) {
+      throw new Error(`No recorded completion matches prompt: ${prompt.trim().slice(0, 60)}`);
+    }
+
+    return typeof recorded.completion === 'string'
+      ? recorded.completion
+      : JSON.stringify(recorded.completion);
+  }
+
+  async chat(messages: LLMMessage[]): Promise<string> {
+    return this.findCompletion(messages);
+  }
+
+  async chatJSON<T = unknown>(messages: LLMMessage[]): Promise<T> {
+    return extractJSON<T>(this.findCompletion(messages));
+  }
+
+  // Replays word by word so streaming UIs behave as they would with a live model,
+  // giving the event loop a turn between words so a Stop click can abort the stream
+  async *streamChat(messages: LLMMessage[], { signal }: LLMRequestOptions = {}): AsyncGenerator<string> {
+    for (const token of this.findCompletion(messages).split(/(?<=\s)/)) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+      if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+      yield token;
+    }
+  }
+
+  async listModels(): Promise<LLMModel[]> {
+    return [{ id: this.defaultModel, name: 'Recorded', description: 'Saved completions from src/fixtures' }];
+  }
+}
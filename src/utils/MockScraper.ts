@@ -0,0 +1,33 @@
+import recordedScrapes from '@/fixtures/scrapes.json';
+
+interface RecordedScrape {
+  url: string;
+  markdown: string;
+  html?: string;
+  metadata: {
+    title: string;
+    description: string;
+    sourceURL?: string;
+  };
+}
+
+/**
+ * Stands in for FirecrawlService and ApifyService in mock mode by replaying
+ * saved Firecrawl output. Unknown URLs get the first recording, so any URL
+ * can be used to walk through the wizard offline.
+ */
+export class MockScraper {
+  private static scrapes: RecordedScrape[] = recordedScrapes;
+
+  static async scrapeWebsite(url: string): Promise<{ success: boolean; data?: RecordedScrape; error?: string }> {
+    const recorded = this.scrapes.find(scrape => scrape.url === url) || this.scrapes[0];
+    if (!recorded) {
+      return { success: false, error: 'No recorded scrapes available' };
+    }
+
+    return {
+      success: true,
+      data: { ...recorded, metadata: { ...recorded.metadata, sourceURL: url } }
+    };
+  }
+}
@@ -1,108 +1,48 @@
-interface OpenRouterResponse {
-  choices: Array<{
-    message: {
-      content: string;
-    };
+import { OpenAICompatibleProvider, type LLMModel } from './LLMProvider';
+
+interface OpenRouterModelsResponse {
+  data: Array<{
+    id: string;
+    name: string;
+    description?: string;
   }>;
 }
 
-export class OpenRouterService {
-  private static API_KEY_STORAGE_KEY = 'openrouter_api_key';
-
-  static saveApiKey(apiKey: string): void {
-    localStorage.setItem(this.API_KEY_STORAGE_KEY, apiKey);
-  }
-
-  static getApiKey(): string | null {
-    return localStorage.getItem(this.API_KEY_STORAGE_KEY);
-  }
+export class OpenRouterProvider extends OpenAICompatibleProvider {
+  id = 'openrouter' as const;
+  name = 'OpenRouter';
+  defaultModel = 'openai/gpt-4';
+  protected apiKeyStorageKey = 'openrouter_api_key';
+  protected baseUrl = 'https://openrouter.ai/api/v1';
 
-  static async testApiKey(apiKey: string): Promise<boolean> {
-    try {
-      const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-          'HTTP-Referer': window.location.origin,
-        },
-        body: JSON.stringify({
-          model: 'openai/gpt-3.5-turbo',
-          messages: [
-            {
-              role: 'user',
-              content: 'Test message'
-            }
-          ],
-          max_tokens: 10,
-          temperature: 0.2
-        }),
-      });
-      
-      return response.ok;
-    } catch (error) {
-      console.error('Error testing OpenRouter API key:', error);
-      return false;
-    }
+  protected getHeaders(apiKey: string): Record<string, string> {
+    return {
+      ...super.getHeaders(apiKey),
+      'HTTP-Referer': window.location.origin,
+    };
   }
 
-  static async analyzeContent(prompt: string, model: string = 'openai/gpt-4'): Promise<any> {
-    const apiKey = this.getApiKey();
-    if (!apiKey) {
-      throw new Error('OpenRouter API key not found');
-    }
-
+  // OpenRouter publishes its live catalogue; the curated list covers offline use
+  async listModels(): Promise<LLMModel[]> {
     try {
-      const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-          'HTTP-Referer': window.location.origin,
-        },
-        body: JSON.stringify({
-          model,
-          messages: [
-            {
-              role: 'system',
-              content: 'You are an expert at analyzing marketing content and extracting structured data. For JSON responses, return valid JSON. For text responses, return plain text.'
-            },
-            {
-              role: 'user',
-              content: prompt
-            }
-          ],
-          temperature: 0.2,
-          max_tokens: 2000
-        }),
-      });
-
+      const response = await fetch(`${this.baseUrl}/models`);
       if (!response.ok) {
-        throw new Error(`OpenRouter API error: ${response.statusText}`);
+        throw new Error(`OpenRouter models error: ${response.statusText}`);
       }
 
-      const data: OpenRouterResponse = await response.json();
-      
-      if (!data.choices || data.choices.length === 0) {
-        throw new Error('No response from OpenRouter API');
-      }
-
-      const content = data.choices[0].message.content;
-      
-      // Try to parse as JSON first, if it fails return as string
-      try {
-        return JSON.parse(content);
-      } catch {
-        // If JSON parsing fails, return the raw content
-        return content;
-      }
+      const { data }: OpenRouterModelsResponse = await response.json();
+      return data.map(model => ({
+        id: model.id,
+        name: model.name,
+        description: model.description?.split('\n')[0].slice(0, 80) || ''
+      }));
     } catch (error) {
-      console.error('Error calling OpenRouter API:', error);
-      throw error;
+      console.error('Error loading OpenRouter models:', error);
+      return this.getStaticModels();
     }
   }
 
-  static getAvailableModels() {
+  protected getStaticModels(): LLMModel[] {
     return [
       // OpenAI Models
       { id: 'openai/gpt-3.5-turbo', name: 'GPT-3.5 Turbo', description: 'Fastest OpenAI model optimized for chat' },
@@ -0,0 +1,34 @@
+import { HTMLExporter } from './HTMLExporter';
+import type { LandingPageTemplateProps } from '@/components/LandingPageTemplate';
+import { downloadBlob, slugify } from '@/lib/download';
+import { buildElementorTemplate } from '@/lib/elementor';
+import { buildGutenbergPattern } from '@/lib/gutenberg';
+import { getPageSections } from '@/lib/page-sections';
+
+export type PageBuilderFormat = 'gutenberg' | 'elementor' | 'funnel';
+
+const downloadJson = (data: unknown, filename: string) =>
+  downloadBlob(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }), filename);
+
+/**
+ * Exports for site builders that want the page in their own format: the
+ * preview's sections rebuilt as WordPress blocks or Elementor widgets, both
+ * importable as files, or an HTML snippet for a funnel builder's custom code
+ * element.
+ */
+export class PageBuilderExporter {
+  static download(format: PageBuilderFormat, page: LandingPageTemplateProps, name: string): void {
+    const title = page.generatedCopy.headline || name;
+    switch (format) {
+      case 'gutenberg':
+        downloadJson(buildGutenbergPattern(title, getPageSections(page)), `${slugify(name)}-gutenberg.json`);
+        break;
+      case 'elementor':
+        downloadJson(buildElementorTemplate(title, getPageSections(page)), `${slugify(name)}-elementor.json`);
+        break;
+      case 'funnel':
+        downloadBlob(new Blob([HTMLExporter.buildEmbed(page)], { type: 'text/html;charset=utf-8' }), `${slugify(name)}-funnel.html`);
+        break;
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import { OpenAICompatibleProvider, type LLMModel } from './LLMProvider';
+
+export class PerplexityProvider extends OpenAICompatibleProvider {
+  id = 'perplexity' as const;
+  name = 'Perplexity';
+  defaultModel = 'llama-3.1-sonar-large-128k-online';
+  protected apiKeyStorageKey = 'perplexity_api_key';
+  protected baseUrl = 'https://api.perplexity.ai';
+  // Perplexity only accepts full JSON schemas, not the generic json_object mode
+  protected supportsJsonMode = false;
+
+  protected getExtraBody(): Record<string, unknown> {
+    return {
+      top_p: 0.9,
+      return_images: false,
+      return_related_questions: false,
+      frequency_penalty: 1,
+      presence_penalty: 0
+    };
+  }
+
+  // Perplexity has no model listing endpoint
+  protected getStaticModels(): LLMModel[] {
+    return [
+      { id: 'llama-3.1-sonar-large-128k-online', name: 'Sonar Large', description: 'Online search capabilities' },
+      { id: 'llama-3.1-sonar-small-128k-online', name: 'Sonar Small', description: 'Fast with search' },
+      { id: 'sonar-pro', name: 'Sonar Pro', description: 'Professional-grade analysis' },
+      { id: 'sonar-reasoning', name: 'Sonar Reasoning', description: 'Enhanced reasoning capabilities' }
+    ];
+  }
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { PROJECT_BUNDLE_FORMAT, PROJECT_BUNDLE_VERSION, ProjectBundle } from './ProjectBundle';
+
+const legacyCopy = {
+  headline: 'Sleep better tonight',
+  subheadline: 'Without the grogginess',
+  heroText: 'Hero',
+  benefits: ['Fall asleep faster'],
+  socialProof: 'Loved by 10,000 sleepers',
+  cta: 'Buy Now',
+  urgency: 'Ends Friday',
+  objectionHandling: ['It pays for itself.'],
+  guarantee: '60-day guarantee'
+};
+
+describe('ProjectBundle.migrate', () => {
+  it('upgrades v1 copy to keep objection pairs and CTA options', () => {
+    const bundle = ProjectBundle.migrate({
+      format: PROJECT_BUNDLE_FORMAT,
+      schemaVersion: 1,
+      exportedAt: '2025-01-01T00:00:00.000Z',
+      project: {
+        name: 'ZenSleep Pro',
+        createdAt: 1,
+        currentStep: 'preview',
+        productData: null,
+        selectedPageType: 'vsl',
+        generatedCopy: legacyCopy,
+        selectedImages: null,
+        snapshots: [{ id: 's1', name: 'First draft', createdAt: 1, state: { generatedCopy: legacyCopy } }]
+      }
+    });
+
+    expect(bundle.schemaVersion).toBe(PROJECT_BUNDLE_VERSION);
+    expect(bundle.project.generatedCopy.ctaOptions).toEqual(['Buy Now']);
+    expect(bundle.project.generatedCopy.objectionHandling).toEqual([{ objection: '', response: 'It pays for itself.' }]);
+    expect(bundle.project.snapshots[0].state.generatedCopy.objectionHandling[0].response).toBe('It pays for itself.');
+  });
+
+  it('runs every migration for unversioned wizard state', () => {
+    const project = ProjectBundle.parse(JSON.stringify({ selectedPageType: 'vsl', generatedCopy: legacyCopy }));
+
+    expect(project.generatedCopy.cta).toBe('Buy Now');
+    expect(project.generatedCopy.ctaOptions).toEqual(['Buy Now']);
+  });
+
+  it('rejects bundles from a newer version', () => {
+    expect(() => ProjectBundle.migrate({ format: PROJECT_BUNDLE_FORMAT, schemaVersion: PROJECT_BUNDLE_VERSION + 1 }))
+      .toThrow(/newer version/);
+  });
+});
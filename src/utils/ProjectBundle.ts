@@ -0,0 +1,217 @@
+import { ContentAnalyzer, type ProductData } from './ContentAnalyzer';
+import { ProjectStore, type Project } from './ProjectStore';
+import type { GeneratedCopy } from '@/components/CopyGeneration';
+import type { SelectedImages } from '@/components/ImageSelection';
+import { getEarliestIncompleteStep, isStepReachable } from '@/lib/project-steps';
+import { downloadBlob, slugify } from '@/lib/download';
+import { DEFAULT_COPY_FRAMEWORK } from '@/lib/copy-frameworks';
+import { DEFAULT_COPY_LANGUAGE } from '@/lib/copy-languages';
+
+export const PROJECT_BUNDLE_FORMAT = 'landingenie-project';
+
+// Bump this and add a migration below whenever a bundled shape changes
+export const PROJECT_BUNDLE_VERSION = 2;
+
+type BundledProject = Pick<
+  Project,
+  | 'name'
+  | 'createdAt'
+  | 'currentStep'
+  | 'productData'
+  | 'sourceContent'
+  | 'selectedPageType'
+  | 'copyFramework'
+  | 'brandVoiceId'
+  | 'copyLanguage'
+  | 'generatedCopy'
+  | 'selectedImages'
+  | 'staleCopySections'
+  | 'staleImageSlots'
+  | 'lockedCopySections'
+  | 'copyVariants'
+  | 'copyPromptVersions'
+  | 'snapshots'
+>;
+
+export interface ProjectBundleFile {
+  format: typeof PROJECT_BUNDLE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  project: BundledProject;
+}
+
+type RawBundle = Record<string, unknown>;
+
+interface LegacyWizardState {
+  exportedAt?: string;
+  productData?: ProductData | null;
+  selectedPageType?: string;
+  pageType?: string;
+  generatedCopy?: GeneratedCopy | null;
+  selectedImages?: SelectedImages | null;
+}
+
+/**
+ * Upgrades a bundle from version N to N + 1, keyed by N. Migrations run in
+ * sequence, so each one only has to know about its neighbouring shape.
+ */
+const MIGRATIONS: Record<number, (bundle: RawBundle) => RawBundle> = {
+  // Version 0: the raw wizard state from Index.tsx, saved before bundles were versioned
+  0: (bundle) => {
+    const legacy = bundle as LegacyWizardState;
+    return {
+      format: PROJECT_BUNDLE_FORMAT,
+      schemaVersion: 1,
+      exportedAt: legacy.exportedAt || new Date().toISOString(),
+      project: {
+        name: legacy.productData?.productInfo?.name || 'Imported Project',
+        createdAt: Date.now(),
+        currentStep: 'preview',
+        productData: legacy.productData ?? null,
+        selectedPageType: legacy.selectedPageType || legacy.pageType || '',
+        generatedCopy: legacy.generatedCopy ?? null,
+        selectedImages: legacy.selectedImages ?? null,
+        staleCopySections: [],
+        staleImageSlots: []
+      }
+    };
+  },
+
+  // Version 1: objections were bare response strings and only the first CTA option was kept
+  1: (bundle) => {
+    const { project } = bundle as unknown as ProjectBundleFile;
+    return {
+      ...bundle,
+      schemaVersion: 2,
+      project: project && typeof project === 'object'
+        ? ProjectStore.normalizeProject(project as Project)
+        : project
+    };
+  }
+};
+
+export class ProjectBundle {
+  static createBundle(project: Project): ProjectBundleFile {
+    return {
+      format: PROJECT_BUNDLE_FORMAT,
+      schemaVersion: PROJECT_BUNDLE_VERSION,
+      exportedAt: new Date().toISOString(),
+      project: {
+        name: project.name,
+        createdAt: project.createdAt,
+        currentStep: project.currentStep,
+        productData: project.productData,
+        sourceContent: project.sourceContent ?? null,
+        selectedPageType: project.selectedPageType,
+        copyFramework: project.copyFramework,
+        brandVoiceId: project.brandVoiceId ?? null,
+        copyLanguage: project.copyLanguage || DEFAULT_COPY_LANGUAGE,
+        generatedCopy: project.generatedCopy,
+        selectedImages: project.selectedImages,
+        staleCopySections: project.staleCopySections || [],
+        staleImageSlots: project.staleImageSlots || [],
+        lockedCopySections: project.lockedCopySections || [],
+        copyVariants: project.copyVariants || {},
+        copyPromptVersions: project.copyPromptVersions || {},
+        snapshots: project.snapshots || []
+      }
+    };
+  }
+
+  static serialize(project: Project): string {
+    return JSON.stringify(this.createBundle(project), null, 2);
+  }
+
+  static download(project: Project): void {
+    const blob = new Blob([this.serialize(project)], { type: 'application/json' });
+    downloadBlob(blob, `${slugify(project.name)}.landingenie.json`);
+  }
+
+  static getSchemaVersion(bundle: RawBundle): number {
+    if (bundle.format === PROJECT_BUNDLE_FORMAT && typeof bundle.schemaVersion === 'number') {
+      return bundle.schemaVersion;
+    }
+    // Unversioned files are only accepted if they look like wizard state
+    if ('productData' in bundle || 'generatedCopy' in bundle) {
+      return 0;
+    }
+    throw new Error('This file is not a Landingenie project bundle');
+  }
+
+  static migrate(bundle: RawBundle): ProjectBundleFile {
+    let current = bundle;
+    let version = this.getSchemaVersion(current);
+
+    if (version > PROJECT_BUNDLE_VERSION) {
+      throw new Error(`This project was exported by a newer version of the app (schema v${version})`);
+    }
+
+    while (version < PROJECT_BUNDLE_VERSION) {
+      const migration = MIGRATIONS[version];
+      if (!migration) {
+        throw new Error(`No migration available for project schema v${version}`);
+      }
+      current = migration(current);
+      version = this.getSchemaVersion(current);
+    }
+
+    return current as unknown as ProjectBundleFile;
+  }
+
+  /**
+   * Turns bundle text into a new project. Imports always get a fresh id so
+   * opening a teammate's file never overwrites a local project.
+   */
+  static parse(text: string): Project {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(text);
+    } catch {
+      throw new Error('The project file is not valid JSON');
+    }
+
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      throw new Error('This file is not a Landingenie project bundle');
+    }
+
+    const { project: bundled } = this.migrate(raw as RawBundle);
+    if (!bundled || typeof bundled !== 'object') {
+      throw new Error('The project bundle is missing its project data');
+    }
+
+    const isObjectOrNull = (value: unknown) => value === null || value === undefined || typeof value === 'object';
+    if (!isObjectOrNull(bundled.productData) || !isObjectOrNull(bundled.generatedCopy) || !isObjectOrNull(bundled.selectedImages)) {
+      throw new Error('The project bundle contains malformed project data');
+    }
+
+    const project: Project = {
+      ...ProjectStore.createProject(),
+      name: bundled.name || 'Imported Project',
+      createdAt: bundled.createdAt || Date.now(),
+      productData: bundled.productData ? ContentAnalyzer.validateAndCleanData(bundled.productData) : null,
+      sourceContent: bundled.sourceContent?.markdown ? bundled.sourceContent : null,
+      selectedPageType: bundled.selectedPageType || '',
+      copyFramework: bundled.copyFramework || DEFAULT_COPY_FRAMEWORK,
+      brandVoiceId: bundled.brandVoiceId ?? null,
+      copyLanguage: bundled.copyLanguage || DEFAULT_COPY_LANGUAGE,
+      generatedCopy: bundled.generatedCopy || null,
+      selectedImages: bundled.selectedImages || null,
+      staleCopySections: bundled.staleCopySections || [],
+      staleImageSlots: bundled.staleImageSlots || [],
+      lockedCopySections: bundled.lockedCopySections || [],
+      copyVariants: bundled.copyVariants || {},
+      copyPromptVersions: bundled.copyPromptVersions || {},
+      snapshots: bundled.snapshots || []
+    };
+
+    project.currentStep = isStepReachable(project, bundled.currentStep)
+      ? bundled.currentStep
+      : getEarliestIncompleteStep(project);
+
+    return project;
+  }
+
+  static async readFile(file: File): Promise<Project> {
+    return this.parse(await file.text());
+  }
+}
@@ -0,0 +1,192 @@
+import type { ProductData } from './ContentAnalyzer';
+import type { GeneratedCopy } from '@/components/CopyGeneration';
+import type { SelectedImages } from '@/components/ImageSelection';
+import type { ProjectStep } from '@/lib/project-steps';
+import type { CopySection, ImageSlot } from '@/lib/project-dependencies';
+import { DEFAULT_COPY_FRAMEWORK, type CopyFrameworkId } from '@/lib/copy-frameworks';
+import { DEFAULT_COPY_LANGUAGE, type CopyLanguage } from '@/lib/copy-languages';
+import { normalizeCopyVariants, normalizeGeneratedCopy, type CopyVariants } from '@/lib/copy-parsing';
+import type { PromptTemplateRef } from '@/lib/prompt-templates';
+
+export type CopyPromptVersions = Partial<Record<CopySection, PromptTemplateRef>>;
+
+/** The scraped page the product data was extracted from, kept to check generated claims against. */
+export interface SourceContent {
+  url: string;
+  markdown: string;
+  scrapedAt: number;
+}
+
+export interface ProjectSnapshot {
+  id: string;
+  name: string;
+  createdAt: number;
+  state: Pick<
+    Project,
+    | 'productData'
+    | 'sourceContent'
+    | 'selectedPageType'
+    | 'copyFramework'
+    | 'brandVoiceId'
+    | 'copyLanguage'
+    | 'generatedCopy'
+    | 'selectedImages'
+    | 'staleCopySections'
+    | 'staleImageSlots'
+    | 'lockedCopySections'
+    | 'copyVariants'
+    | 'copyPromptVersions'
+  >;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  completedAt?: number;
+  currentStep: ProjectStep;
+  productData: ProductData | null;
+  // Null for projects from before it was kept, and for imported bundles without it
+  sourceContent?: SourceContent | null;
+  selectedPageType: string;
+  // One of COPY_FRAMEWORKS; projects from before frameworks use the value equation
+  copyFramework?: CopyFrameworkId;
+  // Profile from BrandVoiceStore; an id that no longer resolves means no voice
+  brandVoiceId?: string | null;
+  // Language the copy is written in; English for projects from before languages
+  copyLanguage?: CopyLanguage;
+  generatedCopy: GeneratedCopy | null;
+  selectedImages: SelectedImages | null;
+  // Downstream pieces whose upstream inputs changed after they were produced
+  staleCopySections?: CopySection[];
+  staleImageSlots?: ImageSlot[];
+  // Sections regeneration leaves alone, usually because they were written by hand
+  lockedCopySections?: CopySection[];
+  copyVariants?: CopyVariants;
+  // Template each section was last generated from, from PromptTemplateStore
+  copyPromptVersions?: CopyPromptVersions;
+  snapshots?: ProjectSnapshot[];
+}
+
+export class ProjectStore {
+  private static DB_NAME = 'landingenie';
+  private static DB_VERSION = 1;
+  private static STORE_NAME = 'projects';
+  private static dbPromise: Promise<IDBDatabase> | null = null;
+
+  private static openDatabase(): Promise<IDBDatabase> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+
+      const request = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(this.STORE_NAME)) {
+          const store = db.createObjectStore(this.STORE_NAME, { keyPath: 'id' });
+          store.createIndex('updatedAt', 'updatedAt');
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    // Allow a later call to retry if opening failed (e.g. private browsing)
+    this.dbPromise.catch(() => {
+      this.dbPromise = null;
+    });
+
+    return this.dbPromise;
+  }
+
+  private static async runRequest<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.openDatabase();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.STORE_NAME, mode);
+      const request = operation(transaction.objectStore(this.STORE_NAME));
+
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error || request.error);
+      transaction.onabort = () => reject(transaction.error || new Error('Project store transaction aborted'));
+    });
+  }
+
+  static createProject(): Project {
+    const now = Date.now();
+    return {
+      id: crypto.randomUUID(),
+      name: 'Untitled Project',
+      createdAt: now,
+      updatedAt: now,
+      currentStep: 'url-input',
+      productData: null,
+      sourceContent: null,
+      selectedPageType: '',
+      copyFramework: DEFAULT_COPY_FRAMEWORK,
+      copyLanguage: DEFAULT_COPY_LANGUAGE,
+      generatedCopy: null,
+      selectedImages: null,
+      staleCopySections: [],
+      staleImageSlots: [],
+      lockedCopySections: [],
+      copyVariants: {},
+      copyPromptVersions: {},
+      snapshots: []
+    };
+  }
+
+  /**
+   * Upgrades copy saved in an older shape, including inside snapshots. Stored
+   * records are rewritten the next time the project is saved.
+   */
+  static normalizeProject(project: Project): Project {
+    return {
+      ...project,
+      generatedCopy: normalizeGeneratedCopy(project.generatedCopy),
+      copyVariants: normalizeCopyVariants(project.copyVariants),
+      snapshots: project.snapshots?.map(snapshot => ({
+        ...snapshot,
+        state: {
+          ...snapshot.state,
+          generatedCopy: normalizeGeneratedCopy(snapshot.state.generatedCopy),
+          copyVariants: normalizeCopyVariants(snapshot.state.copyVariants)
+        }
+      }))
+    };
+  }
+
+  static async listProjects(): Promise<Project[]> {
+    const projects = await this.runRequest<Project[]>('readonly', store => store.getAll());
+    return projects.map(project => this.normalizeProject(project)).sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  static async getProject(id: string): Promise<Project | null> {
+    const project = await this.runRequest<Project | undefined>('readonly', store => store.get(id));
+    return project ? this.normalizeProject(project) : null;
+  }
+
+  static async saveProject(project: Project): Promise<Project> {
+    const saved: Project = {
+      ...project,
+      name: project.productData?.productInfo?.name || project.name,
+      updatedAt: Date.now()
+    };
+    await this.runRequest('readwrite', store => store.put(saved));
+    return saved;
+  }
+
+  static async deleteProject(id: string): Promise<void> {
+    await this.runRequest('readwrite', store => store.delete(id));
+  }
+}
@@ -0,0 +1,39 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PromptTemplateStore } from './PromptTemplateStore';
+import { DEFAULT_PROMPT_TEMPLATES } from '@/lib/prompt-template-defaults';
+
+const socialProof = DEFAULT_PROMPT_TEMPLATES.find(template => template.id === 'copy.hormozi.socialProof')!;
+
+describe('PromptTemplateStore', () => {
+  let storage: Map<string, string>;
+
+  beforeEach(() => {
+    storage = new Map();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+      removeItem: (key: string) => storage.delete(key)
+    });
+    vi.stubGlobal('window', { dispatchEvent: vi.fn() });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('numbers saves above the built-in version', () => {
+    const saved = PromptTemplateStore.saveTemplate(socialProof.id, 'My social proof prompt')!;
+    expect(saved).toMatchObject({ version: socialProof.version + 1, isDefault: false, isOutdated: false });
+    expect(PromptTemplateStore.getNextVersion(socialProof.id)).toBe(socialProof.version + 2);
+  });
+
+  it('marks an edit saved over an older built-in as outdated until the built-in is used again', () => {
+    storage.set('prompt_template_versions', JSON.stringify({
+      [socialProof.id]: [{ version: 2, body: 'Create realistic testimonials', savedAt: 1000 }]
+    }));
+    expect(PromptTemplateStore.getTemplate(socialProof.id)).toMatchObject({ version: 2, savedAt: 1000, isOutdated: true });
+
+    const restored = PromptTemplateStore.saveTemplate(socialProof.id, socialProof.body)!;
+    expect(restored).toMatchObject({ version: 3, body: socialProof.body, isOutdated: false });
+  });
+});
@@ -0,0 +1,84 @@
+import { DEFAULT_PROMPT_TEMPLATES } from '@/lib/prompt-template-defaults';
+import type { PromptTemplate, PromptTemplateVersion } from '@/lib/prompt-templates';
+
+/**
+ * Edited prompt templates, shared by every project in this browser. Each save
+ * is kept as a new version so generated copy can name the exact wording it
+ * came from, by version number and save time. The latest save is the one in
+ * use; a template with no saves uses its built-in text.
+ */
+export class PromptTemplateStore {
+  private static STORAGE_KEY = 'prompt_template_versions';
+  // Lets every mounted hook pick up a save made elsewhere in the app
+  static CHANGE_EVENT = 'prompt-templates-changed';
+
+  static listTemplates(): PromptTemplate[] {
+    const saved = this.readVersions();
+    return DEFAULT_PROMPT_TEMPLATES.map(template => {
+      const versions = saved[template.id] || [];
+      // Saved and built-in numbers are counted separately, so only the save time says which is newer
+      const latest = [...versions].sort((a, b) => a.savedAt - b.savedAt).pop();
+      return latest
+        ? {
+          ...template,
+          version: latest.version,
+          body: latest.body,
+          isDefault: false,
+          savedAt: latest.savedAt,
+          isOutdated: (latest.baseVersion ?? 1) < template.version
+        }
+        : { ...template, isDefault: true, savedAt: 0, isOutdated: false };
+    });
+  }
+
+  static getTemplate(id: string): PromptTemplate | null {
+    return this.listTemplates().find(template => template.id === id) || null;
+  }
+
+  /** The built-in text and every saved edit, in the order they were saved. */
+  static listVersions(id: string): PromptTemplateVersion[] {
+    const template = DEFAULT_PROMPT_TEMPLATES.find(item => item.id === id);
+    if (!template) return [];
+    const saved = this.readVersions()[id] || [];
+    return [{ version: template.version, body: template.body, savedAt: 0 }, ...saved]
+      .sort((a, b) => a.savedAt - b.savedAt);
+  }
+
+  /**
+   * Saves `body` as the next version; returns the template unchanged if the
+   * text is the same. Going back to old text saves it again as a new version,
+   * numbered above every saved and built-in version, so a save never reuses
+   * a number. A built-in bumped later can still match an older save's number;
+   * its zero `savedAt` tells the two apart.
+   */
+  static saveTemplate(id: string, body: string): PromptTemplate | null {
+    const current = this.getTemplate(id);
+    // Saving the same text over a newer built-in still records that it was checked against it
+    if (!current || (current.body === body && !current.isOutdated)) return current;
+
+    const versions = this.readVersions();
+    const baseVersion = DEFAULT_PROMPT_TEMPLATES.find(template => template.id === id)!.version;
+    versions[id] = [...(versions[id] || []), { version: this.getNextVersion(id), body, savedAt: Date.now(), baseVersion }];
+    this.writeVersions(versions);
+    return this.getTemplate(id);
+  }
+
+  /** The number the next save of the template gets. */
+  static getNextVersion(id: string): number {
+    return Math.max(0, ...this.listVersions(id).map(item => item.version)) + 1;
+  }
+
+  private static readVersions(): Record<string, PromptTemplateVersion[]> {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private static writeVersions(versions: Record<string, PromptTemplateVersion[]>): void {
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(versions));
+    window.dispatchEvent(new Event(this.CHANGE_EVENT));
+  }
+}
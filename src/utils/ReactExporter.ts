@@ -0,0 +1,52 @@
+import JSZip from 'jszip';
+import { HTMLExporter } from './HTMLExporter';
+import type { LandingPageTemplateProps } from '@/components/LandingPageTemplate';
+import { getCopyLanguage } from '@/lib/copy-languages';
+import { downloadBlob, slugify } from '@/lib/download';
+import { htmlToJsx } from '@/lib/html-to-jsx';
+import { buildComponentSource, buildContentSource, buildPropPlaceholders, buildViteScaffold } from '@/lib/react-export';
+
+/**
+ * Exports a landing page as source for developers: a typed React component
+ * that takes the copy and images as props, inside a minimal Vite project.
+ * The markup comes from rendering the same template the preview uses, so
+ * the component matches what was approved here.
+ */
+export class ReactExporter {
+  /** `LandingPage.tsx` and `content.ts` for the page. */
+  static buildSources(page: LandingPageTemplateProps): { component: string; content: string } {
+    const placeholders = buildPropPlaceholders(page.generatedCopy, page.selectedImages);
+    const markup = HTMLExporter.renderBody({
+      ...page,
+      generatedCopy: placeholders.tokenCopy,
+      selectedImages: placeholders.tokenImages
+    });
+
+    return {
+      component: buildComponentSource(htmlToJsx(markup, { indent: '    ', expressions: placeholders.expressions })),
+      content: buildContentSource(placeholders.copy, placeholders.images)
+    };
+  }
+
+  static async buildProject(page: LandingPageTemplateProps, name: string): Promise<Blob> {
+    const zip = new JSZip();
+    const { component, content } = this.buildSources(page);
+    const files = buildViteScaffold({
+      name: slugify(name),
+      title: page.generatedCopy.headline || name,
+      language: getCopyLanguage(page.language).code
+    });
+
+    Object.entries(files).forEach(([path, source]) => zip.file(path, source));
+    zip.file('src/LandingPage.tsx', component);
+    zip.file('src/content.ts', content);
+    // Purged against the real page, which uses the same classes as the component
+    zip.file('src/landing-page.css', HTMLExporter.buildStylesheet(HTMLExporter.renderBody(page)));
+
+    return zip.generateAsync({ type: 'blob' });
+  }
+
+  static async download(page: LandingPageTemplateProps, name: string): Promise<void> {
+    downloadBlob(await this.buildProject(page, name), `${slugify(name)}-react.zip`);
+  }
+}
@@ -0,0 +1,89 @@
+import { toCanvas } from 'html-to-image';
+import { jsPDF } from 'jspdf';
+import { HTMLExporter } from './HTMLExporter';
+import type { LandingPageTemplateProps } from '@/components/LandingPageTemplate';
+import { downloadBlob, slugify } from '@/lib/download';
+import { getPageSlices, VIEWPORTS, type ViewMode } from '@/lib/viewports';
+
+// Images on the page get this long to load before the capture goes ahead without them
+const LOAD_TIMEOUT_MS = 15000;
+
+/**
+ * Screenshots of the landing page as it renders at a given device width.
+ * The page is loaded into an offscreen iframe of that width, so its media
+ * queries respond as they would on the device rather than to the editor.
+ */
+export class SnapshotExporter {
+  private static async withFrame<T>(page: LandingPageTemplateProps, viewMode: ViewMode, capture: (body: HTMLElement) => Promise<T>): Promise<T> {
+    const { width, height } = VIEWPORTS[viewMode];
+    const frame = document.createElement('iframe');
+    frame.setAttribute('aria-hidden', 'true');
+    frame.style.cssText = `position: fixed; left: -${width + 100}px; top: 0; width: ${width}px; height: ${height}px; border: 0;`;
+
+    try {
+      await new Promise<void>((resolve) => {
+        const timeout = setTimeout(resolve, LOAD_TIMEOUT_MS);
+        frame.onload = () => {
+          clearTimeout(timeout);
+          resolve();
+        };
+        frame.srcdoc = HTMLExporter.buildDocument(page);
+        document.body.appendChild(frame);
+      });
+
+      const body = frame.contentDocument?.body;
+      if (!body) throw new Error('The page could not be rendered');
+      await frame.contentDocument.fonts?.ready;
+      return await capture(body);
+    } finally {
+      frame.remove();
+    }
+  }
+
+  /** The whole page, top to bottom, at the viewport's width. */
+  static renderCanvas(page: LandingPageTemplateProps, viewMode: ViewMode): Promise<HTMLCanvasElement> {
+    return this.withFrame(page, viewMode, body => toCanvas(body, {
+      width: VIEWPORTS[viewMode].width,
+      height: body.scrollHeight,
+      backgroundColor: '#ffffff',
+      pixelRatio: 1
+    }));
+  }
+
+  static async downloadPng(page: LandingPageTemplateProps, viewMode: ViewMode, name: string): Promise<void> {
+    const canvas = await this.renderCanvas(page, viewMode);
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('The screenshot could not be encoded');
+    downloadBlob(blob, `${slugify(name)}-${viewMode}.png`);
+  }
+
+  /** One screen per PDF page, sized to the viewport so nothing is scaled or cropped sideways. */
+  static async downloadPdf(page: LandingPageTemplateProps, viewMode: ViewMode, name: string): Promise<void> {
+    const canvas = await this.renderCanvas(page, viewMode);
+    const { width, height } = VIEWPORTS[viewMode];
+    const slices = getPageSlices(canvas.height, height);
+    const orientation = (pageHeight: number) => width > pageHeight ? 'landscape' : 'portrait';
+    const pdf = new jsPDF({
+      orientation: orientation(slices[0].height),
+      unit: 'px',
+      format: [width, slices[0].height],
+      hotfixes: ['px_scaling']
+    });
+    pdf.setProperties({ title: `${page.generatedCopy.headline || name} (${VIEWPORTS[viewMode].label})` });
+
+    const sliceCanvas = document.createElement('canvas');
+    sliceCanvas.width = canvas.width;
+    slices.forEach((slice, index) => {
+      sliceCanvas.height = slice.height;
+      const context = sliceCanvas.getContext('2d')!;
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, sliceCanvas.width, slice.height);
+      context.drawImage(canvas, 0, slice.y, canvas.width, slice.height, 0, 0, canvas.width, slice.height);
+
+      if (index > 0) pdf.addPage([width, slice.height], orientation(slice.height));
+      pdf.addImage(sliceCanvas.toDataURL('image/jpeg', 0.92), 'JPEG', 0, 0, width, slice.height);
+    });
+
+    downloadBlob(pdf.output('blob'), `${slugify(name)}-${viewMode}.pdf`);
+  }
+}